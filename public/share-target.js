@@ -0,0 +1,25 @@
+// 共有（Web Share Target）で受け取ったファイルを、アプリが読み出せるようキャッシュに保存して、アプリを開く。
+// vite.config.ts の workbox.importScripts で Service Worker に読み込む（キャッシュ名は src/utils/incomingFiles.ts と同じ）。
+const SHARE_TARGET_CACHE = 'share-target';
+
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (event.request.method !== 'POST' || url.pathname !== '/share-target') return;
+
+  event.respondWith((async () => {
+    const formData = await event.request.formData();
+    const files = formData.getAll('files').filter((file) => file instanceof File);
+    await caches.delete(SHARE_TARGET_CACHE);
+    const cache = await caches.open(SHARE_TARGET_CACHE);
+    await Promise.all(files.map((file, index) => cache.put(
+      `/share-target/${index}`,
+      new Response(file, {
+        headers: {
+          'Content-Type': file.type || 'application/octet-stream',
+          'X-File-Name': encodeURIComponent(file.name),
+        },
+      })
+    )));
+    return Response.redirect('/?share-target', 303);
+  })());
+});
@@ -0,0 +1,63 @@
+// 取り込み元の確認用のローカルサーバー（npm run fixtures）
+//   http://localhost:8787/list.csv                         … fixtures/ のファイルをそのまま返す
+//   http://localhost:8787/spreadsheets/d/sample/edit       … GoogleスプレッドシートのURLとして入力する
+//     → /spreadsheets/d/<id>/gviz/tq?tqx=out:csv&sheet=<シート名> または &gid=<gid> で
+//       fixtures/sheets/<id>/<シート名>.csv を返す（gid とシート名の対応は sheets.json）
+//   http://localhost:8787/login.html                       … CSVではなくWebページが返される場合の確認用
+import { createServer } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import { extname, join, normalize } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const PORT = Number(process.env.PORT) || 8787;
+const ROOT = fileURLToPath(new URL('../fixtures/', import.meta.url));
+
+const CONTENT_TYPES = {
+  '.csv': 'text/csv; charset=utf-8',
+  '.tsv': 'text/tab-separated-values; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.html': 'text/html; charset=utf-8',
+};
+
+// fixtures/ の外を読まないよう、正規化したパスを確認する
+const resolvePath = (path) => {
+  const resolved = normalize(join(ROOT, path));
+  return resolved.startsWith(ROOT) ? resolved : null;
+};
+
+const findSheetFile = async (id, params) => {
+  let sheetName = params.get('sheet');
+  if (!sheetName) {
+    const sheets = JSON.parse(await readFile(resolvePath(`sheets/${id}/sheets.json`), 'utf8'));
+    // gid の指定がなければ先頭のシート
+    sheetName = params.has('gid') ? sheets[params.get('gid')] : Object.values(sheets)[0];
+  }
+  return sheetName ? resolvePath(`sheets/${id}/${sheetName}.csv`) : null;
+};
+
+const server = createServer(async (req, res) => {
+  // ブラウザの開発サーバー（別オリジン）から読み込めるようにする
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  try {
+    const path = decodeURIComponent(url.pathname);
+    const gviz = path.match(/^\/spreadsheets\/d\/([a-zA-Z0-9-_]+)\/gviz\/tq$/);
+    const file = gviz ? await findSheetFile(gviz[1], url.searchParams) : resolvePath(path);
+    if (!file) throw Object.assign(new Error('not found'), { code: 'ENOENT' });
+    const body = await readFile(file);
+    res.writeHead(200, { 'Content-Type': CONTENT_TYPES[extname(file)] || 'application/octet-stream' });
+    res.end(body);
+    console.log(`200 ${req.url}`);
+  } catch (error) {
+    // 不正なパーセントエンコーディングのパスは 400
+    const status = error instanceof URIError ? 400 : error.code === 'ENOENT' || error.code === 'EISDIR' ? 404 : 500;
+    res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end({ 400: 'Bad Request', 404: 'Not Found' }[status] || 'Internal Server Error');
+    console.log(`${status} ${req.url}`);
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`fixture server: http://localhost:${PORT}/`);
+});
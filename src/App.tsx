@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { ShoppingItem, PurchaseStatus, EventMetadata, ViewMode, DayModeState, ExecuteModeItems } from './types';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { ShoppingItem, ImportedItemValues, PurchaseStatus, CatalogImportOptions, ColumnMapping, ColumnMappingProfile, EventMetadata, ImportSource, UrlImportSource, ViewMode, DayModeState, ExecuteModeItems, AppData, QuarantinedRecord, EventSnapshot, SnapshotReason, ChangeLogEntry, ChangeLogKind, ExportFormat, VenueLayout, AppSettings } from './types';
 import ImportScreen from './components/ImportScreen';
 import ShoppingList from './components/ShoppingList';
 import SummaryBar from './components/SummaryBar';
@@ -10,14 +10,52 @@ import BulkActionControls from './components/BulkActionControls';
 import UpdateConfirmationModal from './components/UpdateConfirmationModal';
 import UrlUpdateDialog from './components/UrlUpdateDialog';
 import EventRenameDialog from './components/EventRenameDialog';
+import StorageErrorBanner from './components/StorageErrorBanner';
+import DataRecoveryScreen from './components/DataRecoveryScreen';
+import UndoToast from './components/UndoToast';
+import SnapshotBrowserDialog from './components/SnapshotBrowserDialog';
+import BackupRestoreDialog from './components/BackupRestoreDialog';
+import ChangeLogDialog from './components/ChangeLogDialog';
+import ColumnMappingEditor from './components/ColumnMappingEditor';
+import ExportDialog from './components/ExportDialog';
+import CatalogImportDialog from './components/CatalogImportDialog';
+import VenueLayoutDialog from './components/VenueLayoutDialog';
+import RouteOptimizeDialog from './components/RouteOptimizeDialog';
+import HallMapView from './components/HallMapView';
+import RouteTimelineView from './components/RouteTimelineView';
 import SortAscendingIcon from './components/icons/SortAscendingIcon';
 import SortDescendingIcon from './components/icons/SortDescendingIcon';
-import { getItemKey, getItemKeyWithoutTitle, insertItemSorted } from './utils/itemComparison';
-
-type ActiveTab = 'eventList' | 'import' | string; // string部分は動的な参加日（例: '1日目', '2日目', '3日目'など）
+import ArrowUturnLeftIcon from './components/icons/ArrowUturnLeftIcon';
+import ArrowUturnRightIcon from './components/icons/ArrowUturnRightIcon';
+import { getItemKey, insertItemSorted } from './utils/itemComparison';
+import { loadAppData, saveAppDataChanges, getStorageErrorMessage, deleteQuarantinedRecord, restoreQuarantinedRecord, loadEventHistories, saveEventHistory, createEventSnapshot, loadEventSnapshots, loadSnapshotEventNames, deleteEventSnapshot, renameEventSnapshots, applyEventSnapshot, addChangeLogEntry, replaceChangeLogEntry, loadChangeLog, renameChangeLog, loadMappingProfiles, saveMappingProfile, deleteMappingProfile, DEFAULT_APP_SETTINGS, loadAppSettings, saveAppSettings, setDatabaseBlockedHandler } from './utils/storage';
+import { escapeCsvCell, parseCsvStream, toCellRows } from './utils/csv';
+import { fetchSourceCsv, isUrlImportSource, toChangeLogSource, toSourceMetadataRows } from './utils/importSource';
+import { consumeLaunchFiles, hasDraggedFiles, isBackupFile, isImportableFile, takeSharedFiles } from './utils/incomingFiles';
+import { CatalogFavorites, defaultCatalogImportOptions, isCatalogCsv, parseCatalogFavorites, toCatalogItems } from './utils/catalogCsv';
+import { EXPORT_HEADERS, SHEET_COLUMN_MAPPING, applyColumnMapping, combineExportedSheets, suggestColumnMapping } from './utils/columnMapping';
+import { SheetMergeResult, UpdateSelection, applyUpdateSelection, mergeSheetItems, toSheetValues } from './utils/sheetMerge';
+import { BackupEventImport, ParsedBackup, createBackup, mergeBackupEvents, parseBackup } from './utils/backup';
+import { changeLogToCsv, diffItemLists, findReorderedIds, hasChanges, purchaseStatusLabels } from './utils/changeLog';
+import { encodeShiftJis } from './utils/encoding';
+import { XLSX_MIME_TYPE, XlsxSheetData, createXlsx, readXlsx, toSheetName } from './utils/xlsx';
+import { createVenueLayoutFile, createVenueLayoutTemplate } from './utils/venueLayout';
+import { isReplanTarget, replanPostponedItems } from './utils/route';
+import { COALESCE_INTERVAL_MS, EventHistory, applyHistoryEntry, createEmptyHistory, createHistoryEntry, pushHistoryEntry } from './utils/history';
+
+type ActiveTab = 'eventList' | 'import' | 'recovery' | string; // string部分は動的な参加日（例: '1日目', '2日目', '3日目'など）
 type SortState = 'Manual' | 'Postpone' | 'Late' | 'Absent' | 'SoldOut' | 'Purchased';
 export type BulkSortDirection = 'asc' | 'desc';
 type BlockSortDirection = 'asc' | 'desc';
+// 更新に使った取り込み元と、次回の更新のために記録する設定
+// 変更履歴に記録する操作の詳細
+type ChangeLogOptions = {
+  source?: { url: string; sheetName: string };
+  label?: string; // 編集の操作名
+  coalesceKey?: string; // 同じキーの連続した編集は1件にまとめる
+  reorderIds?: Set<string>; // 並び順の変更を記録するアイテム（一括の並び替え）
+};
+type UpdateOrigin = { source: ImportSource; columnMapping?: ColumnMappingProfile; catalogImport?: CatalogImportOptions };
 
 // データから参加日を抽出する関数
 const extractEventDates = (items: ShoppingItem[]): string[] => {
@@ -46,11 +84,40 @@ const sortLabels: Record<SortState, string> = {
     Purchased: '購入済',
 };
 
+// 変更履歴の記録待ち: 操作と変更前のアイテム・実行列
+type PendingChangeLog = ChangeLogOptions & { kind: ChangeLogKind; before: ShoppingItem[]; beforeExecute: ExecuteModeItems };
+
+// 1回の操作で行う状態変更と、その変更として記録する操作履歴・変更履歴
+interface StateChange {
+  command?: { label: string; coalesceKey?: string };
+  isHistoryStep?: boolean; // 元に戻す・やり直しによる変更（操作履歴には記録しない）
+  changeLogs: Record<string, PendingChangeLog>;
+}
+
+// 状態の更新に記録待ちの操作を結び付ける（更新しても状態が変わらなかった場合は結び付けない）
+const withStateChange = <T extends object>(
+  setState: React.Dispatch<React.SetStateAction<T>>,
+  pendingChangeRef: React.MutableRefObject<StateChange | null>,
+  stateChanges: WeakMap<object, StateChange>
+): React.Dispatch<React.SetStateAction<T>> => action => {
+  const change = pendingChangeRef.current;
+  if (!change) {
+    setState(action);
+    return;
+  }
+  setState(prev => {
+    const next = typeof action === 'function' ? (action as (prev: T) => T)(prev) : action;
+    if (next !== prev) stateChanges.set(next, change);
+    return next;
+  });
+};
+
 const App: React.FC = () => {
-  const [eventLists, setEventLists] = useState<Record<string, ShoppingItem[]>>({});
+  const [eventLists, setEventListsState] = useState<Record<string, ShoppingItem[]>>({});
   const [eventMetadata, setEventMetadata] = useState<Record<string, EventMetadata>>({});
-  const [executeModeItems, setExecuteModeItems] = useState<Record<string, ExecuteModeItems>>({});
+  const [executeModeItems, setExecuteModeItemsState] = useState<Record<string, ExecuteModeItems>>({});
   const [dayModes, setDayModes] = useState<Record<string, DayModeState>>({});
+  const [venueLayouts, setVenueLayouts] = useState<Record<string, VenueLayout>>({});
   
   const [activeEventName, setActiveEventName] = useState<string | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
@@ -65,56 +132,339 @@ const App: React.FC = () => {
 
   // 更新機能用の状態
   const [showUpdateConfirmation, setShowUpdateConfirmation] = useState(false);
-  const [updateData, setUpdateData] = useState<{
-    itemsToDelete: ShoppingItem[];
-    itemsToUpdate: ShoppingItem[];
-    itemsToAdd: Omit<ShoppingItem, 'id' | 'purchaseStatus'>[];
-  } | null>(null);
+  const [updateData, setUpdateData] = useState<(SheetMergeResult & UpdateOrigin) | null>(null);
+  // ファイルから取り込んだリストを、選び直したファイルで更新する
+  const updateFileInputRef = useRef<HTMLInputElement>(null);
+  const [fileUpdateEventName, setFileUpdateEventName] = useState<string | null>(null);
+  // Webカタログのお気に入りCSVで更新するリストと、読み込んだお気に入り
+  const [catalogUpdate, setCatalogUpdate] = useState<{ eventName: string; fileName: string; favorites: CatalogFavorites } | null>(null);
+  // 列の割り当てを確認してから更新する場合の取得済みデータ
+  const [updateMappingRequest, setUpdateMappingRequest] = useState<{ eventName: string; rows: string[][]; warnings: string[]; initialMapping: ColumnMapping; source: ImportSource } | null>(null);
   const [updateEventName, setUpdateEventName] = useState<string | null>(null);
-  const [showUrlUpdateDialog, setShowUrlUpdateDialog] = useState(false);
-  const [pendingUpdateEventName, setPendingUpdateEventName] = useState<string | null>(null);
+  // 取り込み元を指定し直して更新するリスト（読み込めなかった場合はその理由）
+  const [urlUpdateRequest, setUrlUpdateRequest] = useState<{ eventName: string; errorMessage?: string } | null>(null);
   const [showRenameDialog, setShowRenameDialog] = useState(false);
   const [eventToRename, setEventToRename] = useState<string | null>(null);
 
+  const [storageError, setStorageError] = useState<{ message: string; canRetry: boolean } | null>(null);
+  // 別のタブが古いバージョンのアプリを開いているため、データベースの更新を待っている
+  const [isDatabaseBlocked, setIsDatabaseBlocked] = useState(false);
+  const [quarantinedRecords, setQuarantinedRecords] = useState<QuarantinedRecord[]>([]);
+  const [histories, setHistories] = useState<Record<string, EventHistory>>({});
+  // change: 通知した操作の状態変更、entryId: その操作で記録された操作履歴
+  const [undoToast, setUndoToast] = useState<{ message: string; eventName: string; change: StateChange | null; entryId?: string } | null>(null);
+  const [snapshotEventNames, setSnapshotEventNames] = useState<string[]>([]);
+  const [snapshotBrowser, setSnapshotBrowser] = useState<{ eventName: string; snapshots: EventSnapshot[] | null } | null>(null);
+  const [backupToRestore, setBackupToRestore] = useState<ParsedBackup | null>(null);
+  const [mappingProfiles, setMappingProfiles] = useState<ColumnMappingProfile[]>([]);
+  const [changeLogViewer, setChangeLogViewer] = useState<{ eventName: string; entries: ChangeLogEntry[] | null } | null>(null);
+  const [exportRequestEventName, setExportRequestEventName] = useState<string | null>(null);
+  // 会場図を編集している即売会
+  const [venueLayoutEventName, setVenueLayoutEventName] = useState<string | null>(null);
+  const [showRouteOptimizer, setShowRouteOptimizer] = useState(false);
+  // 参加日のタブを、カードの一覧の代わりに会場マップ・巡回の予定で表示する
+  const [dayView, setDayView] = useState<'cards' | 'map' | 'timeline'>('cards');
+  const [appSettings, setAppSettings] = useState<AppSettings>(DEFAULT_APP_SETTINGS);
+  // ドロップ・「このアプリで開く」・共有で受け取り、インポート画面で取り込むファイル
+  const [incomingFile, setIncomingFile] = useState<File | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const historiesRef = useRef<Record<string, EventHistory>>({});
+  // 履歴記録用: 直前の状態
+  const historyBaseRef = useRef<Pick<AppData, 'eventLists' | 'executeModeItems'> | null>(null);
+  // 記録待ちの操作（ハンドラーの中で、続けて同期的に行う状態変更に結び付ける）と、状態変更で作られた状態ごとの操作
+  const pendingChangeRef = useRef<StateChange | null>(null);
+  const stateChangesRef = useRef(new WeakMap<object, StateChange>());
+  const setEventLists = useMemo(() => withStateChange(setEventListsState, pendingChangeRef, stateChangesRef.current), []);
+  const setExecuteModeItems = useMemo(() => withStateChange(setExecuteModeItemsState, pendingChangeRef, stateChangesRef.current), []);
+  // 最後に記録した、まとめられる編集の変更履歴（同じアイテムへの連続した編集を1件にまとめる）
+  const lastEditLogRef = useRef<{ eventName: string; coalesceKey: string; before: ShoppingItem[]; time: number; id: Promise<number | null> } | null>(null);
+  // 最後にIndexedDBへ書き込んだ状態（null の場合は次回の保存で全件を書き直す）
+  const persistedDataRef = useRef<AppData | null>(null);
+  // 読み込みに失敗した場合、空の状態で既存データを上書きしないよう保存を止める
+  const isSaveDisabledRef = useRef(false);
+
   useEffect(() => {
-    try {
-      const storedLists = localStorage.getItem('eventShoppingLists');
-      const storedMetadata = localStorage.getItem('eventMetadata');
-      const storedExecuteItems = localStorage.getItem('executeModeItems');
-      const storedDayModes = localStorage.getItem('dayModes');
-      
-      if (storedLists) {
-        setEventLists(JSON.parse(storedLists));
-      }
-      if (storedMetadata) {
-        setEventMetadata(JSON.parse(storedMetadata));
+    setDatabaseBlockedHandler(setIsDatabaseBlocked);
+    loadAppData()
+      .then(({ data, quarantined }) => {
+        persistedDataRef.current = data;
+        setQuarantinedRecords(quarantined);
+        setEventLists(data.eventLists);
+        setEventMetadata(data.eventMetadata);
+        setExecuteModeItems(data.executeModeItems);
+        setDayModes(data.dayModes);
+        setVenueLayouts(data.venueLayouts);
+      })
+      .catch(error => {
+        console.error("Failed to load data from IndexedDB", error);
+        isSaveDisabledRef.current = true;
+        setStorageError({ message: `${getStorageErrorMessage(error)} 変更は保存されません。`, canRetry: false });
+      })
+      .finally(() => setIsInitialized(true));
+
+    loadEventHistories()
+      .then(loaded => {
+        historiesRef.current = loaded;
+        setHistories(loaded);
+      })
+      .catch(error => {
+        console.error("Failed to load history from IndexedDB", error);
+      });
+
+    loadSnapshotEventNames()
+      .then(setSnapshotEventNames)
+      .catch(error => {
+        console.error("Failed to load snapshots from IndexedDB", error);
+      });
+
+    loadMappingProfiles()
+      .then(setMappingProfiles)
+      .catch(error => {
+        console.error("Failed to load mapping profiles from IndexedDB", error);
+      });
+
+    loadAppSettings()
+      .then(setAppSettings)
+      .catch(error => {
+        console.error("Failed to load settings from IndexedDB", error);
+      });
+  }, []);
+
+  const appData = useMemo<AppData>(
+    () => ({ eventLists, eventMetadata, executeModeItems, dayModes, venueLayouts }),
+    [eventLists, eventMetadata, executeModeItems, dayModes, venueLayouts]
+  );
+
+  const persistData = useCallback((data: AppData) => {
+    if (isSaveDisabledRef.current) return;
+    const prev = persistedDataRef.current;
+    persistedDataRef.current = data;
+    saveAppDataChanges(prev, data).catch(error => {
+      console.error("Failed to save data to IndexedDB", error);
+      persistedDataRef.current = null;
+      setStorageError({ message: getStorageErrorMessage(error), canRetry: true });
+    });
+  }, []);
+
+  useEffect(() => {
+    if (isInitialized) {
+      persistData(appData);
+    }
+  }, [appData, isInitialized, persistData]);
+
+  const handleRetrySave = useCallback(() => {
+    setStorageError(null);
+    persistData(appData);
+  }, [appData, persistData]);
+
+  const applyAppData = useCallback((data: AppData) => {
+    setEventLists(data.eventLists);
+    setEventMetadata(data.eventMetadata);
+    setExecuteModeItems(data.executeModeItems);
+    setDayModes(data.dayModes);
+    setVenueLayouts(data.venueLayouts);
+  }, []);
+
+  // 変更前のイベントの状態をスナップショットとして保存する
+  const takeSnapshot = useCallback((eventName: string, reason: SnapshotReason): Promise<void> => {
+    if (!appData.eventLists[eventName]) return Promise.resolve();
+    setSnapshotEventNames(prev => prev.includes(eventName) ? prev : [...prev, eventName]);
+    return createEventSnapshot(appData, eventName, reason).catch(error => {
+      console.error("Failed to save snapshot to IndexedDB", error);
+      setStorageError({ message: getStorageErrorMessage(error), canRetry: false });
+    });
+  }, [appData]);
+
+  const removeQuarantinedRecord = useCallback((record: QuarantinedRecord) => {
+    setQuarantinedRecords(prev => prev.filter(r => r.id !== record.id));
+    deleteQuarantinedRecord(record.id).catch(error => {
+      console.error("Failed to delete quarantined record", error);
+      setStorageError({ message: getStorageErrorMessage(error), canRetry: false });
+    });
+  }, []);
+
+  const handleRestoreQuarantined = useCallback((record: QuarantinedRecord, editedRecord: unknown): string[] | null => {
+    const result = restoreQuarantinedRecord(appData, record, editedRecord);
+    if (!result.ok) return result.errors;
+    applyAppData(result.data);
+    removeQuarantinedRecord(record);
+    return null;
+  }, [appData, applyAppData, removeQuarantinedRecord]);
+
+  const updateHistories = useCallback((changes: Record<string, EventHistory | null>) => {
+    const next = { ...historiesRef.current };
+    Object.entries(changes).forEach(([eventName, history]) => {
+      if (history) {
+        next[eventName] = history;
+      } else {
+        delete next[eventName];
       }
-      if (storedExecuteItems) {
-        setExecuteModeItems(JSON.parse(storedExecuteItems));
+      saveEventHistory(eventName, history).catch(error => {
+        console.error("Failed to save history to IndexedDB", error);
+        setStorageError({ message: getStorageErrorMessage(error), canRetry: false });
+      });
+    });
+    historiesRef.current = next;
+    setHistories(next);
+  }, []);
+
+  // 記録待ちの操作（同期的な処理が終わったら、状態変更が行われなかった場合も含めて破棄する）
+  const getPendingChange = useCallback((): StateChange => {
+    if (!pendingChangeRef.current) {
+      const change: StateChange = { changeLogs: {} };
+      pendingChangeRef.current = change;
+      queueMicrotask(() => {
+        if (pendingChangeRef.current === change) pendingChangeRef.current = null;
+      });
+    }
+    return pendingChangeRef.current;
+  }, []);
+
+  // 続けて行う状態変更を、指定した名前の操作として履歴に記録する
+  const recordCommand = useCallback((label: string, coalesceKey?: string) => {
+    getPendingChange().command = { label, coalesceKey };
+  }, [getPendingChange]);
+
+  // 続けて行う状態変更でのアイテムの追加・削除・変更を、変更履歴に記録する
+  const recordChangeLog = useCallback((eventName: string, kind: ChangeLogKind, options: ChangeLogOptions = {}) => {
+    getPendingChange().changeLogs[eventName] = {
+      ...options,
+      kind,
+      before: appData.eventLists[eventName] || [],
+      beforeExecute: appData.executeModeItems[eventName] || {},
+    };
+  }, [appData, getPendingChange]);
+
+  const saveChangeLogs = useCallback((
+    pending: Record<string, PendingChangeLog>,
+    lists: Record<string, ShoppingItem[]>,
+    execute: Record<string, ExecuteModeItems>
+  ) => {
+    const handleError = (error: unknown) => {
+      console.error("Failed to save change log to IndexedDB", error);
+      setStorageError({ message: getStorageErrorMessage(error), canRetry: false });
+    };
+    Object.entries(pending).forEach(([eventName, { kind, source, label, coalesceKey, reorderIds, before, beforeExecute }]) => {
+      const after = lists[eventName];
+      if (!after) return;
+      const last = lastEditLogRef.current;
+      const now = Date.now();
+      const isCoalesced = !!coalesceKey && !!last && last.eventName === eventName && last.coalesceKey === coalesceKey && now - last.time < COALESCE_INTERVAL_MS;
+      // まとめる場合は、最初の編集の前からの差分にする
+      const diff = diffItemLists(isCoalesced ? last!.before : before, after);
+      if (reorderIds) {
+        const afterExecute = execute[eventName] || {};
+        const dates = Array.from(new Set([...Object.keys(beforeExecute), ...Object.keys(afterExecute)]));
+        const afterMap = new Map(after.map(item => [item.id, item]));
+        const reordered = findReorderedIds(
+          reorderIds,
+          [before.map(item => item.id), ...dates.map(date => beforeExecute[date] || [])],
+          [after.map(item => item.id), ...dates.map(date => afterExecute[date] || [])]
+        ).map(id => afterMap.get(id)).filter((item): item is ShoppingItem => !!item);
+        if (reordered.length > 0) diff.reordered = reordered.map(toSheetValues);
       }
-      if (storedDayModes) {
-        setDayModes(JSON.parse(storedDayModes));
+      const entry = { eventName, kind, createdAt: new Date().toISOString(), ...(source ? { source } : {}), ...(label ? { label } : {}), ...diff };
+
+      if (isCoalesced) {
+        last!.time = now;
+        // 元の値に戻した場合は、記録した変更履歴を削除する
+        last!.id = last!.id.then(id => {
+          if (id === null) return hasChanges(diff) ? addChangeLogEntry(entry) : null;
+          return replaceChangeLogEntry(id, hasChanges(diff) ? entry : null).then(() => (hasChanges(diff) ? id : null));
+        });
+        last!.id.catch(handleError);
+        return;
       }
-    } catch (error) {
-      console.error("Failed to load data from localStorage", error);
-    }
-    setIsInitialized(true);
+      if (!hasChanges(diff)) return;
+      const id = addChangeLogEntry(entry);
+      id.catch(handleError);
+      lastEditLogRef.current = coalesceKey
+        ? { eventName, coalesceKey, before, time: now, id: id.catch(() => null) }
+        : null;
+    });
   }, []);
 
   useEffect(() => {
-    if (isInitialized) {
-      try {
-        localStorage.setItem('eventShoppingLists', JSON.stringify(eventLists));
-        localStorage.setItem('eventMetadata', JSON.stringify(eventMetadata));
-        localStorage.setItem('executeModeItems', JSON.stringify(executeModeItems));
-        localStorage.setItem('dayModes', JSON.stringify(dayModes));
-      } catch (error) {
-        console.error("Failed to save data to localStorage", error);
+    // この状態にした操作（一度だけ使うため、取り出したら結び付けを外す）
+    const stateChanges = stateChangesRef.current;
+    const change = stateChanges.get(eventLists) ?? stateChanges.get(executeModeItems);
+    stateChanges.delete(eventLists);
+    stateChanges.delete(executeModeItems);
+    if (change) saveChangeLogs(change.changeLogs, eventLists, executeModeItems);
+
+    if (!isInitialized) return;
+    const base = historyBaseRef.current;
+    historyBaseRef.current = { eventLists, executeModeItems };
+    const command = change?.command;
+    if (!base || !command || change.isHistoryStep) return;
+
+    const changes: Record<string, EventHistory> = {};
+    Object.keys(eventLists).forEach(eventName => {
+      // 新規作成されたイベントは履歴の対象外
+      if (!base.eventLists[eventName]) return;
+      if (base.eventLists[eventName] === eventLists[eventName] && base.executeModeItems[eventName] === executeModeItems[eventName]) return;
+      const entry = createHistoryEntry(
+        { items: base.eventLists[eventName], executeModeItems: base.executeModeItems[eventName] || {} },
+        { items: eventLists[eventName], executeModeItems: executeModeItems[eventName] || {} },
+        command.label,
+        command.coalesceKey
+      );
+      if (entry) {
+        changes[eventName] = pushHistoryEntry(historiesRef.current[eventName] || createEmptyHistory(), entry);
       }
+    });
+    if (Object.keys(changes).length > 0) {
+      updateHistories(changes);
+      // 通知中の操作の履歴なら元に戻す対象として覚え、別の操作の履歴なら通知を閉じる
+      setUndoToast(prev => {
+        const history = prev && changes[prev.eventName];
+        if (!prev || !history) return prev;
+        return prev.change === change ? { ...prev, entryId: history.undo[history.undo.length - 1].id } : null;
+      });
     }
-  }, [eventLists, eventMetadata, executeModeItems, dayModes, isInitialized]);
+  }, [eventLists, executeModeItems, isInitialized, updateHistories, saveChangeLogs]);
+
+  const handleHistoryStep = useCallback((eventName: string, direction: 'undo' | 'redo') => {
+    const history = historiesRef.current[eventName];
+    const stack = direction === 'undo' ? history?.undo : history?.redo;
+    if (!history || !stack || stack.length === 0 || !eventLists[eventName]) return;
+
+    const entry = stack[stack.length - 1];
+    const nextState = applyHistoryEntry(
+      { items: eventLists[eventName], executeModeItems: executeModeItems[eventName] || {} },
+      entry,
+      direction
+    );
+    getPendingChange().isHistoryStep = true;
+    setEventLists(prev => ({ ...prev, [eventName]: nextState.items }));
+    setExecuteModeItems(prev => ({ ...prev, [eventName]: nextState.executeModeItems }));
+    updateHistories({
+      [eventName]: direction === 'undo'
+        ? { undo: history.undo.slice(0, -1), redo: [...history.redo, entry] }
+        : { undo: [...history.undo, entry], redo: history.redo.slice(0, -1) },
+    });
+    setSelectedItemIds(new Set());
+  }, [eventLists, executeModeItems, updateHistories, getPendingChange]);
+
+  const handleUndo = useCallback((eventName: string) => handleHistoryStep(eventName, 'undo'), [handleHistoryStep]);
+  const handleRedo = useCallback((eventName: string) => handleHistoryStep(eventName, 'redo'), [handleHistoryStep]);
+
+  // 記録待ちの操作と同じハンドラーの中で呼び、その操作を元に戻せるようにする
+  const showUndoToast = useCallback((message: string, eventName: string) => {
+    setUndoToast({ message, eventName, change: pendingChangeRef.current });
+  }, []);
+
+  const handleCloseUndoToast = useCallback(() => setUndoToast(null), []);
+
+  // 通知した操作の後に別の操作をした場合や、操作で履歴が記録されなかった場合は元に戻さない
+  const handleUndoFromToast = useCallback(() => {
+    if (!undoToast?.entryId) return;
+    const undo = historiesRef.current[undoToast.eventName]?.undo || [];
+    if (undo[undo.length - 1]?.id === undoToast.entryId) handleUndo(undoToast.eventName);
+  }, [undoToast, handleUndo]);
 
   const items = useMemo(() => activeEventName ? eventLists[activeEventName] || [] : [], [activeEventName, eventLists]);
+  const activeHistory = activeEventName ? histories[activeEventName] : undefined;
   
   // 現在のイベントの参加日リストを取得
   const eventDates = useMemo(() => extractEventDates(items), [items]);
@@ -130,14 +480,21 @@ const App: React.FC = () => {
     return 'edit';
   }, [activeEventName, dayModes, activeTab, eventDates]);
 
-  const handleBulkAdd = useCallback((eventName: string, newItemsData: Omit<ShoppingItem, 'id' | 'purchaseStatus'>[], metadata?: { url?: string; sheetName?: string, layoutInfo?: Array<{ itemKey: string, eventDate: string, columnType: 'execute' | 'candidate', order: number }> }) => {
+  const handleBulkAdd = useCallback((eventName: string, newItemsData: Omit<ShoppingItem, 'id' | 'purchaseStatus'>[], metadata?: { source?: ImportSource, columnMapping?: ColumnMappingProfile, catalogImport?: CatalogImportOptions, layoutInfo?: Array<{ itemKey: string, eventDate: string, columnType: 'execute' | 'candidate', order: number }> }) => {
     const newItems: ShoppingItem[] = newItemsData.map(itemData => ({
         id: crypto.randomUUID(),
         ...itemData,
         purchaseStatus: 'None' as PurchaseStatus,
+        // スプレッドシート・CSV・Webカタログから取り込んだ場合は、次回の更新時の基準として値を残す
+        ...(metadata?.source ? { sheetBase: toSheetValues(itemData) } : {}),
     }));
 
     const isNewEvent = !eventLists[eventName];
+    if (!isNewEvent) {
+      takeSnapshot(eventName, 'import');
+      recordCommand('アイテムの追加');
+    }
+    recordChangeLog(eventName, 'import', { source: toChangeLogSource(metadata?.source) });
 
     // 配置情報がある場合は、それに基づいてアイテムを配置
     if (metadata?.layoutInfo && metadata.layoutInfo.length > 0 && isNewEvent) {
@@ -216,14 +573,17 @@ const App: React.FC = () => {
       });
     }
 
-    // メタデータの保存
-    if (metadata?.url) {
+    // メタデータの保存（既存のリストにファイルから追加した場合は、元の取り込み元を残す）
+    if (metadata?.source && (isNewEvent || isUrlImportSource(metadata.source))) {
+      const source = metadata.source;
       setEventMetadata(prev => ({
         ...prev,
         [eventName]: {
-          spreadsheetUrl: metadata.url!,
-          spreadsheetSheetName: metadata.sheetName || '',
-          lastImportDate: new Date().toISOString()
+          source,
+          lastImportDate: new Date().toISOString(),
+          ...(metadata.columnMapping ? { columnMapping: metadata.columnMapping } : {}),
+          ...(metadata.catalogImport ? { catalogImport: metadata.catalogImport } : {}),
+          ...(prev[eventName]?.startTimes ? { startTimes: prev[eventName].startTimes } : {}),
         }
       }));
     }
@@ -272,18 +632,44 @@ const App: React.FC = () => {
             }
         }
     }
-  }, [eventLists]);
+  }, [eventLists, recordCommand, takeSnapshot, recordChangeLog]);
 
   const handleUpdateItem = useCallback((updatedItem: ShoppingItem) => {
     if (!activeEventName) return;
+    const eventItems = eventLists[activeEventName] || [];
+    const currentItem = eventItems.find(item => item.id === updatedItem.id);
+    const isStatusChange = !!currentItem && currentItem.purchaseStatus !== updatedItem.purchaseStatus;
+    if (isStatusChange) {
+      recordCommand('購入状態の変更');
+      recordChangeLog(activeEventName, 'edit', { label: '購入状態の変更', coalesceKey: `status:${updatedItem.id}` });
+    } else {
+      recordCommand('アイテムの編集', `edit:${updatedItem.id}`);
+      recordChangeLog(activeEventName, 'edit', { label: 'アイテムの編集', coalesceKey: `edit:${updatedItem.id}` });
+    }
     setEventLists(prev => ({
       ...prev,
       [activeEventName]: prev[activeEventName].map(item => (item.id === updatedItem.id ? updatedItem : item))
     }));
-  }, [activeEventName]);
+
+    // 自動で組み直す設定なら、状態を変えたアイテムのある実行列の後回し・遅参を入れ直す（同じ操作として元に戻せる）
+    const dayIds = executeModeItems[activeEventName]?.[updatedItem.eventDate] || [];
+    if (isStatusChange && appSettings.autoReplanRoute && dayIds.includes(updatedItem.id)) {
+      const itemsMap = new Map(eventItems.map(item => [item.id, item.id === updatedItem.id ? updatedItem : item]));
+      const columnItems = dayIds.map(id => itemsMap.get(id)).filter(Boolean) as ShoppingItem[];
+      const layout = venueLayouts[activeEventName] || createVenueLayoutTemplate(activeEventName, eventItems);
+      const order = replanPostponedItems(columnItems, layout);
+      if (order && order.some((id, index) => id !== columnItems[index].id)) {
+        setExecuteModeItems(prev => ({
+          ...prev,
+          [activeEventName]: { ...(prev[activeEventName] || {}), [updatedItem.eventDate]: order }
+        }));
+      }
+    }
+  }, [activeEventName, eventLists, executeModeItems, venueLayouts, appSettings, recordCommand, recordChangeLog]);
 
   const handleMoveItem = useCallback((dragId: string, hoverId: string, targetColumn?: 'execute' | 'candidate') => {
     if (!activeEventName) return;
+    recordCommand('並び替え');
     setSortState('Manual');
     setBlockSortDirection(null);
     
@@ -419,10 +805,12 @@ const App: React.FC = () => {
         }
       });
     }
-  }, [activeEventName, selectedItemIds, activeTab, dayModes, executeModeItems, eventDates]);
+  }, [activeEventName, selectedItemIds, activeTab, dayModes, executeModeItems, eventDates, recordCommand]);
 
   const handleMoveToExecuteColumn = useCallback((itemIds: string[]) => {
     if (!activeEventName) return;
+    recordCommand('実行列へ移動');
+    recordChangeLog(activeEventName, 'edit', { label: '実行列へ移動', reorderIds: new Set(itemIds) });
     
     const currentEventDate = eventDates.includes(activeTab) ? activeTab : (eventDates[0] || '');
     
@@ -443,10 +831,13 @@ const App: React.FC = () => {
     });
     
     setSelectedItemIds(new Set());
-  }, [activeEventName, activeTab, eventDates]);
+  }, [activeEventName, activeTab, eventDates, recordCommand, recordChangeLog]);
 
   const handleRemoveFromExecuteColumn = useCallback((itemIds: string[]) => {
     if (!activeEventName) return;
+    recordCommand('候補リストへ移動');
+    recordChangeLog(activeEventName, 'edit', { label: '候補リストへ移動', reorderIds: new Set(itemIds) });
+    showUndoToast(`${itemIds.length}件のアイテムを候補リストへ移動しました`, activeEventName);
     
     const currentEventDate = eventDates.includes(activeTab) ? activeTab : (eventDates[0] || '');
     
@@ -464,7 +855,7 @@ const App: React.FC = () => {
     });
     
     setSelectedItemIds(new Set());
-  }, [activeEventName, activeTab, eventDates]);
+  }, [activeEventName, activeTab, eventDates, recordCommand, recordChangeLog, showUndoToast]);
 
   const handleToggleMode = useCallback(() => {
     if (!activeEventName) return;
@@ -499,6 +890,7 @@ const App: React.FC = () => {
   }, [eventLists]);
 
   const handleDeleteEvent = useCallback((eventName: string) => {
+    takeSnapshot(eventName, 'delete');
     setEventLists(prev => {
         const newLists = {...prev};
         delete newLists[eventName];
@@ -519,11 +911,17 @@ const App: React.FC = () => {
         delete newModes[eventName];
         return newModes;
     });
+    setVenueLayouts(prev => {
+        const newLayouts = {...prev};
+        delete newLayouts[eventName];
+        return newLayouts;
+    });
+    updateHistories({ [eventName]: null });
     if (activeEventName === eventName) {
         setActiveEventName(null);
         setActiveTab('eventList');
     }
-  }, [activeEventName]);
+  }, [activeEventName, updateHistories, takeSnapshot]);
 
   const handleRenameEvent = useCallback((oldName: string) => {
     setEventToRename(oldName);
@@ -544,6 +942,16 @@ const App: React.FC = () => {
       return;
     }
 
+    // 変更前の状態を保存し、これまでのスナップショットごと新しい名前に付け替える
+    const oldName = eventToRename;
+    takeSnapshot(oldName, 'rename')
+      .then(() => Promise.all([renameEventSnapshots(oldName, newName), renameChangeLog(oldName, newName)]))
+      .catch(error => {
+        console.error("Failed to rename snapshots in IndexedDB", error);
+        setStorageError({ message: getStorageErrorMessage(error), canRetry: false });
+      });
+    setSnapshotEventNames(prev => Array.from(new Set(prev.map(name => (name === oldName ? newName : name)))));
+
     setEventLists(prev => {
       const newLists = { ...prev };
       if (newLists[eventToRename]) {
@@ -580,13 +988,263 @@ const App: React.FC = () => {
       return newItems;
     });
 
+    setVenueLayouts(prev => {
+      const newLayouts = { ...prev };
+      if (newLayouts[eventToRename]) {
+        newLayouts[newName] = newLayouts[eventToRename];
+        delete newLayouts[eventToRename];
+      }
+      return newLayouts;
+    });
+
+    // 操作履歴も新しい名前に引き継ぐ
+    const history = historiesRef.current[eventToRename];
+    if (history) {
+      updateHistories({ [newName]: history, [eventToRename]: null });
+    }
+
     if (activeEventName === eventToRename) {
       setActiveEventName(newName);
     }
 
     setShowRenameDialog(false);
     setEventToRename(null);
-  }, [eventToRename, eventLists, activeEventName]);
+  }, [eventToRename, eventLists, activeEventName, updateHistories, takeSnapshot]);
+
+  const handleShowSnapshots = useCallback((eventName: string) => {
+    setSnapshotBrowser({ eventName, snapshots: null });
+    loadEventSnapshots(eventName)
+      .then(snapshots => {
+        setSnapshotBrowser(prev => (prev?.eventName === eventName ? { eventName, snapshots } : prev));
+      })
+      .catch(error => {
+        console.error("Failed to load snapshots from IndexedDB", error);
+        setStorageError({ message: getStorageErrorMessage(error), canRetry: false });
+        setSnapshotBrowser(null);
+      });
+  }, []);
+
+  const handleRestoreSnapshot = useCallback((snapshot: EventSnapshot) => {
+    const exists = !!eventLists[snapshot.eventName];
+    takeSnapshot(snapshot.eventName, 'restore');
+    recordCommand('スナップショットから復元');
+    recordChangeLog(snapshot.eventName, 'restore');
+    applyAppData(applyEventSnapshot(appData, snapshot));
+    setSelectedItemIds(new Set());
+    setSnapshotBrowser(null);
+    if (exists) {
+      showUndoToast('スナップショットから復元しました。', snapshot.eventName);
+    } else {
+      alert(`「${snapshot.eventName}」を復元しました。`);
+    }
+  }, [eventLists, appData, takeSnapshot, recordCommand, recordChangeLog, applyAppData, showUndoToast]);
+
+  const handleDeleteSnapshot = useCallback((snapshot: EventSnapshot) => {
+    deleteEventSnapshot(snapshot.id)
+      .then(() => {
+        const remaining = (snapshotBrowser?.snapshots || []).filter(s => s.id !== snapshot.id);
+        setSnapshotBrowser(prev => (prev?.eventName === snapshot.eventName && prev.snapshots
+          ? { ...prev, snapshots: prev.snapshots.filter(s => s.id !== snapshot.id) }
+          : prev));
+        // 最後の1件を削除した場合は、削除済みの即売会の一覧からも外す
+        if (remaining.length === 0) {
+          setSnapshotEventNames(names => names.filter(name => name !== snapshot.eventName));
+        }
+      })
+      .catch(error => {
+        console.error("Failed to delete snapshot from IndexedDB", error);
+        setStorageError({ message: getStorageErrorMessage(error), canRetry: false });
+      });
+  }, [snapshotBrowser]);
+
+  // 全データのバックアップ
+  const handleBackup = useCallback(() => {
+    const json = JSON.stringify(createBackup(appData), null, 2);
+    const blob = new Blob([json], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', `junkai-backup-${new Date().toISOString().slice(0, 10)}.json`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }, [appData]);
+
+  const handleRestoreBackupFile = useCallback(async (file: File) => {
+    let parsed: ParsedBackup;
+    try {
+      parsed = parseBackup(await file.text());
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'バックアップファイルを読み込めませんでした。');
+      return;
+    }
+    if (Object.keys(parsed.data.eventLists).length === 0) {
+      alert('バックアップに復元できる即売会リストがありません。');
+      return;
+    }
+    setBackupToRestore(parsed);
+  }, []);
+
+  // 受け取ったファイルを取り込む（JSONはバックアップからの復元、それ以外は新規リストとしてインポート）
+  const handleIncomingFiles = useCallback((files: File[]) => {
+    const [file] = files;
+    if (!file) return;
+    if (files.length > 1) {
+      alert(`ファイルは1つずつ取り込みます。「${file.name}」を取り込みます。`);
+    }
+    if (!isImportableFile(file)) {
+      alert(`「${file.name}」は取り込めない形式です。CSV・TSV・Excel（.xlsx）のファイルか、バックアップのJSONファイルを選んでください。`);
+      return;
+    }
+    if (isBackupFile(file)) {
+      handleRestoreBackupFile(file);
+      return;
+    }
+    setActiveEventName(null);
+    setItemToEdit(null);
+    setSelectedItemIds(new Set());
+    setSelectedBlockFilters(new Set());
+    setActiveTab('import');
+    setIncomingFile(file);
+  }, [handleRestoreBackupFile]);
+
+  // 起動時に一度だけ登録するため、最新の処理を参照する
+  const handleIncomingFilesRef = useRef(handleIncomingFiles);
+  handleIncomingFilesRef.current = handleIncomingFiles;
+
+  // 「このアプリで開く」・共有で起動された場合は、受け取ったファイルを取り込む
+  useEffect(() => {
+    if (!isInitialized) return;
+    consumeLaunchFiles(
+      files => handleIncomingFilesRef.current(files),
+      error => {
+        console.error('Launch file error:', error);
+        alert(`開いたファイルを読み込めませんでした。${error instanceof Error ? error.message : ''}`);
+      }
+    );
+    takeSharedFiles().then(files => {
+      if (files === null) return;
+      if (files.length === 0) {
+        alert('共有されたファイルを受け取れませんでした。もう一度共有してください。');
+        return;
+      }
+      handleIncomingFilesRef.current(files);
+    });
+  }, [isInitialized]);
+
+  // 即売会リスト画面・新規リスト作成画面では、画面のどこにファイルをドロップしても取り込む
+  const acceptsFileDrop = activeTab === 'eventList' || (activeTab === 'import' && !activeEventName && !itemToEdit);
+  useEffect(() => {
+    if (!acceptsFileDrop) return;
+    const handleDragOver = (e: DragEvent) => {
+      if (!hasDraggedFiles(e.dataTransfer)) return;
+      e.preventDefault();
+      setIsDraggingFile(true);
+    };
+    // ウィンドウの外に出た場合のみ表示を消す（画面内の要素間の移動では relatedTarget がある）
+    const handleDragLeave = (e: DragEvent) => {
+      if (!e.relatedTarget) setIsDraggingFile(false);
+    };
+    const handleDrop = (e: DragEvent) => {
+      setIsDraggingFile(false);
+      if (!hasDraggedFiles(e.dataTransfer)) return;
+      e.preventDefault();
+      handleIncomingFiles(Array.from(e.dataTransfer?.files || []));
+    };
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('drop', handleDrop);
+      setIsDraggingFile(false);
+    };
+  }, [acceptsFileDrop, handleIncomingFiles]);
+
+  const handleReplaceFromBackup = useCallback(() => {
+    if (!backupToRestore) return;
+    // 置き換え前の状態を残し、中身が変わるイベントの操作履歴は破棄する
+    Object.keys(eventLists).forEach(name => takeSnapshot(name, 'restore'));
+    updateHistories(Object.fromEntries(Object.keys(historiesRef.current).map(name => [name, null])));
+    Object.keys(backupToRestore.data.eventLists).forEach(name => recordChangeLog(name, 'restore'));
+    applyAppData(backupToRestore.data);
+    setActiveEventName(null);
+    setActiveTab('eventList');
+    setSelectedItemIds(new Set());
+    setBackupToRestore(null);
+    alert(`${Object.keys(backupToRestore.data.eventLists).length}件の即売会リストを復元しました。`);
+  }, [backupToRestore, eventLists, takeSnapshot, updateHistories, recordChangeLog, applyAppData]);
+
+  const handleMergeFromBackup = useCallback((imports: BackupEventImport[]) => {
+    if (!backupToRestore) return;
+    const overwritten = imports.filter(({ targetName }) => eventLists[targetName]).map(({ targetName }) => targetName);
+    overwritten.forEach(name => takeSnapshot(name, 'restore'));
+    if (overwritten.length > 0) {
+      updateHistories(Object.fromEntries(overwritten.map(name => [name, null])));
+    }
+    imports.forEach(({ targetName }) => recordChangeLog(targetName, 'restore'));
+    applyAppData(mergeBackupEvents(appData, backupToRestore.data, imports));
+    setSelectedItemIds(new Set());
+    setBackupToRestore(null);
+    alert(`${imports.length}件の即売会リストを復元しました。`);
+  }, [backupToRestore, eventLists, appData, takeSnapshot, updateHistories, recordChangeLog, applyAppData]);
+
+  // 会場図の保存（null の場合は削除）
+  const handleSaveVenueLayout = useCallback((eventName: string, layout: VenueLayout | null) => {
+    setVenueLayouts(prev => {
+      const newLayouts = { ...prev };
+      if (layout) {
+        newLayouts[eventName] = layout;
+      } else {
+        delete newLayouts[eventName];
+      }
+      return newLayouts;
+    });
+    setVenueLayoutEventName(null);
+  }, []);
+
+  // 会場図をJSONファイルとして書き出す（他の端末・他のリストで読み込める）
+  const handleExportVenueLayout = useCallback((eventName: string, layout: VenueLayout) => {
+    const json = JSON.stringify(createVenueLayoutFile(layout), null, 2);
+    const blob = new Blob([json], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', `${eventName}_会場図.json`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }, []);
+
+  const handleShowChangeLog = useCallback((eventName: string) => {
+    setChangeLogViewer({ eventName, entries: null });
+    loadChangeLog(eventName)
+      .then(entries => {
+        setChangeLogViewer(prev => (prev?.eventName === eventName ? { eventName, entries } : prev));
+      })
+      .catch(error => {
+        console.error("Failed to load change log from IndexedDB", error);
+        setStorageError({ message: getStorageErrorMessage(error), canRetry: false });
+        setChangeLogViewer(null);
+      });
+  }, []);
+
+  const handleExportChangeLog = useCallback(() => {
+    if (!changeLogViewer?.entries) return;
+    const bom = new Uint8Array([0xEF, 0xBB, 0xBF]);
+    const blob = new Blob([bom, changeLogToCsv(changeLogViewer.entries)], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', `${changeLogViewer.eventName}_変更履歴.csv`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }, [changeLogViewer]);
 
   const handleSortToggle = () => {
     setSelectedItemIds(new Set());
@@ -601,6 +1259,11 @@ const App: React.FC = () => {
 
     const nextDirection = blockSortDirection === 'asc' ? 'desc' : 'asc';
     const currentEventDate = eventDates.includes(activeTab) ? activeTab : (eventDates[0] || '');
+    recordCommand('ブロック順に並び替え');
+    recordChangeLog(activeEventName, 'edit', {
+      label: 'ブロック順に並び替え',
+      reorderIds: new Set(items.filter(item => item.eventDate === currentEventDate).map(item => item.id)),
+    });
 
     setEventLists(prev => {
       const allItems = [...(prev[activeEventName] || [])];
@@ -638,6 +1301,12 @@ const App: React.FC = () => {
 
     const nextDirection = blockSortDirection === 'asc' ? 'desc' : 'asc';
     const currentEventDate = eventDates.includes(activeTab) ? activeTab : (eventDates[0] || '');
+    const candidateExecuteIds = new Set(executeModeItems[activeEventName]?.[currentEventDate] || []);
+    recordCommand('ブロック順に並び替え');
+    recordChangeLog(activeEventName, 'edit', {
+      label: 'ブロック順に並び替え',
+      reorderIds: new Set(items.filter(item => item.eventDate === currentEventDate && !candidateExecuteIds.has(item.id)).map(item => item.id)),
+    });
 
     setEventLists(prev => {
       const allItems = [...(prev[activeEventName] || [])];
@@ -696,6 +1365,9 @@ const App: React.FC = () => {
     if (!itemToDelete || !activeEventName) return;
     
     const deletedId = itemToDelete.id;
+    recordCommand('アイテムの削除');
+    recordChangeLog(activeEventName, 'edit', { label: 'アイテムの削除' });
+    showUndoToast(`「${itemToDelete.circle}」を削除しました`, activeEventName);
     
     setEventLists(prev => ({
       ...prev,
@@ -770,6 +1442,15 @@ const App: React.FC = () => {
     
     const nextDirection = candidateNumberSortDirection === 'asc' ? 'desc' : 'asc';
     const currentEventDate = eventDates.includes(activeTab) ? activeTab : (eventDates[0] || '');
+    const candidateExecuteIds = new Set(executeModeItems[activeEventName]?.[currentEventDate] || []);
+    recordCommand('ナンバー順に並び替え');
+    recordChangeLog(activeEventName, 'edit', {
+      label: 'ナンバー順に並び替え',
+      reorderIds: new Set(items
+        .filter(item => item.eventDate === currentEventDate && !candidateExecuteIds.has(item.id))
+        .filter(item => selectedBlockFilters.size === 0 || selectedBlockFilters.has(item.block))
+        .map(item => item.id)),
+    });
     
     setEventLists(prev => {
       const allItems = [...(prev[activeEventName] || [])];
@@ -842,7 +1523,7 @@ const App: React.FC = () => {
 
     setCandidateNumberSortDirection(nextDirection);
     setSelectedItemIds(new Set());
-  }, [activeEventName, activeTab, executeModeItems, selectedBlockFilters, candidateNumberSortDirection, eventDates]);
+  }, [activeEventName, activeTab, items, executeModeItems, selectedBlockFilters, candidateNumberSortDirection, eventDates, recordCommand, recordChangeLog]);
 
   const handleClearSelection = useCallback(() => {
     setSelectedItemIds(new Set());
@@ -850,6 +1531,8 @@ const App: React.FC = () => {
 
   const handleBulkSort = useCallback((direction: BulkSortDirection) => {
     if (!activeEventName || selectedItemIds.size === 0) return;
+    recordCommand('ナンバー順に並び替え');
+    recordChangeLog(activeEventName, 'edit', { label: 'ナンバー順に並び替え', reorderIds: new Set(selectedItemIds) });
     setSortState('Manual');
     setBlockSortDirection(null);
     const currentEventDate = eventDates.includes(activeTab) ? activeTab : (eventDates[0] || '');
@@ -953,49 +1636,32 @@ const App: React.FC = () => {
         return { ...prev, [activeEventName]: newItems };
       });
     }
-  }, [activeEventName, selectedItemIds, items, activeTab, dayModes, executeModeItems, eventDates]);
+  }, [activeEventName, selectedItemIds, items, activeTab, dayModes, executeModeItems, eventDates, recordCommand, recordChangeLog]);
 
-  const handleExportEvent = useCallback((eventName: string) => {
+  const handleExportEvent = useCallback(async (eventName: string, format: ExportFormat) => {
     const itemsToExport = eventLists[eventName];
     if (!itemsToExport || itemsToExport.length === 0) {
       alert('エクスポートするアイテムがありません。');
       return;
     }
 
-    const statusLabels: Record<PurchaseStatus, string> = {
-      None: '未購入',
-      Purchased: '購入済',
-      SoldOut: '売切',
-      Absent: '欠席',
-      Postpone: '後回し',
-      Late: '遅参',
-    };
-
-    const escapeCsvCell = (cellData: string | number) => {
-      const stringData = String(cellData);
-      if (stringData.includes(',') || stringData.includes('"') || stringData.includes('\n')) {
-        return `"${stringData.replace(/"/g, '""')}"`;
-      }
-      return stringData;
-    };
-
-    const csvRows: string[] = [];
-
-    // ヘッダー行を最初に出力
-    const headers = ['サークル名', '参加日', 'ブロック', 'ナンバー', 'タイトル', '頒布価格', '購入状態', '備考', '列の種類', '列内順番'];
-    csvRows.push(headers.join(','));
-
-    // メタデータ行: スプレッドシートURL（コメント行として最後に出力）
-    const metadata = eventMetadata[eventName];
-    if (metadata?.spreadsheetUrl) {
-      csvRows.push(`#METADATA,spreadsheetUrl,${escapeCsvCell(metadata.spreadsheetUrl)}`);
-    }
+    const toExportRow = (item: ShoppingItem, columnType: string, order: number): Array<string | number> => [
+      item.circle,
+      item.eventDate,
+      item.block,
+      item.number,
+      item.title,
+      item.price,
+      purchaseStatusLabels[item.purchaseStatus] || item.purchaseStatus,
+      item.remarks,
+      columnType,
+      order,
+    ];
 
     // 各参加日ごとに配置情報を保持してエクスポート
     const eventDatesForExport = extractEventDates(itemsToExport);
     const itemsMap = new Map(itemsToExport.map(item => [item.id, item]));
-    
-    eventDatesForExport.forEach(eventDate => {
+    const dayRows = eventDatesForExport.map(eventDate => {
       const executeIds = executeModeItems[eventName]?.[eventDate] || [];
       const executeIdsSet = new Set(executeIds);
       
@@ -1012,208 +1678,216 @@ const App: React.FC = () => {
       // 候補リストのアイテム（元の順序を保持）
       const candidateItems = dayItems.filter(item => !executeIdsSet.has(item.id));
       
-      // 実行列のアイテムをエクスポート
-      executeItems.forEach((item, index) => {
-        const row = [
-          escapeCsvCell(item.circle),
-          escapeCsvCell(item.eventDate),
-          escapeCsvCell(item.block),
-          escapeCsvCell(item.number),
-          escapeCsvCell(item.title),
-          escapeCsvCell(item.price),
-          escapeCsvCell(statusLabels[item.purchaseStatus] || item.purchaseStatus),
-          escapeCsvCell(item.remarks),
-          escapeCsvCell('実行列'),
-          escapeCsvCell(index + 1),
-        ];
-        csvRows.push(row.join(','));
-      });
-      
-      // 候補リストのアイテムをエクスポート
-      candidateItems.forEach((item, index) => {
-        const row = [
-          escapeCsvCell(item.circle),
-          escapeCsvCell(item.eventDate),
-          escapeCsvCell(item.block),
-          escapeCsvCell(item.number),
-          escapeCsvCell(item.title),
-          escapeCsvCell(item.price),
-          escapeCsvCell(statusLabels[item.purchaseStatus] || item.purchaseStatus),
-          escapeCsvCell(item.remarks),
-          escapeCsvCell('候補リスト'),
-          escapeCsvCell(index + 1),
-        ];
-        csvRows.push(row.join(','));
-      });
+      return {
+        eventDate,
+        rows: [
+          ...executeItems.map((item, index) => toExportRow(item, '実行列', index + 1)),
+          ...candidateItems.map((item, index) => toExportRow(item, '候補リスト', index + 1)),
+        ],
+      };
     });
+    const metadata = eventMetadata[eventName];
 
-    const csvString = csvRows.join('\n');
-    const bom = new Uint8Array([0xEF, 0xBB, 0xBF]);
-    const blob = new Blob([bom, csvString], { type: 'text/csv;charset=utf-8;' });
+    let blob: Blob;
+    let fileName = `${eventName}.csv`;
+    if (format === 'xlsx') {
+      // 参加日ごとに1シート。購入状態は選択肢から選べるようにする
+      const usedSheetNames = new Set<string>();
+      const sheets: XlsxSheetData[] = dayRows.map(({ eventDate, rows }) => ({
+        name: toSheetName(eventDate, usedSheetNames),
+        rows: [EXPORT_HEADERS, ...rows],
+        columnWidths: [24, 8, 8, 8, 30, 10, 10, 30, 10, 8],
+        listValidations: [{ column: 6, values: Object.values(purchaseStatusLabels) }],
+      }));
+      // メタデータ行: 取り込み元のURL・シート名（CSVと同じ形式で別シートに出力）
+      const metadataRows = toSourceMetadataRows(metadata?.source);
+      if (metadataRows.length > 0) {
+        sheets.push({ name: toSheetName('#METADATA', usedSheetNames), rows: metadataRows });
+      }
+      blob = new Blob([await createXlsx(sheets)], { type: XLSX_MIME_TYPE });
+      fileName = `${eventName}.xlsx`;
+    } else {
+      const csvRows: string[] = [];
+
+      // ヘッダー行を最初に出力
+      csvRows.push(EXPORT_HEADERS.join(','));
+
+      // メタデータ行: 取り込み元のURL・シート名（コメント行として出力）
+      toSourceMetadataRows(metadata?.source).forEach(row => csvRows.push(row.map(escapeCsvCell).join(',')));
+
+      dayRows.forEach(({ rows }) => {
+        rows.forEach(row => csvRows.push(row.map(escapeCsvCell).join(',')));
+      });
+
+      const csvString = csvRows.join('\n');
+      if (format === 'csv-shift_jis') {
+        const { bytes, unmappable } = encodeShiftJis(csvString);
+        if (unmappable.length > 0 && !window.confirm(`次の文字はShift_JISで表せないため「?」に置き換えて出力します。よろしいですか？\n${unmappable.slice(0, 20).join(' ')}${unmappable.length > 20 ? ' …' : ''}`)) {
+          return;
+        }
+        blob = new Blob([bytes], { type: 'text/csv;charset=shift_jis;' });
+      } else {
+        const bom = new Uint8Array([0xEF, 0xBB, 0xBF]);
+        blob = new Blob([bom, csvString], { type: 'text/csv;charset=utf-8;' });
+      }
+    }
+    setExportRequestEventName(null);
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.setAttribute('href', url);
-    link.setAttribute('download', `${eventName}.csv`);
+    link.setAttribute('download', fileName);
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
   }, [eventLists, executeModeItems, eventMetadata]);
 
-  // アイテム更新機能
-  const handleUpdateEvent = useCallback(async (eventName: string, urlOverride?: { url: string; sheetName: string }) => {
-    const metadata = eventMetadata[eventName];
-    let url = urlOverride?.url || metadata?.spreadsheetUrl;
-    let sheetName = urlOverride?.sheetName || metadata?.spreadsheetSheetName || '';
+  // シートの値と前回取り込んだ値を比較し、更新確認画面を表示する
+  const startSheetMerge = useCallback((eventName: string, sheetItems: ImportedItemValues[], origin: UpdateOrigin) => {
+    // 前回取り込んだシートの値を基準に3方向マージする
+    const result = mergeSheetItems(eventLists[eventName] || [], sheetItems);
+
+    setUpdateData({ ...result, ...origin });
+    setUpdateEventName(eventName);
+    setShowUpdateConfirmation(true);
+  }, [eventLists]);
+
+  // 取り込み元から読み込んだ行を、取り込み時に選んだ列の割り当てで読む
+  const startRowsUpdate = useCallback((eventName: string, rows: string[][], warnings: string[], source: ImportSource, reviewMapping = false) => {
+    // 割り当てが記録されていない場合、Googleスプレッドシートは以前のバージョンの形式（M〜R列・W列）、それ以外は見出しから推定する
+    const profile = eventMetadata[eventName]?.columnMapping;
+    const mapping = profile?.mapping ?? (source.type === 'google-sheets' ? SHEET_COLUMN_MAPPING : suggestColumnMapping(rows));
+    const sheetItems = applyColumnMapping(rows, mapping);
 
-    if (!url) {
-      alert('スプレッドシートのURLが保存されていません。');
+    // 割り当てに合う行がない場合は、シートの形式が変わった可能性があるため割り当てを確認する
+    if (reviewMapping || sheetItems.length === 0 || warnings.length > 0) {
+      setUpdateMappingRequest({ eventName, rows, warnings, initialMapping: suggestColumnMapping(rows, [mapping]), source });
       return;
     }
+    startSheetMerge(eventName, sheetItems, { source, ...(profile ? { columnMapping: profile } : {}) });
+  }, [eventMetadata, startSheetMerge]);
 
-    try {
-      const sheetIdMatch = url.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
-      if (!sheetIdMatch) {
-        throw new Error('無効なURL');
-      }
-
-      const csvUrl = `https://docs.google.com/spreadsheets/d/${sheetIdMatch[1]}/gviz/tq?tqx=out:csv${sheetName ? `&sheet=${encodeURIComponent(sheetName)}` : ''}`;
-      
-      const response = await fetch(csvUrl);
-      if (!response.ok) {
-        throw new Error('スプレッドシートの読み込みに失敗しました。');
+  // アイテム更新機能
+  const handleUpdateEvent = useCallback(async (eventName: string, override?: { source: UrlImportSource; reviewMapping: boolean }) => {
+    const metadata = eventMetadata[eventName];
+    const source = override?.source ?? metadata?.source;
+    if (!isUrlImportSource(source)) {
+      // ファイルから取り込んだリストは、同じ形式のファイル（書き出し直したお気に入りCSVなど）を選んで更新する
+      // （以前のバージョンで取り込んだお気に入りCSVはファイル名が記録されていない）
+      if (source?.fileName || metadata?.catalogImport) {
+        setFileUpdateEventName(eventName);
+        updateFileInputRef.current?.click();
+      } else {
+        setUrlUpdateRequest({ eventName });
       }
+      return;
+    }
 
-      const text = await response.text();
-      const lines = text.split('\n').filter(line => line.trim() !== '');
-      
-      const sheetItems: Omit<ShoppingItem, 'id' | 'purchaseStatus'>[] = [];
-      
-      for (let i = 1; i < lines.length; i++) {
-        const line = lines[i];
-        const cells: string[] = [];
-        let currentCell = '';
-        let insideQuotes = false;
-
-        for (let j = 0; j < line.length; j++) {
-          const char = line[j];
-          
-          if (char === '"') {
-            if (insideQuotes && line[j + 1] === '"') {
-              currentCell += '"';
-              j++;
-            } else {
-              insideQuotes = !insideQuotes;
-            }
-          } else if (char === ',' && !insideQuotes) {
-            cells.push(currentCell);
-            currentCell = '';
-          } else {
-            currentCell += char;
-          }
-        }
-        cells.push(currentCell);
+    try {
+      const parsed = await fetchSourceCsv(source);
+      startRowsUpdate(eventName, toCellRows(parsed), parsed.errors.map(error => error.message), source, override?.reviewMapping);
+    } catch (error) {
+      console.error('Update error:', error);
+      setUrlUpdateRequest({ eventName, errorMessage: error instanceof Error ? error.message : undefined });
+    }
+  }, [eventMetadata, startRowsUpdate]);
 
-        // M列(12), N列(13), O列(14), P列(15)が全て入力されている行のみをインポート
-        const circle = cells[12]?.trim() || ''; // M列 (0-indexed: 12)
-        const eventDate = cells[13]?.trim() || ''; // N列 (0-indexed: 13)
-        const block = cells[14]?.trim() || ''; // O列 (0-indexed: 14)
-        const number = cells[15]?.trim() || ''; // P列 (0-indexed: 15)
-        
-        if (!circle || !eventDate || !block || !number) {
-          continue;
-        }
+  const handleUpdateFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    const eventName = fileUpdateEventName;
+    if (!file || !eventName) return;
+    setUrlUpdateRequest(null);
 
-        const title = cells[16]?.trim() || ''; // Q列 (0-indexed: 16)
-        const price = parseInt((cells[17] || '0').replace(/[^0-9]/g, ''), 10) || 0; // R列 (0-indexed: 17)
-        const remarks = cells[22]?.trim() || ''; // W列 (0-indexed: 22)
-
-        sheetItems.push({
-          circle,
-          eventDate,
-          block,
-          number,
-          title,
-          price,
-          remarks
-        });
+    try {
+      if (/\.xlsx$/i.test(file.name)) {
+        const sheets = await readXlsx(new Uint8Array(await file.arrayBuffer()));
+        // このアプリで出力したブックは全シートを、それ以外は前回と同じ名前のシート（なければ「品目表」、先頭のシート）を読む
+        const combined = combineExportedSheets(sheets);
+        const previous = eventMetadata[eventName]?.source;
+        const sheetName = previous?.type === 'file' ? previous.sheetName : undefined;
+        const sheet = sheets.find(s => s.name === sheetName) || sheets.find(s => s.name === '品目表') || sheets[0];
+        if (!combined && !sheet) throw new Error('シートがありません。');
+        const rows = (combined ? combined.rows : sheet.rows).filter(cells => !cells[0]?.startsWith('#METADATA'));
+        startRowsUpdate(eventName, rows, [], { type: 'file', fileName: file.name, ...(combined ? {} : { sheetName: sheet.name }) });
+        return;
       }
 
-      const currentItems = eventLists[eventName] || [];
-      
-      // サークル名・参加日・ブロック・ナンバー・タイトルで照合するキーでマップを作成
-      const currentItemsMapWithAll = new Map(currentItems.map(item => [getItemKey(item), item]));
-      
-      // サークル名・参加日・ブロック・ナンバーで照合するキーでマップを作成（タイトル変更検出用）
-      const sheetItemsMapWithoutTitle = new Map(sheetItems.map(item => [getItemKeyWithoutTitle(item), item]));
-      const currentItemsMapWithoutTitle = new Map(currentItems.map(item => [getItemKeyWithoutTitle(item), item]));
-
-      const itemsToDelete: ShoppingItem[] = [];
-      const itemsToUpdate: ShoppingItem[] = [];
-      const itemsToAdd: Omit<ShoppingItem, 'id' | 'purchaseStatus'>[] = [];
-
-      // 削除対象: スプレッドシートにないアイテム（サークル名・参加日・ブロック・ナンバーで照合）
-      currentItems.forEach(item => {
-        const keyWithoutTitle = getItemKeyWithoutTitle(item);
-        if (!sheetItemsMapWithoutTitle.has(keyWithoutTitle)) {
-          itemsToDelete.push(item);
-        }
-      });
-
-      // 更新・追加対象の処理
-      sheetItems.forEach(sheetItem => {
-        const keyWithAll = getItemKey(sheetItem);
-        const keyWithoutTitle = getItemKeyWithoutTitle(sheetItem);
-        
-        // 完全一致（サークル名・参加日・ブロック・ナンバー・タイトル）で既存アイテムを検索
-        const existingWithAll = currentItemsMapWithAll.get(keyWithAll);
-        if (existingWithAll) {
-          // 完全一致した場合、価格や備考が変わっていれば更新
-          if (
-            existingWithAll.price !== sheetItem.price ||
-            existingWithAll.remarks !== sheetItem.remarks
-          ) {
-            itemsToUpdate.push({
-              ...existingWithAll,
-              price: sheetItem.price,
-              remarks: sheetItem.remarks
-            });
-          }
-          return;
-        }
-        
-        // タイトルなしで既存アイテムを検索（タイトルが変更された場合）
-        const existingWithoutTitle = currentItemsMapWithoutTitle.get(keyWithoutTitle);
-        if (existingWithoutTitle) {
-          // タイトルや価格、備考が変わっていれば更新
-          itemsToUpdate.push({
-            ...existingWithoutTitle,
-            title: sheetItem.title,
-            price: sheetItem.price,
-            remarks: sheetItem.remarks
-          });
-          return;
-        }
-        
-        // 新規追加（候補リストに追加）
-        itemsToAdd.push(sheetItem);
-      });
-
-      setUpdateData({ itemsToDelete, itemsToUpdate, itemsToAdd });
-      setUpdateEventName(eventName);
-      setShowUpdateConfirmation(true);
+      const parsed = await parseCsvStream(file.stream(), { encoding: 'auto', delimiter: /\.tsv$/i.test(file.name) ? '\t' : ',' });
+      const rows = toCellRows(parsed);
+      if (isCatalogCsv(rows)) {
+        setCatalogUpdate({ eventName, fileName: file.name, favorites: parseCatalogFavorites(rows, parsed.rows.map(row => `${row.line}行目`)) });
+        return;
+      }
+      startRowsUpdate(eventName, rows.filter(cells => !cells[0]?.startsWith('#METADATA')), parsed.errors.map(error => error.message), { type: 'file', fileName: file.name });
     } catch (error) {
       console.error('Update error:', error);
-      setPendingUpdateEventName(eventName);
-      setShowUrlUpdateDialog(true);
+      alert(`ファイルの読み込みに失敗しました。${error instanceof Error ? error.message : ''}`);
     }
-  }, [eventLists, eventMetadata]);
+  }, [fileUpdateEventName, eventMetadata, startRowsUpdate]);
+
+  const handleConfirmCatalogUpdate = useCallback((options: CatalogImportOptions) => {
+    if (!catalogUpdate) return;
+    const { eventName, fileName, favorites } = catalogUpdate;
+    setCatalogUpdate(null);
+    startSheetMerge(eventName, toCatalogItems(favorites, options), { source: { type: 'file', fileName }, catalogImport: options });
+  }, [catalogUpdate, startSheetMerge]);
+
+  const handleConfirmUpdateMapping = useCallback((profile: ColumnMappingProfile) => {
+    if (!updateMappingRequest) return;
+    const { eventName, rows, source } = updateMappingRequest;
+    setUpdateMappingRequest(null);
+    startSheetMerge(eventName, applyColumnMapping(rows, profile.mapping), { source, columnMapping: profile });
+  }, [updateMappingRequest, startSheetMerge]);
+
+  const handleSaveMappingProfile = useCallback((profile: ColumnMappingProfile) => {
+    setMappingProfiles(prev => [...prev.filter(p => p.name !== profile.name), profile]);
+    saveMappingProfile(profile).catch(error => {
+      console.error("Failed to save mapping profile to IndexedDB", error);
+      setStorageError({ message: getStorageErrorMessage(error), canRetry: false });
+    });
+  }, []);
 
-  const handleConfirmUpdate = () => {
+  const handleDeleteMappingProfile = useCallback((name: string) => {
+    setMappingProfiles(prev => prev.filter(p => p.name !== name));
+    deleteMappingProfile(name).catch(error => {
+      console.error("Failed to delete mapping profile from IndexedDB", error);
+      setStorageError({ message: getStorageErrorMessage(error), canRetry: false });
+    });
+  }, []);
+
+  const handleConfirmUpdate = (selection: UpdateSelection) => {
     if (!updateData || !updateEventName) return;
 
-    const { itemsToDelete, itemsToUpdate, itemsToAdd } = updateData;
+    const { itemsToDelete, itemsToUpdate, itemsToAdd } = applyUpdateSelection(updateData, selection);
+    const { source, columnMapping, catalogImport } = updateData;
+    const { addPosition } = selection;
     const eventName = updateEventName;
+    takeSnapshot(eventName, 'update');
+    recordCommand('取り込み元から更新');
+    recordChangeLog(eventName, 'update', { source: toChangeLogSource(source) });
+
+    const addedItems: ShoppingItem[] = itemsToAdd.map(itemData => ({
+      id: crypto.randomUUID(),
+      circle: itemData.circle,
+      eventDate: itemData.eventDate,
+      block: itemData.block,
+      number: itemData.number,
+      title: itemData.title,
+      price: itemData.price,
+      remarks: itemData.remarks,
+      purchaseStatus: 'None' as PurchaseStatus,
+      sheetBase: toSheetValues(itemData),
+      ...(itemData.sourceText ? { sourceText: itemData.sourceText } : {}),
+    }));
+
+    // 参加日が変わったアイテム（別の日への移動を含む）の、変更後の参加日
+    const previousDates = new Map((eventLists[eventName] || []).map(item => [item.id, item.eventDate]));
+    const movedDates = new Map(
+      itemsToUpdate
+        .filter(item => previousDates.has(item.id) && previousDates.get(item.id) !== item.eventDate)
+        .map(item => [item.id, item.eventDate])
+    );
     
     setEventLists(prev => {
       let newItems: ShoppingItem[] = [...(prev[eventName] || [])];
@@ -1226,30 +1900,17 @@ const App: React.FC = () => {
       const updateMap = new Map(itemsToUpdate.map(item => [item.id, item]));
       newItems = newItems.map(item => updateMap.get(item.id) || item);
       
-      // 追加（ソート挿入 - 候補リストに追加）
-      itemsToAdd.forEach(itemData => {
-        const newItem: ShoppingItem = {
-          id: crypto.randomUUID(),
-          circle: itemData.circle,
-          eventDate: itemData.eventDate,
-          block: itemData.block,
-          number: itemData.number,
-          title: itemData.title,
-          price: itemData.price,
-          remarks: itemData.remarks,
-          purchaseStatus: 'None' as PurchaseStatus
-        };
+      // 追加（ソート挿入）
+      addedItems.forEach(newItem => {
         newItems = insertItemSorted(newItems, newItem);
-        // 候補リストに追加（実行モード列には追加しない）
       });
       
       return { ...prev, [eventName]: newItems };
     });
 
-    // 削除されたアイテムを実行モードアイテムからも削除
+    // 削除されたアイテムを実行モードアイテムからも削除し、指定があれば追加したアイテムを実行列に挿入
     setExecuteModeItems(prev => {
-      const eventItems = prev[eventName];
-      if (!eventItems) return prev;
+      const eventItems = prev[eventName] || {};
       
       const deleteIds = new Set(itemsToDelete.map(item => item.id));
       const updatedEventItems: ExecuteModeItems = {};
@@ -1257,6 +1918,27 @@ const App: React.FC = () => {
       Object.keys(eventItems).forEach(eventDate => {
         updatedEventItems[eventDate] = eventItems[eventDate].filter(id => !deleteIds.has(id));
       });
+
+      if (addPosition.column === 'execute') {
+        Array.from(new Set(addedItems.map(item => item.eventDate))).forEach(eventDate => {
+          const column = [...(eventItems[eventDate] || [])];
+          const addedIds = addedItems.filter(item => item.eventDate === eventDate).map(item => item.id);
+          // 挿入位置は削除前の実行列に対する位置なので、挿入してから削除分を除く
+          column.splice(addPosition.indexes[eventDate] ?? column.length, 0, ...addedIds);
+          updatedEventItems[eventDate] = column.filter(id => !deleteIds.has(id));
+        });
+      }
+
+      // 参加日が変わったアイテムは、元の日の実行列から変更後の日の実行列の末尾に移す
+      movedDates.forEach((eventDate, id) => {
+        const fromDates = Object.keys(updatedEventItems).filter(date => date !== eventDate && updatedEventItems[date].includes(id));
+        if (fromDates.length === 0) return;
+        fromDates.forEach(date => {
+          updatedEventItems[date] = updatedEventItems[date].filter(itemId => itemId !== id);
+        });
+        const column = updatedEventItems[eventDate] || [];
+        if (!column.includes(id)) updatedEventItems[eventDate] = [...column, id];
+      });
       
       return {
         ...prev,
@@ -1264,19 +1946,56 @@ const App: React.FC = () => {
       };
     });
 
+    // 取り込み元と取り込み日時を記録（取り込み元を変更して更新した場合も次回以降に引き継ぐ。開始時刻はそのまま残す）
+    setEventMetadata(prev => ({
+      ...prev,
+      [eventName]: {
+        source,
+        lastImportDate: new Date().toISOString(),
+        ...(columnMapping ? { columnMapping } : {}),
+        ...(catalogImport ? { catalogImport } : {}),
+        ...(prev[eventName]?.startTimes ? { startTimes: prev[eventName].startTimes } : {}),
+      }
+    }));
+
     setShowUpdateConfirmation(false);
     setUpdateData(null);
     setUpdateEventName(null);
-    alert('アイテムを更新しました。');
+    showUndoToast('アイテムを更新しました。', eventName);
   };
 
-  const handleUrlUpdate = useCallback((newUrl: string, sheetName: string) => {
-    setShowUrlUpdateDialog(false);
-    if (pendingUpdateEventName) {
-      handleUpdateEvent(pendingUpdateEventName, { url: newUrl, sheetName });
-      setPendingUpdateEventName(null);
-    }
-  }, [pendingUpdateEventName, handleUpdateEvent]);
+  // 取り込みで使ったシート名（インポート画面のシート名の入力候補）
+  const sheetNameSuggestions = useMemo(() => {
+    const names = new Set<string>();
+    Object.values(eventMetadata).forEach(({ source }) => {
+      if (source && source.type !== 'csv-url' && source.sheetName) names.add(source.sheetName);
+    });
+    return Array.from(names).sort((a, b) => a.localeCompare(b, 'ja'));
+  }, [eventMetadata]);
+
+  // 更新確認画面で、追加したアイテムの挿入位置を選ぶための実行列
+  const updateExecuteColumns = useMemo(() => {
+    if (!updateEventName) return {};
+    const itemsMap = new Map((eventLists[updateEventName] || []).map(item => [item.id, item]));
+    const columns: Record<string, ShoppingItem[]> = {};
+    Object.entries(executeModeItems[updateEventName] || {}).forEach(([eventDate, ids]) => {
+      columns[eventDate] = ids.map(id => itemsMap.get(id)).filter(Boolean) as ShoppingItem[];
+    });
+    return columns;
+  }, [updateEventName, eventLists, executeModeItems]);
+
+  const handleUrlUpdate = useCallback((source: UrlImportSource, reviewMapping: boolean) => {
+    if (!urlUpdateRequest) return;
+    setUrlUpdateRequest(null);
+    handleUpdateEvent(urlUpdateRequest.eventName, { source, reviewMapping });
+  }, [urlUpdateRequest, handleUpdateEvent]);
+
+  // 取り込み元をファイルに変更して更新する
+  const handleSelectUpdateFile = useCallback(() => {
+    if (!urlUpdateRequest) return;
+    setFileUpdateEventName(urlUpdateRequest.eventName);
+    updateFileInputRef.current?.click();
+  }, [urlUpdateRequest]);
   
   // 現在のタブの参加日に該当するアイテムを取得
   const currentTabItems = useMemo(() => {
@@ -1341,9 +2060,77 @@ const App: React.FC = () => {
     const currentEventDate = eventDates.includes(activeTab) ? activeTab : (eventDates[0] || '');
     const executeIds = executeModeItems[activeEventName]?.[currentEventDate] || [];
     const itemsMap = new Map(items.map(item => [item.id, item]));
-    return executeIds.map(id => itemsMap.get(id)).filter(Boolean) as ShoppingItem[];
+    // 参加日を変えたアイテムのIDが残っていても、別の日の実行列には表示しない
+    return executeIds
+      .map(id => itemsMap.get(id))
+      .filter((item): item is ShoppingItem => !!item && item.eventDate === currentEventDate);
   }, [activeEventName, activeTab, executeModeItems, items, eventDates]);
 
+  // 表示中の参加日（巡回の予定の開始時刻に使う）
+  const activeEventDate = eventDates.includes(activeTab) ? activeTab : (eventDates[0] || '');
+
+  // 巡回順の計算に使う会場図（設定されていなければ、リストのブロックから推定した配置）
+  const routeLayout = useMemo(() => {
+    if (!activeEventName) return null;
+    return venueLayouts[activeEventName] || createVenueLayoutTemplate(activeEventName, items);
+  }, [activeEventName, venueLayouts, items]);
+
+  // 最適化した巡回順を実行列に反映する
+  const handleApplyRoute = useCallback((order: string[]) => {
+    if (!activeEventName) return;
+    const currentEventDate = eventDates.includes(activeTab) ? activeTab : (eventDates[0] || '');
+    recordCommand('巡回順を最適化');
+    recordChangeLog(activeEventName, 'edit', { label: '巡回順を最適化', reorderIds: new Set(order) });
+    setExecuteModeItems(prev => ({
+      ...prev,
+      [activeEventName]: { ...(prev[activeEventName] || {}), [currentEventDate]: order }
+    }));
+    setSelectedItemIds(new Set());
+    setShowRouteOptimizer(false);
+  }, [activeEventName, activeTab, eventDates, recordCommand, recordChangeLog]);
+
+  // 後回し・遅参のアイテムを、最後に巡回済みにしたアイテムより後の残りの巡回順に入れ直す
+  const handleReplanRoute = useCallback(() => {
+    if (!activeEventName || !routeLayout) return;
+    const order = replanPostponedItems(executeColumnItems, routeLayout);
+    if (!order) {
+      alert('実行列に後回し・遅参のアイテムはありません。');
+      return;
+    }
+    if (order.every((id, index) => id === executeColumnItems[index].id)) {
+      alert('今の巡回順のままで、組み直す必要はありません。');
+      return;
+    }
+    const currentEventDate = eventDates.includes(activeTab) ? activeTab : (eventDates[0] || '');
+    recordCommand('後回し・遅参を組み直す');
+    recordChangeLog(activeEventName, 'edit', { label: '後回し・遅参を組み直す', reorderIds: new Set(order) });
+    setExecuteModeItems(prev => ({
+      ...prev,
+      [activeEventName]: { ...(prev[activeEventName] || {}), [currentEventDate]: order }
+    }));
+  }, [activeEventName, activeTab, eventDates, executeColumnItems, routeLayout, recordCommand, recordChangeLog]);
+
+  // 参加日の開始時刻を設定する（取り込み元のないリストでは、開始時刻だけのメタデータを作る）
+  const handleChangeStartTime = useCallback((eventDate: string, time: string) => {
+    if (!activeEventName) return;
+    setEventMetadata(prev => {
+      const current = prev[activeEventName];
+      return {
+        ...prev,
+        [activeEventName]: { ...current, startTimes: { ...(current?.startTimes || {}), [eventDate]: time } }
+      };
+    });
+  }, [activeEventName]);
+
+  const handleToggleAutoReplan = useCallback((autoReplanRoute: boolean) => {
+    const nextSettings = { ...appSettings, autoReplanRoute };
+    setAppSettings(nextSettings);
+    saveAppSettings(nextSettings).catch(error => {
+      console.error("Failed to save settings to IndexedDB", error);
+      setStorageError({ message: getStorageErrorMessage(error), canRetry: false });
+    });
+  }, [appSettings]);
+
   const visibleItems = useMemo(() => {
     const currentEventDate = eventDates.includes(activeTab) ? activeTab : (eventDates[0] || '');
     const itemsForTab = currentTabItems;
@@ -1434,7 +2221,16 @@ const App: React.FC = () => {
   const showMoveButtons = (hasCandidateSelection && !hasExecuteSelection) || (hasExecuteSelection && !hasCandidateSelection);
   
   if (!isInitialized) {
-    return null;
+    return isDatabaseBlocked ? (
+      <div className="min-h-screen flex items-center justify-center p-4 bg-slate-50 text-slate-800 dark:bg-slate-900 dark:text-slate-200 font-sans">
+        <div className="max-w-md bg-white dark:bg-slate-800 rounded-lg shadow-xl p-6 space-y-2">
+          <h2 className="text-lg font-bold text-slate-900 dark:text-white">データの更新を待っています</h2>
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            このアプリを開いている他のタブ・ウィンドウを閉じてください。閉じると自動的に読み込みが始まります。
+          </p>
+        </div>
+      </div>
+    ) : null;
   }
 
   const mainContentVisible = eventDates.includes(activeTab);
@@ -1445,6 +2241,13 @@ const App: React.FC = () => {
 
   return (
     <div className="min-h-screen bg-slate-50 text-slate-800 dark:bg-slate-900 dark:text-slate-200 font-sans">
+      {storageError && (
+        <StorageErrorBanner
+          message={storageError.message}
+          onRetry={storageError.canRetry ? handleRetrySave : undefined}
+          onDismiss={() => setStorageError(null)}
+        />
+      )}
       <header className="bg-white dark:bg-slate-800 shadow-sm sticky top-0 z-10">
         <div className="max-w-7xl mx-auto py-4 px-4 sm:px-6 lg:px-8 flex justify-between items-center">
           <div>
@@ -1480,6 +2283,26 @@ const App: React.FC = () => {
             {activeEventName && <h2 className="text-sm text-blue-600 dark:text-blue-400 font-semibold mt-1">{activeEventName}</h2>}
           </div>
           <div className="flex items-center gap-4">
+              {activeEventName && mainContentVisible && (
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                      <button
+                          onClick={() => handleUndo(activeEventName)}
+                          disabled={!activeHistory || activeHistory.undo.length === 0}
+                          className="p-2 rounded-md transition-colors duration-200 text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+                          title={activeHistory && activeHistory.undo.length > 0 ? `元に戻す: ${activeHistory.undo[activeHistory.undo.length - 1].label}` : '元に戻す'}
+                      >
+                          <ArrowUturnLeftIcon className="w-5 h-5" />
+                      </button>
+                      <button
+                          onClick={() => handleRedo(activeEventName)}
+                          disabled={!activeHistory || activeHistory.redo.length === 0}
+                          className="p-2 rounded-md transition-colors duration-200 text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+                          title={activeHistory && activeHistory.redo.length > 0 ? `やり直す: ${activeHistory.redo[activeHistory.redo.length - 1].label}` : 'やり直す'}
+                      >
+                          <ArrowUturnRightIcon className="w-5 h-5" />
+                      </button>
+                  </div>
+              )}
               {activeEventName && mainContentVisible && items.length > 0 && selectedItemIds.size > 0 && (
                   <>
                       <BulkActionControls
@@ -1504,7 +2327,45 @@ const App: React.FC = () => {
                       )}
                   </>
               )}
+              {activeEventName && mainContentVisible && items.length > 0 && (
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                      <button
+                          onClick={() => setDayView(prev => (prev === 'map' ? 'cards' : 'map'))}
+                          className="px-3 py-1.5 text-sm font-medium rounded-md transition-colors duration-200 text-slate-600 bg-slate-100 hover:bg-slate-200 dark:text-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600"
+                          title={dayView === 'map' ? 'カードの一覧で表示' : '実行列のアイテムを会場マップで表示'}
+                      >
+                          {dayView === 'map' ? '📋 一覧' : '🗺️ 地図'}
+                      </button>
+                      <button
+                          onClick={() => setDayView(prev => (prev === 'timeline' ? 'cards' : 'timeline'))}
+                          className="px-3 py-1.5 text-sm font-medium rounded-md transition-colors duration-200 text-slate-600 bg-slate-100 hover:bg-slate-200 dark:text-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600"
+                          title={dayView === 'timeline' ? 'カードの一覧で表示' : '実行列のアイテムへの到着時刻の見込みを表示'}
+                      >
+                          {dayView === 'timeline' ? '📋 一覧' : '⏱️ 予定'}
+                      </button>
+                  </div>
+              )}
               {activeEventName && mainContentVisible && items.length > 0 && currentMode === 'execute' && (
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                      <button
+                          onClick={handleReplanRoute}
+                          disabled={!executeColumnItems.some(isReplanTarget)}
+                          className="px-3 py-1.5 text-sm font-medium rounded-md transition-colors duration-200 text-purple-600 bg-purple-100 hover:bg-purple-200 dark:text-purple-300 dark:bg-purple-900/50 dark:hover:bg-purple-900 disabled:opacity-40 disabled:cursor-not-allowed"
+                          title="後回し・遅参のアイテムを、残りの巡回順の近い位置に入れ直す"
+                      >
+                          🔁 組み直す
+                      </button>
+                      <label className="flex items-center gap-1 text-xs text-slate-600 dark:text-slate-400" title="購入状態を変えるたびに、後回し・遅参のアイテムを自動で組み直す">
+                          <input
+                              type="checkbox"
+                              checked={appSettings.autoReplanRoute}
+                              onChange={e => handleToggleAutoReplan(e.target.checked)}
+                          />
+                          自動
+                      </label>
+                  </div>
+              )}
+              {activeEventName && mainContentVisible && items.length > 0 && currentMode === 'execute' && dayView === 'cards' && (
                   <button
                       onClick={handleSortToggle}
                       className="px-3 py-1.5 text-sm font-medium rounded-md transition-colors duration-200 text-blue-600 bg-blue-100 hover:bg-blue-200 dark:text-blue-300 dark:bg-blue-900/50 dark:hover:bg-blue-900 flex-shrink-0"
@@ -1549,14 +2410,41 @@ const App: React.FC = () => {
       </header>
 
       <main className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8">
+        {activeTab === 'eventList' && quarantinedRecords.length > 0 && (
+            <div className="mb-4 p-4 flex items-center justify-between gap-4 rounded-lg bg-yellow-50 dark:bg-yellow-900/30 border border-yellow-300 dark:border-yellow-700">
+                <p className="text-sm text-yellow-800 dark:text-yellow-200">
+                    {quarantinedRecords.length}件の保存データを読み込めませんでした。
+                </p>
+                <button
+                    onClick={() => setActiveTab('recovery')}
+                    className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-yellow-600 hover:bg-yellow-700 transition-colors flex-shrink-0"
+                >
+                    確認する
+                </button>
+            </div>
+        )}
+        {activeTab === 'recovery' && (
+            <DataRecoveryScreen
+                records={quarantinedRecords}
+                onRestore={handleRestoreQuarantined}
+                onDiscard={removeQuarantinedRecord}
+                onClose={() => setActiveTab('eventList')}
+            />
+        )}
         {activeTab === 'eventList' && (
             <EventListScreen 
                 eventNames={Object.keys(eventLists).sort()}
                 onSelect={handleSelectEvent}
                 onDelete={handleDeleteEvent}
-                onExport={handleExportEvent}
+                onExport={setExportRequestEventName}
                 onUpdate={handleUpdateEvent}
                 onRename={(oldName) => handleRenameEvent(oldName)}
+                onShowSnapshots={handleShowSnapshots}
+                deletedEventNames={snapshotEventNames.filter(name => !eventLists[name]).sort()}
+                onShowChangeLog={handleShowChangeLog}
+                onEditVenueLayout={setVenueLayoutEventName}
+                onBackup={handleBackup}
+                onRestoreBackup={handleRestoreBackupFile}
             />
         )}
         {activeTab === 'import' && (
@@ -1567,9 +2455,37 @@ const App: React.FC = () => {
              onUpdateItem={handleUpdateItem}
              onDoneEditing={handleDoneEditing}
              availableEventDates={eventDates}
+             eventLists={eventLists}
+             mappingProfiles={mappingProfiles}
+             onSaveMappingProfile={handleSaveMappingProfile}
+             onDeleteMappingProfile={handleDeleteMappingProfile}
+             sheetNameSuggestions={sheetNameSuggestions}
+             incomingFile={incomingFile}
+             onIncomingFileHandled={() => setIncomingFile(null)}
            />
         )}
-        {activeEventName && mainContentVisible && (
+        {activeEventName && mainContentVisible && dayView === 'map' && routeLayout && (
+          <HallMapView
+            eventDate={eventDates.includes(activeTab) ? activeTab : (eventDates[0] || '')}
+            items={executeColumnItems}
+            layout={routeLayout}
+            isEstimatedLayout={!venueLayouts[activeEventName]}
+            zoomLevel={zoomLevel}
+            onUpdateItem={handleUpdateItem}
+          />
+        )}
+        {activeEventName && mainContentVisible && dayView === 'timeline' && routeLayout && (
+          <RouteTimelineView
+            eventDate={activeEventDate}
+            items={executeColumnItems}
+            layout={routeLayout}
+            isEstimatedLayout={!venueLayouts[activeEventName]}
+            startTime={eventMetadata[activeEventName]?.startTimes?.[activeEventDate]}
+            onChangeStartTime={time => handleChangeStartTime(activeEventDate, time)}
+            onUpdateItem={handleUpdateItem}
+          />
+        )}
+        {activeEventName && mainContentVisible && dayView === 'cards' && (
           <div style={{
               transform: `scale(${zoomLevel / 100})`,
               transformOrigin: 'top left',
@@ -1580,7 +2496,18 @@ const App: React.FC = () => {
                 {/* 左列: 実行モード表示列 */}
                 <div className="space-y-2">
                   <div className="bg-blue-50 dark:bg-blue-900/20 border-2 border-blue-300 dark:border-blue-700 rounded-lg p-3">
-                    <h3 className="text-sm font-semibold text-blue-900 dark:text-blue-100 mb-2">実行モード表示列</h3>
+                    <div className="flex items-center justify-between gap-2 mb-2">
+                      <h3 className="text-sm font-semibold text-blue-900 dark:text-blue-100">実行モード表示列</h3>
+                      {executeColumnItems.length >= 2 && (
+                        <button
+                          onClick={() => setShowRouteOptimizer(true)}
+                          className="px-2 py-1 text-xs font-medium rounded-md text-blue-700 bg-white hover:bg-blue-100 dark:text-blue-300 dark:bg-slate-800 dark:hover:bg-blue-900/50 border border-blue-300 dark:border-blue-700 transition-colors"
+                          title="会場図上の位置から、歩く距離が短くなるように並べ替えます"
+                        >
+                          🧭 最適化
+                        </button>
+                      )}
+                    </div>
                     <p className="text-xs text-blue-700 dark:text-blue-300 mb-3">右の候補リストからアイテムを選択して移動</p>
                   </div>
                   <ShoppingList
@@ -1698,9 +2625,8 @@ const App: React.FC = () => {
 
       {showUpdateConfirmation && updateData && (
         <UpdateConfirmationModal
-          itemsToDelete={updateData.itemsToDelete}
-          itemsToUpdate={updateData.itemsToUpdate}
-          itemsToAdd={updateData.itemsToAdd}
+          result={updateData}
+          executeColumns={updateExecuteColumns}
           onConfirm={handleConfirmUpdate}
           onCancel={() => {
             setShowUpdateConfirmation(false);
@@ -1710,14 +2636,26 @@ const App: React.FC = () => {
         />
       )}
 
-      {showUrlUpdateDialog && (
+      <input type="file" ref={updateFileInputRef} accept=".csv,.tsv,.xlsx" onChange={handleUpdateFile} className="hidden" />
+
+      {catalogUpdate && (
+        <CatalogImportDialog
+          favorites={catalogUpdate.favorites}
+          initialOptions={defaultCatalogImportOptions(catalogUpdate.favorites, eventMetadata[catalogUpdate.eventName]?.catalogImport)}
+          eventDates={extractEventDates(eventLists[catalogUpdate.eventName] || [])}
+          confirmLabel="更新内容を確認"
+          onConfirm={handleConfirmCatalogUpdate}
+          onCancel={() => setCatalogUpdate(null)}
+        />
+      )}
+
+      {urlUpdateRequest && (
         <UrlUpdateDialog
-          currentUrl={pendingUpdateEventName ? eventMetadata[pendingUpdateEventName]?.spreadsheetUrl || '' : ''}
+          currentSource={eventMetadata[urlUpdateRequest.eventName]?.source}
+          errorMessage={urlUpdateRequest.errorMessage}
           onConfirm={handleUrlUpdate}
-          onCancel={() => {
-            setShowUrlUpdateDialog(false);
-            setPendingUpdateEventName(null);
-          }}
+          onSelectFile={handleSelectUpdateFile}
+          onCancel={() => setUrlUpdateRequest(null)}
         />
       )}
 
@@ -1732,6 +2670,88 @@ const App: React.FC = () => {
         />
       )}
 
+      {snapshotBrowser && (
+        <SnapshotBrowserDialog
+          eventName={snapshotBrowser.eventName}
+          snapshots={snapshotBrowser.snapshots}
+          onRestore={handleRestoreSnapshot}
+          onDelete={handleDeleteSnapshot}
+          onClose={() => setSnapshotBrowser(null)}
+        />
+      )}
+
+      {updateMappingRequest && (
+        <ColumnMappingEditor
+          rows={updateMappingRequest.rows}
+          warnings={updateMappingRequest.warnings}
+          initialMapping={updateMappingRequest.initialMapping}
+          profiles={mappingProfiles}
+          confirmLabel="この割り当てで更新"
+          onSaveProfile={handleSaveMappingProfile}
+          onDeleteProfile={handleDeleteMappingProfile}
+          onConfirm={handleConfirmUpdateMapping}
+          onCancel={() => setUpdateMappingRequest(null)}
+        />
+      )}
+
+      {changeLogViewer && (
+        <ChangeLogDialog
+          eventName={changeLogViewer.eventName}
+          entries={changeLogViewer.entries}
+          onExportCsv={handleExportChangeLog}
+          onClose={() => setChangeLogViewer(null)}
+        />
+      )}
+
+      {exportRequestEventName && (
+        <ExportDialog
+          eventName={exportRequestEventName}
+          onExport={format => handleExportEvent(exportRequestEventName, format)}
+          onCancel={() => setExportRequestEventName(null)}
+        />
+      )}
+
+      {venueLayoutEventName && (
+        <VenueLayoutDialog
+          eventName={venueLayoutEventName}
+          layout={venueLayouts[venueLayoutEventName]}
+          items={eventLists[venueLayoutEventName] || []}
+          onSave={layout => handleSaveVenueLayout(venueLayoutEventName, layout)}
+          onExport={layout => handleExportVenueLayout(venueLayoutEventName, layout)}
+          onCancel={() => setVenueLayoutEventName(null)}
+        />
+      )}
+
+      {showRouteOptimizer && routeLayout && (
+        <RouteOptimizeDialog
+          eventDate={eventDates.includes(activeTab) ? activeTab : (eventDates[0] || '')}
+          items={executeColumnItems}
+          layout={routeLayout}
+          isEstimatedLayout={!venueLayouts[activeEventName!]}
+          selectedIds={selectedItemIds}
+          onApply={handleApplyRoute}
+          onCancel={() => setShowRouteOptimizer(false)}
+        />
+      )}
+
+      {isDraggingFile && (
+        <div className="fixed inset-0 bg-blue-600/20 border-4 border-dashed border-blue-500 flex items-center justify-center z-50 pointer-events-none">
+          <p className="mx-4 px-6 py-4 rounded-lg shadow-xl bg-white dark:bg-slate-800 text-lg font-semibold text-blue-600 dark:text-blue-400">
+            ドロップして取り込む（CSV・TSV・Excel・バックアップのJSON）
+          </p>
+        </div>
+      )}
+
+      {backupToRestore && (
+        <BackupRestoreDialog
+          backup={backupToRestore}
+          existingEventNames={Object.keys(eventLists)}
+          onReplace={handleReplaceFromBackup}
+          onMerge={handleMergeFromBackup}
+          onCancel={() => setBackupToRestore(null)}
+        />
+      )}
+
       {activeEventName && items.length > 0 && mainContentVisible && (
         <>
           {currentMode === 'execute' && <SummaryBar items={visibleItems} />}
@@ -1740,6 +2760,13 @@ const App: React.FC = () => {
       {activeEventName && items.length > 0 && mainContentVisible && (
         <ZoomControl zoomLevel={zoomLevel} onZoomChange={handleZoomChange} />
       )}
+      {undoToast && (
+        <UndoToast
+          message={undoToast.message}
+          onUndo={handleUndoFromToast}
+          onClose={handleCloseUndoToast}
+        />
+      )}
     </div>
   );
 };
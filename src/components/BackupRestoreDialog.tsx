@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { BackupEventImport, ParsedBackup } from '../utils/backup';
+
+interface BackupRestoreDialogProps {
+  backup: ParsedBackup;
+  existingEventNames: string[];
+  onReplace: () => void;
+  onMerge: (imports: BackupEventImport[]) => void;
+  onCancel: () => void;
+}
+
+type ConflictResolution = 'overwrite' | 'rename' | 'skip';
+
+interface EventSelection {
+  selected: boolean;
+  resolution: ConflictResolution; // 同名のイベントがある場合のみ使用
+  newName: string;
+}
+
+// 既存のイベント名と重ならない名前を作る
+const suggestName = (name: string, existingNames: Set<string>) => {
+  let candidate = `${name} (復元)`;
+  let index = 2;
+  while (existingNames.has(candidate)) {
+    candidate = `${name} (復元${index++})`;
+  }
+  return candidate;
+};
+
+const BackupRestoreDialog: React.FC<BackupRestoreDialogProps> = ({
+  backup,
+  existingEventNames,
+  onReplace,
+  onMerge,
+  onCancel,
+}) => {
+  const backupEventNames = Object.keys(backup.data.eventLists).sort();
+  const existing = new Set(existingEventNames);
+  const [mode, setMode] = useState<'merge' | 'replace'>('merge');
+  const [selections, setSelections] = useState<Record<string, EventSelection>>(() => {
+    const initial: Record<string, EventSelection> = {};
+    const usedNames = new Set([...existingEventNames, ...backupEventNames]);
+    backupEventNames.forEach(name => {
+      const newName = suggestName(name, usedNames);
+      usedNames.add(newName);
+      initial[name] = { selected: true, resolution: 'rename', newName };
+    });
+    return initial;
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const updateSelection = (name: string, changes: Partial<EventSelection>) => {
+    setSelections(prev => ({ ...prev, [name]: { ...prev[name], ...changes } }));
+    setError(null);
+  };
+
+  const handleConfirm = () => {
+    if (mode === 'replace') {
+      if (window.confirm(`現在の${existingEventNames.length}件の即売会リストをすべて削除し、バックアップの内容に置き換えますか？置き換え前の各リストはスナップショットとして保存されます。`)) {
+        onReplace();
+      }
+      return;
+    }
+
+    const imports: BackupEventImport[] = [];
+    for (const name of backupEventNames) {
+      const selection = selections[name];
+      if (!selection.selected) continue;
+      if (!existing.has(name)) {
+        imports.push({ sourceName: name, targetName: name });
+      } else if (selection.resolution === 'overwrite') {
+        imports.push({ sourceName: name, targetName: name });
+      } else if (selection.resolution === 'rename') {
+        imports.push({ sourceName: name, targetName: selection.newName.trim() });
+      }
+    }
+
+    if (imports.length === 0) {
+      setError('取り込む即売会を選択してください。');
+      return;
+    }
+    const targetNames = new Set<string>();
+    for (const { sourceName, targetName } of imports) {
+      if (!targetName) {
+        setError(`「${sourceName}」の新しい名前を入力してください。`);
+        return;
+      }
+      if (targetNames.has(targetName) || (targetName !== sourceName && existing.has(targetName))) {
+        setError(`「${targetName}」は既に使われている名前です。別の名前を入力してください。`);
+        return;
+      }
+      targetNames.add(targetName);
+    }
+    onMerge(imports);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl max-w-lg w-full mx-4 max-h-[85vh] flex flex-col">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-xl font-bold text-slate-900 dark:text-white">バックアップから復元</h2>
+          {backup.exportedAt && (
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+              {new Date(backup.exportedAt).toLocaleString('ja-JP')} に作成されたバックアップ（{backupEventNames.length}件の即売会）
+            </p>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {backup.warnings.length > 0 && (
+            <div className="p-3 rounded-md bg-yellow-50 dark:bg-yellow-900/30 text-sm text-yellow-800 dark:text-yellow-200">
+              <p className="font-medium">読み込めなかったデータ（{backup.warnings.length}件）は除外されます。</p>
+              <ul className="mt-1 list-disc list-inside text-xs max-h-24 overflow-y-auto">
+                {backup.warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+              <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+              選択した即売会を追加する
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+              <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+              すべての即売会をバックアップの内容に置き換える
+            </label>
+          </div>
+
+          {mode === 'merge' && (
+            <ul className="divide-y divide-slate-200 dark:divide-slate-700 border border-slate-200 dark:border-slate-700 rounded-md">
+              {backupEventNames.map(name => {
+                const selection = selections[name];
+                const hasConflict = existing.has(name);
+                return (
+                  <li key={name} className="p-3 space-y-2">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={selection.selected}
+                        onChange={e => updateSelection(name, { selected: e.target.checked })}
+                      />
+                      <span className="font-medium text-slate-800 dark:text-slate-200">{name}</span>
+                      <span className="text-xs text-slate-400">{backup.data.eventLists[name].length}件</span>
+                    </label>
+                    {hasConflict && selection.selected && (
+                      <div className="ml-6 space-y-2">
+                        <p className="text-xs text-orange-600 dark:text-orange-400">同じ名前の即売会が既にあります</p>
+                        <select
+                          value={selection.resolution}
+                          onChange={e => updateSelection(name, { resolution: e.target.value as ConflictResolution })}
+                          className="w-full p-1.5 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-900"
+                        >
+                          <option value="rename">別の名前で追加</option>
+                          <option value="overwrite">既存のリストを上書き</option>
+                          <option value="skip">取り込まない</option>
+                        </select>
+                        {selection.resolution === 'rename' && (
+                          <input
+                            type="text"
+                            value={selection.newName}
+                            onChange={e => updateSelection(name, { newName: e.target.value })}
+                            className="w-full p-1.5 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          />
+                        )}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 dark:border-slate-700 flex justify-end space-x-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium rounded-md text-slate-700 bg-slate-200 hover:bg-slate-300 dark:text-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 transition-colors"
+          >
+            キャンセル
+          </button>
+          <button
+            onClick={handleConfirm}
+            className={`px-4 py-2 text-sm font-medium rounded-md text-white transition-colors ${
+              mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            {mode === 'replace' ? 'すべて置き換える' : '復元'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupRestoreDialog;
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { CatalogImportOptions } from '../types';
+import { CatalogFavorites, listCatalogDays } from '../utils/catalogCsv';
+
+interface CatalogImportDialogProps {
+  favorites: CatalogFavorites;
+  initialOptions: CatalogImportOptions;
+  eventDates?: string[]; // 取り込み先のリストの参加日（入力候補）
+  confirmLabel: string;
+  onConfirm: (options: CatalogImportOptions) => void;
+  onCancel: () => void;
+}
+
+const CatalogImportDialog: React.FC<CatalogImportDialogProps> = ({
+  favorites,
+  initialOptions,
+  eventDates = [],
+  confirmLabel,
+  onConfirm,
+  onCancel,
+}) => {
+  const [dayLabels, setDayLabels] = useState(initialOptions.dayLabels);
+  const [priorityColors, setPriorityColors] = useState(new Set(initialOptions.priorityColors));
+
+  const days = listCatalogDays(favorites);
+  const countOf = (match: (circle: CatalogFavorites['circles'][number]) => boolean) => favorites.circles.filter(match).length;
+  // お気に入りに使われている色のみ表示する
+  const colors = favorites.colors.filter(color => countOf(circle => circle.colorIndex === color.index) > 0);
+  const hasEmptyLabel = days.some(day => !dayLabels[day]?.trim());
+
+  const togglePriority = (index: number) => {
+    setPriorityColors(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const handleConfirm = () => {
+    const trimmed: Record<string, string> = {};
+    days.forEach(day => {
+      trimmed[day] = dayLabels[day].trim();
+    });
+    onConfirm({ dayLabels: trimmed, priorityColors: Array.from(priorityColors).sort((a, b) => a - b) });
+  };
+
+  const inputClass = "w-full p-1 text-sm border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-900";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl max-w-lg w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-xl font-bold text-slate-900 dark:text-white">Webカタログのお気に入り</h2>
+          <p className="text-sm text-blue-600 dark:text-blue-400 font-semibold mt-1">{favorites.eventName}（{favorites.circles.length}サークル）</p>
+          {favorites.unknownCount > 0 && (
+            <p className="text-xs text-yellow-700 dark:text-yellow-300 mt-2">
+              カタログに載っていないサークル {favorites.unknownCount}件は、配置が分からないため取り込みません。
+            </p>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <div>
+            <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">参加日</h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">カタログの曜日を、リストのどの参加日（タブ）にするかを指定します。</p>
+            <table className="w-full text-sm">
+              <tbody>
+                {days.map(day => (
+                  <tr key={day}>
+                    <td className="py-1 pr-2 whitespace-nowrap text-slate-700 dark:text-slate-300">{day}（{countOf(circle => circle.day === day)}件）</td>
+                    <td className="py-1">
+                      <input
+                        type="text"
+                        list="catalog-event-dates"
+                        value={dayLabels[day] ?? ''}
+                        onChange={e => setDayLabels(prev => ({ ...prev, [day]: e.target.value }))}
+                        className={inputClass}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <datalist id="catalog-event-dates">
+              {eventDates.map(date => <option key={date} value={date} />)}
+            </datalist>
+          </div>
+
+          {colors.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">お気に入りの色</h3>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">色は備考に記録されます。チェックした色のサークルは「優先」として表示します。</p>
+              <ul className="space-y-1">
+                {colors.map(color => (
+                  <li key={color.index}>
+                    <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                      <input type="checkbox" checked={priorityColors.has(color.index)} onChange={() => togglePriority(color.index)} />
+                      <span className="inline-block w-4 h-4 rounded border border-slate-300 dark:border-slate-600" style={{ backgroundColor: color.color || undefined }} />
+                      色{color.index}{color.label && `（${color.label}）`}
+                      <span className="text-xs text-slate-500 dark:text-slate-400">{countOf(circle => circle.colorIndex === color.index)}件</span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 dark:border-slate-700 flex justify-end space-x-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium rounded-md text-slate-700 bg-slate-200 hover:bg-slate-300 dark:text-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 transition-colors"
+          >
+            キャンセル
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={hasEmptyLabel || favorites.circles.length === 0}
+            className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 disabled:cursor-not-allowed transition-colors"
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CatalogImportDialog;
@@ -0,0 +1,127 @@
+import React from 'react';
+import { ChangeLogEntry, ChangeLogFieldChange, SheetItemValues } from '../types';
+import { changeLogFieldLabels, changeLogKindLabels, formatChangeLogValue } from '../utils/changeLog';
+
+interface ChangeLogDialogProps {
+  eventName: string;
+  entries: ChangeLogEntry[] | null; // null の場合は読み込み中
+  onExportCsv: () => void;
+  onClose: () => void;
+}
+
+const formatValue = (field: ChangeLogFieldChange['field'], value: string | number) =>
+  (value === '' ? '（空欄）' : formatChangeLogValue(field, value));
+
+const itemLabel = (item: SheetItemValues) =>
+  `${item.eventDate} ${item.block}-${item.number} ${item.circle}${item.title ? ` - ${item.title}` : ''}`;
+
+const ChangeLogDialog: React.FC<ChangeLogDialogProps> = ({
+  eventName,
+  entries,
+  onExportCsv,
+  onClose,
+}) => {
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[80vh] flex flex-col">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-xl font-bold text-slate-900 dark:text-white">変更履歴</h2>
+          <p className="text-sm text-blue-600 dark:text-blue-400 font-semibold mt-1">{eventName}</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {entries === null ? (
+            <p className="text-center text-slate-500 dark:text-slate-400 py-12">読み込み中...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-slate-500 dark:text-slate-400 py-12">記録された変更はありません。</p>
+          ) : (
+            <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+              {entries.map(entry => (
+                <li key={entry.id} className="p-4">
+                  <details>
+                    <summary className="cursor-pointer list-none">
+                      <p className="font-medium text-slate-800 dark:text-slate-200">
+                        {new Date(entry.createdAt).toLocaleString('ja-JP')}
+                        <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300">
+                          {changeLogKindLabels[entry.kind] || entry.kind}
+                        </span>
+                        {entry.label && <span className="ml-2 text-sm text-slate-600 dark:text-slate-300">{entry.label}</span>}
+                      </p>
+                      <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                        <span className="text-green-600 dark:text-green-400">追加 {entry.added.length}件</span>
+                        ・<span className="text-red-600 dark:text-red-400">削除 {entry.removed.length}件</span>
+                        ・<span className="text-blue-600 dark:text-blue-400">変更 {entry.changed.length}件</span>
+                        {entry.reordered && entry.reordered.length > 0 && (
+                          <>・<span className="text-purple-600 dark:text-purple-400">並び替え {entry.reordered.length}件</span></>
+                        )}
+                      </p>
+                      {entry.source && (
+                        <p className="text-xs text-slate-400 mt-1 truncate" title={entry.source.url}>
+                          {entry.source.sheetName ? `${entry.source.sheetName} / ` : ''}{entry.source.url}
+                        </p>
+                      )}
+                    </summary>
+                    <ul className="mt-3 space-y-1 text-xs text-slate-600 dark:text-slate-300">
+                      {entry.added.map((item, index) => (
+                        <li key={`added-${index}`}>
+                          <span className="text-green-600 dark:text-green-400 font-semibold">追加 </span>
+                          {itemLabel(item)}
+                        </li>
+                      ))}
+                      {entry.removed.map((item, index) => (
+                        <li key={`removed-${index}`}>
+                          <span className="text-red-600 dark:text-red-400 font-semibold">削除 </span>
+                          {itemLabel(item)}
+                        </li>
+                      ))}
+                      {entry.changed.map(({ item, fields }, index) => (
+                        <li key={`changed-${index}`}>
+                          <span className="text-blue-600 dark:text-blue-400 font-semibold">変更 </span>
+                          {itemLabel(item)}
+                          <ul className="ml-4">
+                            {fields.map(({ field, before, after }) => (
+                              <li key={field}>
+                                <span className="text-slate-400">{changeLogFieldLabels[field]}: </span>
+                                <span className="line-through text-red-500 dark:text-red-400">{formatValue(field, before)}</span>
+                                <span className="text-slate-400"> → </span>
+                                <span className="text-green-600 dark:text-green-400">{formatValue(field, after)}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </li>
+                      ))}
+                      {entry.reordered?.map((item, index) => (
+                        <li key={`reordered-${index}`}>
+                          <span className="text-purple-600 dark:text-purple-400 font-semibold">並び替え </span>
+                          {itemLabel(item)}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 dark:border-slate-700 flex justify-end space-x-3">
+          <button
+            onClick={onExportCsv}
+            disabled={!entries || entries.length === 0}
+            className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 disabled:cursor-not-allowed transition-colors"
+          >
+            CSVで出力
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium rounded-md text-slate-700 bg-slate-200 hover:bg-slate-300 dark:text-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 transition-colors"
+          >
+            閉じる
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChangeLogDialog;
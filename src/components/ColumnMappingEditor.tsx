@@ -0,0 +1,334 @@
+import React, { useMemo, useState } from 'react';
+import { ColumnMapping, ColumnMappingProfile, TextEncodingName } from '../types';
+import {
+  BUILTIN_MAPPING_PROFILES,
+  MAPPING_FIELDS,
+  MappingField,
+  REQUIRED_MAPPING_FIELDS,
+  applyColumnMapping,
+  columnLabel,
+  detectColumnMapping,
+  isSameColumnMapping,
+} from '../utils/columnMapping';
+import { mergeFieldLabels } from '../utils/sheetMerge';
+import { textEncodingLabels } from '../utils/encoding';
+
+interface ColumnMappingEditorProps {
+  rows: string[][];
+  warnings?: string[]; // 読み込み時に見つかった問題（行番号付き）
+  initialMapping: ColumnMapping;
+  encoding?: TextEncodingName; // ファイルから読み込んだ場合の文字コード
+  onChangeEncoding?: (encoding: TextEncodingName) => void; // 文字コードを変えて読み込み直す
+  sheetNames?: string[]; // Excelブックから読み込んだ場合のシート名
+  sheetName?: string;
+  onChangeSheet?: (sheetName: string) => void; // 取り込むシートを切り替える
+  profiles: ColumnMappingProfile[]; // 保存済みの割り当て（組み込みのものを除く）
+  confirmLabel: string;
+  onSaveProfile: (profile: ColumnMappingProfile) => void;
+  onDeleteProfile: (name: string) => void;
+  onConfirm: (profile: ColumnMappingProfile) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+const CUSTOM_PROFILE_NAME = 'カスタム';
+const DETECTED_PROFILE_NAME = '見出しから推定';
+
+const ColumnMappingEditor: React.FC<ColumnMappingEditorProps> = ({
+  rows,
+  warnings = [],
+  initialMapping,
+  encoding,
+  onChangeEncoding,
+  sheetNames,
+  sheetName,
+  onChangeSheet,
+  profiles,
+  confirmLabel,
+  onSaveProfile,
+  onDeleteProfile,
+  onConfirm,
+  onCancel,
+}) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const [newProfileName, setNewProfileName] = useState('');
+
+  const detected = useMemo(() => (rows.length > 0 ? detectColumnMapping(rows[0]) : null), [rows]);
+  const allProfiles = useMemo(() => [
+    ...BUILTIN_MAPPING_PROFILES,
+    ...(detected ? [{ name: DETECTED_PROFILE_NAME, mapping: detected }] : []),
+    ...profiles,
+  ], [detected, profiles]);
+  const selectedProfile = allProfiles.find(profile => isSameColumnMapping(profile.mapping, mapping));
+  const isSavedProfile = !!selectedProfile && profiles.some(profile => profile.name === selectedProfile.name);
+
+  const columnCount = useMemo(() => Math.max(0, ...rows.slice(0, 20).map(cells => cells.length)), [rows]);
+  const columnOptions = useMemo(() => Array.from({ length: columnCount }, (_, index) => {
+    const header = mapping.hasHeader ? rows[0]?.[index]?.trim() : '';
+    return { index, label: header ? `${columnLabel(index)}列: ${header}` : `${columnLabel(index)}列` };
+  }), [columnCount, mapping.hasHeader, rows]);
+
+  const items = useMemo(() => applyColumnMapping(rows, mapping), [rows, mapping]);
+
+  const setField = (field: MappingField, column: number | null) => {
+    setMapping(prev => ({ ...prev, [field]: column }));
+  };
+
+  const handleSelectProfile = (name: string) => {
+    const profile = allProfiles.find(p => p.name === name);
+    if (profile) setMapping(profile.mapping);
+  };
+
+  const handleSaveProfile = () => {
+    const name = newProfileName.trim();
+    if (!name) {
+      alert('保存する名前を入力してください。');
+      return;
+    }
+    if (BUILTIN_MAPPING_PROFILES.some(profile => profile.name === name) || name === DETECTED_PROFILE_NAME || name === CUSTOM_PROFILE_NAME) {
+      alert('その名前は使用できません。別の名前を入力してください。');
+      return;
+    }
+    if (profiles.some(profile => profile.name === name) && !window.confirm(`「${name}」を上書きしますか？`)) {
+      return;
+    }
+    onSaveProfile({ name, mapping });
+    setNewProfileName('');
+  };
+
+  const handleDeleteProfile = () => {
+    if (selectedProfile && window.confirm(`保存した割り当て「${selectedProfile.name}」を削除しますか？`)) {
+      onDeleteProfile(selectedProfile.name);
+    }
+  };
+
+  const selectClass = "w-full p-1.5 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-900";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl max-w-3xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-xl font-bold text-slate-900 dark:text-white">列の割り当て</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+            取り込み元の各列がどの項目にあたるかを選んでください。サークル名・参加日・ブロック・ナンバーが入力されている行を取り込みます。
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {warnings.length > 0 && (
+            <div className="p-3 rounded-md bg-yellow-50 dark:bg-yellow-900/30 text-sm text-yellow-800 dark:text-yellow-200">
+              <p className="font-medium">ファイルの一部を正しく読み込めませんでした。</p>
+              <ul className="mt-1 list-disc list-inside text-xs max-h-24 overflow-y-auto">
+                {warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-end gap-2">
+            {sheetNames && sheetName && onChangeSheet && (
+              <div>
+                <label className="block text-xs font-medium text-slate-600 dark:text-slate-400 mb-1">シート</label>
+                <select
+                  value={sheetName}
+                  onChange={e => onChangeSheet(e.target.value)}
+                  className={selectClass}
+                >
+                  {sheetNames.map(name => <option key={name} value={name}>{name}</option>)}
+                </select>
+              </div>
+            )}
+            <div className="flex-1 min-w-[12rem]">
+              <label className="block text-xs font-medium text-slate-600 dark:text-slate-400 mb-1">割り当て</label>
+              <select
+                value={selectedProfile?.name ?? ''}
+                onChange={e => handleSelectProfile(e.target.value)}
+                className={selectClass}
+              >
+                {!selectedProfile && <option value="">{CUSTOM_PROFILE_NAME}</option>}
+                {allProfiles.map(profile => <option key={profile.name} value={profile.name}>{profile.name}</option>)}
+              </select>
+            </div>
+            {isSavedProfile && (
+              <button
+                type="button"
+                onClick={handleDeleteProfile}
+                className="px-3 py-1.5 text-sm rounded-md text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-900/30 transition-colors"
+              >
+                削除
+              </button>
+            )}
+            {encoding && onChangeEncoding && (
+              <div>
+                <label className="block text-xs font-medium text-slate-600 dark:text-slate-400 mb-1">文字コード</label>
+                <select
+                  value={encoding}
+                  onChange={e => onChangeEncoding(e.target.value as TextEncodingName)}
+                  className={selectClass}
+                >
+                  {(Object.keys(textEncodingLabels) as TextEncodingName[]).map(name => (
+                    <option key={name} value={name}>{textEncodingLabels[name]}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 pb-1.5">
+              <input
+                type="checkbox"
+                checked={mapping.hasHeader}
+                onChange={e => setMapping(prev => ({ ...prev, hasHeader: e.target.checked }))}
+              />
+              1行目は見出し
+            </label>
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {MAPPING_FIELDS.map(field => {
+              const required = REQUIRED_MAPPING_FIELDS.includes(field);
+              const value = mapping[field];
+              return (
+                <div key={field}>
+                  <label className="block text-xs font-medium text-slate-600 dark:text-slate-400 mb-1">
+                    {mergeFieldLabels[field]}{required && <span className="text-red-500"> *</span>}
+                  </label>
+                  <select
+                    value={value === null ? '' : value}
+                    onChange={e => setField(field, e.target.value === '' ? null : Number(e.target.value))}
+                    className={selectClass}
+                  >
+                    {!required && <option value="">（取り込まない）</option>}
+                    {value !== null && value >= columnCount && <option value={value}>{columnLabel(value)}列</option>}
+                    {columnOptions.map(option => <option key={option.index} value={option.index}>{option.label}</option>)}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300">追加の列（備考に追記）</h3>
+              <button
+                type="button"
+                onClick={() => setMapping(prev => ({
+                  ...prev,
+                  extras: [...prev.extras, { label: '', column: 0 }],
+                }))}
+                className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                ＋ 列を追加
+              </button>
+            </div>
+            {mapping.extras.length === 0 ? (
+              <p className="text-xs text-slate-400">サークル名などの項目以外に取り込みたい列があれば追加してください。</p>
+            ) : (
+              <ul className="space-y-2">
+                {mapping.extras.map((extra, index) => (
+                  <li key={index} className="flex gap-2 items-center">
+                    <input
+                      type="text"
+                      value={extra.label}
+                      onChange={e => setMapping(prev => ({
+                        ...prev,
+                        extras: prev.extras.map((x, i) => (i === index ? { ...x, label: e.target.value } : x)),
+                      }))}
+                      placeholder="見出し"
+                      className="flex-1 p-1.5 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-900"
+                    />
+                    <select
+                      value={extra.column}
+                      onChange={e => {
+                        const column = Number(e.target.value);
+                        const header = mapping.hasHeader ? rows[0]?.[column]?.trim() || '' : '';
+                        setMapping(prev => ({
+                          ...prev,
+                          extras: prev.extras.map((x, i) => (i === index ? { label: x.label || header, column } : x)),
+                        }));
+                      }}
+                      className={`${selectClass} flex-1`}
+                    >
+                      {columnOptions.map(option => <option key={option.index} value={option.index}>{option.label}</option>)}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => setMapping(prev => ({ ...prev, extras: prev.extras.filter((_, i) => i !== index) }))}
+                      className="px-2 text-slate-400 hover:text-red-600 dark:hover:text-red-400"
+                      title="削除"
+                    >
+                      ×
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-1">
+              プレビュー（{items.length}件を取り込みます）
+            </h3>
+            <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-md">
+              <table className="min-w-full text-xs">
+                <thead className="bg-slate-50 dark:bg-slate-900/50 text-slate-500 dark:text-slate-400">
+                  <tr>
+                    {MAPPING_FIELDS.map(field => <th key={field} className="px-2 py-1 text-left font-medium whitespace-nowrap">{mergeFieldLabels[field]}</th>)}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-200 dark:divide-slate-700 text-slate-700 dark:text-slate-300">
+                  {items.slice(0, PREVIEW_ROWS).map((item, index) => (
+                    <tr key={index}>
+                      {MAPPING_FIELDS.map(field => <td key={field} className="px-2 py-1 whitespace-nowrap max-w-[10rem] truncate">{String(item[field])}</td>)}
+                    </tr>
+                  ))}
+                  {items.length === 0 && (
+                    <tr>
+                      <td colSpan={MAPPING_FIELDS.length} className="px-2 py-4 text-center text-slate-400">
+                        取り込める行がありません。列の割り当てを確認してください。
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="flex gap-2 items-center">
+            <input
+              type="text"
+              value={newProfileName}
+              onChange={e => setNewProfileName(e.target.value)}
+              placeholder="この割り当てに名前を付けて保存"
+              className="flex-1 p-1.5 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <button
+              type="button"
+              onClick={handleSaveProfile}
+              className="px-3 py-1.5 text-sm font-medium rounded-md text-slate-700 bg-slate-200 hover:bg-slate-300 dark:text-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 transition-colors"
+            >
+              保存
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-200 dark:border-slate-700 flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium rounded-md text-slate-700 bg-slate-200 hover:bg-slate-300 dark:text-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 transition-colors"
+          >
+            キャンセル
+          </button>
+          <button
+            type="button"
+            onClick={() => onConfirm({ name: selectedProfile?.name ?? CUSTOM_PROFILE_NAME, mapping })}
+            disabled={items.length === 0}
+            className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 disabled:cursor-not-allowed transition-colors"
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingEditor;
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { QuarantinedRecord } from '../types';
+
+interface DataRecoveryScreenProps {
+  records: QuarantinedRecord[];
+  onRestore: (record: QuarantinedRecord, editedRecord: unknown) => string[] | null;
+  onDiscard: (record: QuarantinedRecord) => void;
+  onClose: () => void;
+}
+
+const RecoveryRecordCard: React.FC<{
+  record: QuarantinedRecord;
+  onRestore: DataRecoveryScreenProps['onRestore'];
+  onDiscard: DataRecoveryScreenProps['onDiscard'];
+}> = ({ record, onRestore, onDiscard }) => {
+  const [json, setJson] = useState(() => JSON.stringify(record.record, null, 2));
+  const [errors, setErrors] = useState<string[]>(record.errors);
+
+  const handleRestore = () => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      setErrors(['JSONとして読み込めません。括弧や引用符を確認してください。']);
+      return;
+    }
+    const restoreErrors = onRestore(record, parsed);
+    if (restoreErrors) {
+      setErrors(restoreErrors);
+    }
+  };
+
+  const handleDiscard = () => {
+    if (window.confirm('このデータを破棄しますか？この操作は元に戻せません。')) {
+      onDiscard(record);
+    }
+  };
+
+  return (
+    <li className="p-4 space-y-3">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <span className="font-medium text-slate-800 dark:text-slate-200">
+          {record.kind === 'event' ? 'イベント情報' : 'アイテム'}: {record.eventName || '(不明な即売会)'}
+        </span>
+        <span className="text-xs text-slate-400">{new Date(record.quarantinedAt).toLocaleString('ja-JP')}</span>
+      </div>
+      <ul className="text-sm text-red-600 dark:text-red-400 list-disc list-inside">
+        {errors.map((error, index) => <li key={index}>{error}</li>)}
+      </ul>
+      <textarea
+        value={json}
+        onChange={e => setJson(e.target.value)}
+        className="w-full p-2 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 h-40 resize-y font-mono text-xs"
+        spellCheck={false}
+      />
+      <div className="flex justify-end space-x-3">
+        <button
+          onClick={handleDiscard}
+          className="px-4 py-2 text-sm font-medium rounded-md text-red-600 bg-red-50 hover:bg-red-100 dark:text-red-400 dark:bg-red-900/30 dark:hover:bg-red-900/50 transition-colors"
+        >
+          破棄
+        </button>
+        <button
+          onClick={handleRestore}
+          className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 transition-colors"
+        >
+          修正して復元
+        </button>
+      </div>
+    </li>
+  );
+};
+
+const DataRecoveryScreen: React.FC<DataRecoveryScreenProps> = ({ records, onRestore, onDiscard, onClose }) => {
+  const handleDownload = () => {
+    const blob = new Blob([JSON.stringify(records, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', 'recovery-data.json');
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-slate-900 dark:text-white">読み込めなかったデータ</h2>
+        <div className="flex gap-2">
+          {records.length > 0 && (
+            <button
+              onClick={handleDownload}
+              className="px-3 py-1.5 text-sm font-medium rounded-md text-blue-600 bg-blue-100 hover:bg-blue-200 dark:text-blue-300 dark:bg-blue-900/50 dark:hover:bg-blue-900 transition-colors"
+            >
+              JSONでダウンロード
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm font-medium rounded-md text-slate-700 bg-slate-200 hover:bg-slate-300 dark:text-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 transition-colors"
+          >
+            戻る
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-slate-600 dark:text-slate-400">
+        以下のデータは形式が正しくないため、リストから外して保管しています。内容を修正して復元するか、不要であれば破棄してください。
+      </p>
+      {records.length === 0 ? (
+        <p className="text-center text-slate-500 dark:text-slate-400 py-12">読み込めなかったデータはありません。</p>
+      ) : (
+        <div className="bg-white dark:bg-slate-800 rounded-lg shadow overflow-hidden">
+          <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+            {records.map(record => (
+              <RecoveryRecordCard key={record.id} record={record} onRestore={onRestore} onDiscard={onDiscard} />
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataRecoveryScreen;
@@ -14,7 +14,7 @@ const DeleteConfirmationModal: React.FC<DeleteConfirmationModalProps> = ({ item,
       <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl p-6 w-full max-w-md" onClick={(e) => e.stopPropagation()}>
         <h3 id="delete-modal-title" className="text-lg font-bold text-slate-900 dark:text-white">アイテムを削除</h3>
         <p className="mt-2 text-sm text-slate-600 dark:text-slate-400">
-          以下のアイテムをリストから完全に削除します。この操作は元に戻せません。よろしいですか？
+          以下のアイテムをリストから完全に削除します。削除後は「元に戻す」で取り消せます。よろしいですか？
         </p>
         <div className="mt-4 p-4 bg-slate-100 dark:bg-slate-700/50 rounded-md space-y-2 text-sm text-slate-800 dark:text-slate-200">
           <div><span className="font-semibold text-slate-500 dark:text-slate-400">サークル:</span> {item.circle}</div>
@@ -24,10 +24,17 @@ interface EventListScreenProps {
   onExport: (name: string) => void;
   onUpdate?: (name: string) => void;
   onRename?: (oldName: string) => void;
+  onShowSnapshots?: (name: string) => void;
+  deletedEventNames?: string[]; // スナップショットだけが残っている削除済みの即売会
+  onShowChangeLog?: (name: string) => void;
+  onEditVenueLayout?: (name: string) => void;
+  onBackup?: () => void;
+  onRestoreBackup?: (file: File) => void;
 }
 
-const EventListScreen: React.FC<EventListScreenProps> = ({ eventNames, onSelect, onDelete, onExport, onUpdate, onRename }) => {
+const EventListScreen: React.FC<EventListScreenProps> = ({ eventNames, onSelect, onDelete, onExport, onUpdate, onRename, onShowSnapshots, deletedEventNames = [], onShowChangeLog, onEditVenueLayout, onBackup, onRestoreBackup }) => {
   const longPressTimeout = useRef<number | null>(null);
+  const backupFileInputRef = useRef<HTMLInputElement>(null);
   const [menuVisibleFor, setMenuVisibleFor] = useState<string | null>(null);
 
   const handlePointerDown = (eventName: string) => {
@@ -56,7 +63,10 @@ const EventListScreen: React.FC<EventListScreenProps> = ({ eventNames, onSelect,
   };
   
   const handleDelete = (eventName: string) => {
-    if(window.confirm(`「${eventName}」を削除しますか？この操作は元に戻せません。`)){
+    const message = onShowSnapshots
+      ? `「${eventName}」を削除しますか？削除前の状態はスナップショットから復元できます。`
+      : `「${eventName}」を削除しますか？この操作は元に戻せません。`;
+    if(window.confirm(message)){
         onDelete(eventName);
         setMenuVisibleFor(null);
     }
@@ -76,18 +86,85 @@ const EventListScreen: React.FC<EventListScreenProps> = ({ eventNames, onSelect,
   }, [menuVisibleFor]);
 
 
+  const handleBackupFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file && onRestoreBackup) {
+      onRestoreBackup(file);
+    }
+    // 同じファイルを続けて選択できるようにする
+    e.target.value = '';
+  };
+
+  const backupControls = (onBackup || onRestoreBackup) && (
+    <div className="flex gap-2">
+      {onBackup && eventNames.length > 0 && (
+        <button
+          onClick={onBackup}
+          className="px-3 py-1.5 text-sm font-medium rounded-md text-blue-600 bg-blue-100 hover:bg-blue-200 dark:text-blue-300 dark:bg-blue-900/50 dark:hover:bg-blue-900 transition-colors"
+        >
+          バックアップを保存
+        </button>
+      )}
+      {onRestoreBackup && (
+        <>
+          <button
+            onClick={() => backupFileInputRef.current?.click()}
+            className="px-3 py-1.5 text-sm font-medium rounded-md text-slate-700 bg-slate-200 hover:bg-slate-300 dark:text-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 transition-colors"
+          >
+            バックアップから復元
+          </button>
+          <input
+            type="file"
+            ref={backupFileInputRef}
+            accept=".json,application/json"
+            onChange={handleBackupFileChange}
+            className="hidden"
+          />
+        </>
+      )}
+    </div>
+  );
+
+  const deletedEventsSection = onShowSnapshots && deletedEventNames.length > 0 && (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400">削除した即売会</h3>
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow overflow-hidden">
+        <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+          {deletedEventNames.map(name => (
+            <li key={name} className="p-4 flex justify-between items-center">
+              <span className="text-slate-500 dark:text-slate-400">{name}</span>
+              <button
+                onClick={() => onShowSnapshots(name)}
+                className="px-3 py-1.5 text-sm font-medium rounded-md text-blue-600 bg-blue-100 hover:bg-blue-200 dark:text-blue-300 dark:bg-blue-900/50 dark:hover:bg-blue-900 transition-colors"
+              >
+                🕘 スナップショット
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+
   if (eventNames.length === 0) {
     return (
-      <div className="text-center py-12 animate-fade-in">
-        <h2 className="text-xl font-semibold text-slate-800 dark:text-slate-200 mb-2">保存されたリストはありません</h2>
-        <p className="text-slate-500 dark:text-slate-400">「新規リスト作成」から新しいイベントの巡回表を作成してください。</p>
+      <div className="space-y-4 animate-fade-in">
+        <div className="text-center py-12">
+          <h2 className="text-xl font-semibold text-slate-800 dark:text-slate-200 mb-2">保存されたリストはありません</h2>
+          <p className="text-slate-500 dark:text-slate-400">「新規リスト作成」から新しいイベントの巡回表を作成してください。</p>
+          {backupControls && <div className="flex justify-center mt-4">{backupControls}</div>}
+        </div>
+        {deletedEventsSection}
       </div>
     );
   }
 
   return (
     <div className="space-y-4 animate-fade-in">
-      <h2 className="text-lg font-semibold text-slate-900 dark:text-white">保存済みの即売会リスト</h2>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-slate-900 dark:text-white">保存済みの即売会リスト</h2>
+        {backupControls}
+      </div>
       <div className="bg-white dark:bg-slate-800 rounded-lg shadow overflow-hidden">
         <ul className="divide-y divide-slate-200 dark:divide-slate-700">
           {eventNames.map(name => (
@@ -122,6 +199,30 @@ const EventListScreen: React.FC<EventListScreenProps> = ({ eventNames, onSelect,
                           <span>✏️ 名称変更</span>
                       </button>
                     )}
+                    {onShowSnapshots && (
+                      <button 
+                          onClick={(e) => { e.stopPropagation(); onShowSnapshots(name); setMenuVisibleFor(null); }}
+                          className={`flex items-center space-x-2 px-4 py-2 text-sm text-amber-600 dark:text-amber-400 hover:bg-amber-50 dark:hover:bg-amber-900/50 transition-colors ${onUpdate || onRename ? '' : 'rounded-l-md'}`}
+                      >
+                          <span>🕘 スナップショット</span>
+                      </button>
+                    )}
+                    {onShowChangeLog && (
+                      <button 
+                          onClick={(e) => { e.stopPropagation(); onShowChangeLog(name); setMenuVisibleFor(null); }}
+                          className={`flex items-center space-x-2 px-4 py-2 text-sm text-teal-600 dark:text-teal-400 hover:bg-teal-50 dark:hover:bg-teal-900/50 transition-colors ${onUpdate || onRename || onShowSnapshots ? '' : 'rounded-l-md'}`}
+                      >
+                          <span>📝 変更履歴</span>
+                      </button>
+                    )}
+                    {onEditVenueLayout && (
+                      <button 
+                          onClick={(e) => { e.stopPropagation(); onEditVenueLayout(name); setMenuVisibleFor(null); }}
+                          className={`flex items-center space-x-2 px-4 py-2 text-sm text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/50 transition-colors ${onUpdate || onRename || onShowSnapshots || onShowChangeLog ? '' : 'rounded-l-md'}`}
+                      >
+                          <span>🗺️ 会場図</span>
+                      </button>
+                    )}
                     <button 
                         onClick={(e) => { e.stopPropagation(); onExport(name); setMenuVisibleFor(null); }}
                         className="flex items-center space-x-2 px-4 py-2 text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/50 transition-colors"
@@ -142,6 +243,7 @@ const EventListScreen: React.FC<EventListScreenProps> = ({ eventNames, onSelect,
           ))}
         </ul>
       </div>
+      {deletedEventsSection}
     </div>
   );
 };
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { ExportFormat } from '../types';
+
+interface ExportDialogProps {
+  eventName: string;
+  onExport: (format: ExportFormat) => void;
+  onCancel: () => void;
+}
+
+const formatOptions: Array<{ format: ExportFormat; label: string; description: string }> = [
+  {
+    format: 'xlsx',
+    label: 'Excelブック（.xlsx）',
+    description: '参加日ごとのシートに、実行列・候補リストの順で出力します。購入状態はセルの選択肢から選べます。このアプリに読み込み直すこともできます。',
+  },
+  {
+    format: 'csv-utf8',
+    label: 'CSV（UTF-8・BOM付き）',
+    description: '全ての文字をそのまま出力します。Googleスプレッドシートや最近のExcelで開く場合、このアプリに読み込み直す場合はこちら。',
+  },
+  {
+    format: 'csv-shift_jis',
+    label: 'CSV（Shift_JIS）',
+    description: '古いExcelなどUTF-8のCSVが文字化けする環境向けです。絵文字などShift_JISで表せない文字は「?」になります。',
+  },
+];
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ eventName, onExport, onCancel }) => {
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl max-w-lg w-full mx-4">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-xl font-bold text-slate-900 dark:text-white">リストを出力</h2>
+          <p className="text-sm text-blue-600 dark:text-blue-400 font-semibold mt-1">{eventName}</p>
+        </div>
+
+        <div className="p-6 space-y-3">
+          {formatOptions.map(option => (
+            <label
+              key={option.format}
+              className={`flex items-start gap-3 p-3 rounded-md border cursor-pointer transition-colors ${
+                format === option.format
+                  ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30'
+                  : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50'
+              }`}
+            >
+              <input
+                type="radio"
+                name="exportFormat"
+                checked={format === option.format}
+                onChange={() => setFormat(option.format)}
+                className="mt-1"
+              />
+              <span>
+                <span className="block font-medium text-slate-800 dark:text-slate-200">{option.label}</span>
+                <span className="block text-xs text-slate-500 dark:text-slate-400 mt-1">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 dark:border-slate-700 flex justify-end space-x-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium rounded-md text-slate-700 bg-slate-200 hover:bg-slate-300 dark:text-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 transition-colors"
+          >
+            キャンセル
+          </button>
+          <button
+            onClick={() => onExport(format)}
+            className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 transition-colors"
+          >
+            出力
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
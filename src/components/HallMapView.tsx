@@ -0,0 +1,191 @@
+import React, { useMemo, useState } from 'react';
+import { PurchaseStatus, PurchaseStatuses, ShoppingItem, VenueLayout } from '../types';
+import { RoutePoint, locateItem } from '../utils/route';
+import PurchaseStatusToggle, { statusConfig } from './PurchaseStatusToggle';
+
+interface HallMapViewProps {
+  eventDate: string;
+  items: ShoppingItem[]; // 実行列のアイテム（巡回順）
+  layout: VenueLayout;
+  isEstimatedLayout: boolean; // 会場図がなく、リストのブロックから推定した配置を使う
+  zoomLevel: number;
+  onUpdateItem: (item: ShoppingItem) => void;
+}
+
+// 購入状態ごとのマーカーの色
+const markerColors: Record<PurchaseStatus, string> = {
+  None: 'fill-white stroke-slate-500 dark:fill-slate-800 dark:stroke-slate-300',
+  Purchased: 'fill-green-500 stroke-green-700',
+  SoldOut: 'fill-red-500 stroke-red-700',
+  Absent: 'fill-yellow-400 stroke-yellow-600',
+  Postpone: 'fill-purple-500 stroke-purple-700',
+  Late: 'fill-blue-500 stroke-blue-700',
+};
+
+// 地図の余白とマーカーの大きさ（会場図の単位＝メートル）
+const MAP_MARGIN = 2;
+const MARKER_RADIUS = 0.9;
+
+const HallMapView: React.FC<HallMapViewProps> = ({
+  eventDate,
+  items,
+  layout,
+  isEstimatedLayout,
+  zoomLevel,
+  onUpdateItem,
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const bounds = useMemo(() => {
+    if (layout.halls.length === 0) return null;
+    const minX = Math.min(...layout.halls.map(hall => hall.x));
+    const minY = Math.min(...layout.halls.map(hall => hall.y));
+    const maxX = Math.max(...layout.halls.map(hall => hall.x + hall.width));
+    const maxY = Math.max(...layout.halls.map(hall => hall.y + hall.height));
+    return { x: minX - MAP_MARGIN, y: minY - MAP_MARGIN, width: maxX - minX + MAP_MARGIN * 2, height: maxY - minY + MAP_MARGIN * 2 };
+  }, [layout]);
+
+  // 巡回順のマーカー。同じスペースのアイテムは少しずらして重ならないようにする
+  const markers = useMemo(() => {
+    const counts = new Map<string, number>();
+    const result: Array<{ item: ShoppingItem; order: number; point: RoutePoint }> = [];
+    items.forEach((item, index) => {
+      const point = locateItem(layout, item);
+      if (!point) return;
+      const key = `${point.x},${point.y}`;
+      const count = counts.get(key) ?? 0;
+      counts.set(key, count + 1);
+      result.push({ item, order: index + 1, point: { x: point.x + count * MARKER_RADIUS, y: point.y } });
+    });
+    return result;
+  }, [items, layout]);
+
+  const unlocatedCount = items.length - markers.length;
+  const selectedItem = items.find(item => item.id === selectedId);
+
+  if (!bounds) {
+    return (
+      <p className="text-center text-slate-500 dark:text-slate-400 py-8">会場図にホールがありません。即売会リスト画面の「🗺️ 会場図」で設定してください。</p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-slate-600 dark:text-slate-400">
+        <span className="font-semibold text-slate-800 dark:text-slate-200">{eventDate}の巡回ルート（{markers.length}件）</span>
+        {PurchaseStatuses.map(status => (
+          <span key={status} className="flex items-center gap-1">
+            <svg viewBox="0 0 2 2" className="w-3 h-3"><circle cx={1} cy={1} r={0.8} strokeWidth={0.2} className={markerColors[status]} /></svg>
+            {statusConfig[status].label}
+          </span>
+        ))}
+      </div>
+      {isEstimatedLayout && (
+        <p className="text-xs text-amber-600 dark:text-amber-400">会場図が設定されていないため、ブロックの並び順から推定した配置で表示しています。</p>
+      )}
+      {unlocatedCount > 0 && (
+        <p className="text-xs text-amber-600 dark:text-amber-400">会場図にないブロックの{unlocatedCount}件は地図に表示されません。</p>
+      )}
+
+      <div className="overflow-auto bg-white dark:bg-slate-800 rounded-lg shadow">
+        <svg
+          viewBox={`${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}`}
+          style={{ width: `${zoomLevel}%`, minWidth: '100%' }}
+          className="block select-none"
+          onClick={() => setSelectedId(null)}
+        >
+          {layout.halls.map(hall => (
+            <g key={hall.name}>
+              <rect x={hall.x} y={hall.y} width={hall.width} height={hall.height} strokeWidth={0.2} className="fill-slate-50 stroke-slate-300 dark:fill-slate-900 dark:stroke-slate-600" />
+              <text x={hall.x + 0.5} y={hall.y + 1.8} fontSize={1.6} className="fill-slate-500 dark:fill-slate-400">{hall.name}</text>
+              {hall.blocks.map(block => (
+                <g key={block.name}>
+                  <rect
+                    x={block.x}
+                    y={block.y}
+                    width={block.width}
+                    height={block.height}
+                    strokeWidth={0.1}
+                    className={block.kind === 'wall'
+                      ? 'fill-slate-300 stroke-slate-400 dark:fill-slate-600 dark:stroke-slate-500'
+                      : 'fill-slate-200 stroke-slate-400 dark:fill-slate-700 dark:stroke-slate-500'}
+                  />
+                  <text
+                    x={block.x + block.width / 2}
+                    y={block.y + block.height / 2}
+                    fontSize={Math.min(2, Math.min(block.width, block.height) * 0.6)}
+                    textAnchor="middle"
+                    dominantBaseline="central"
+                    className="fill-slate-600 dark:fill-slate-300"
+                  >
+                    {block.name}
+                  </text>
+                </g>
+              ))}
+            </g>
+          ))}
+
+          {markers.length >= 2 && (
+            <polyline
+              points={markers.map(({ point }) => `${point.x},${point.y}`).join(' ')}
+              fill="none"
+              strokeWidth={0.3}
+              strokeLinejoin="round"
+              strokeDasharray="0.8 0.4"
+              className="stroke-blue-500/70"
+            />
+          )}
+
+          {markers.map(({ item, order, point }) => (
+            <g
+              key={item.id}
+              onClick={e => { e.stopPropagation(); setSelectedId(item.id); }}
+              className="cursor-pointer"
+            >
+              <circle
+                cx={point.x}
+                cy={point.y}
+                r={MARKER_RADIUS}
+                strokeWidth={item.id === selectedId ? 0.4 : 0.15}
+                className={markerColors[item.purchaseStatus]}
+              />
+              <text
+                x={point.x}
+                y={point.y}
+                fontSize={order >= 100 ? 0.7 : 0.9}
+                textAnchor="middle"
+                dominantBaseline="central"
+                className={item.purchaseStatus === 'None' ? 'fill-slate-800 dark:fill-slate-100' : 'fill-white'}
+              >
+                {order}
+              </text>
+            </g>
+          ))}
+        </svg>
+      </div>
+
+      {selectedItem && (
+        <div className="fixed bottom-24 left-1/2 -translate-x-1/2 z-30 w-[calc(100%-2rem)] max-w-md bg-white dark:bg-slate-800 rounded-lg shadow-xl border border-slate-200 dark:border-slate-700 p-4 flex items-center gap-4">
+          <div className="flex-1 min-w-0">
+            <p className="font-bold text-slate-900 dark:text-slate-100">{`${selectedItem.block}-${selectedItem.number}`}</p>
+            <p className="text-sm text-slate-600 dark:text-slate-300 truncate" title={selectedItem.circle}>{selectedItem.circle}</p>
+            <p className="text-xs text-slate-500 dark:text-slate-400 truncate" title={selectedItem.title}>{selectedItem.title || '（タイトルなし）'}</p>
+          </div>
+          <PurchaseStatusToggle
+            status={selectedItem.purchaseStatus}
+            onChange={purchaseStatus => onUpdateItem({ ...selectedItem, purchaseStatus })}
+          />
+          <button
+            onClick={() => setSelectedId(null)}
+            className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200"
+            aria-label="閉じる"
+          >
+            ✕
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HallMapView;
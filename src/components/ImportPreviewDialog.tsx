@@ -0,0 +1,173 @@
+import React, { useMemo, useState } from 'react';
+import { ShoppingItem } from '../types';
+import { MappingField } from '../utils/columnMapping';
+import { ImportDraftRow, ImportReport, analyzeImportRows } from '../utils/importReport';
+import { mergeFieldLabels } from '../utils/sheetMerge';
+
+interface ImportPreviewDialogProps {
+  eventName: string;
+  initialRows: ImportDraftRow[];
+  existingItems: ShoppingItem[]; // 取り込み先のリストに既にあるアイテム
+  onConfirm: (report: ImportReport) => void;
+  onBack: () => void; // 列の割り当てに戻る
+  backLabel?: string;
+  onCancel: () => void;
+}
+
+// 表で直接修正できる項目（備考は一覧が横に長くなるため対象外）
+const EDITABLE_FIELDS: MappingField[] = ['circle', 'eventDate', 'block', 'number', 'title', 'price'];
+
+const ImportPreviewDialog: React.FC<ImportPreviewDialogProps> = ({
+  eventName,
+  initialRows,
+  existingItems,
+  onConfirm,
+  onBack,
+  backLabel = '← 列の割り当てに戻る',
+  onCancel,
+}) => {
+  const [rows, setRows] = useState<ImportDraftRow[]>(initialRows);
+  const report = useMemo(() => analyzeImportRows(rows, existingItems), [rows, existingItems]);
+  const [showAll, setShowAll] = useState(() => report.rows.every(row => row.issues.length === 0));
+  // 修正して問題がなくなった行も、入力中に一覧から消えないよう最初に問題があった行は表示し続ける
+  const [initiallyFlaggedIds] = useState(() => new Set(report.rows.filter(row => row.issues.length > 0).map(row => row.row.id)));
+
+  const visibleRows = showAll
+    ? report.rows
+    : report.rows.filter(row => row.issues.length > 0 || row.row.excluded || initiallyFlaggedIds.has(row.row.id));
+
+  const updateRow = (id: number, changes: Partial<ImportDraftRow>) => {
+    setRows(prev => prev.map(row => (row.id === id ? { ...row, ...changes } : row)));
+  };
+
+  const updateValue = (row: ImportDraftRow, field: MappingField, value: string) => {
+    updateRow(row.id, { values: { ...row.values, [field]: value } });
+  };
+
+  const inputClass = "w-full min-w-[5rem] p-1 text-xs border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-900";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl max-w-5xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-xl font-bold text-slate-900 dark:text-white">取り込み内容の確認</h2>
+          <p className="text-sm text-blue-600 dark:text-blue-400 font-semibold mt-1">{eventName}</p>
+          <div className="flex flex-wrap gap-2 mt-3 text-xs">
+            <span className="px-2 py-1 rounded-full bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300">取り込む {report.acceptedCount}件</span>
+            {report.warningCount > 0 && (
+              <span className="px-2 py-1 rounded-full bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300">要確認 {report.warningCount}件</span>
+            )}
+            {report.skippedCount > 0 && (
+              <span className="px-2 py-1 rounded-full bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300">取り込めない {report.skippedCount}件</span>
+            )}
+            {report.excludedCount > 0 && (
+              <span className="px-2 py-1 rounded-full bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-300">除外 {report.excludedCount}件</span>
+            )}
+          </div>
+          {report.eventDates.length > 0 && (
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+              参加日:{' '}
+              {report.eventDates.map(({ eventDate, count, isNew }, index) => (
+                <span key={eventDate} className={isNew ? 'text-yellow-700 dark:text-yellow-300 font-semibold' : ''}>
+                  {index > 0 && '、'}{eventDate}（{count}件{isNew && '・取り込み先にない参加日のため新しいタブになります'}）
+                </span>
+              ))}
+            </p>
+          )}
+        </div>
+
+        <div className="px-6 pt-3 flex items-center gap-4 text-sm">
+          <label className="flex items-center gap-1 text-slate-700 dark:text-slate-300">
+            <input type="radio" checked={!showAll} onChange={() => setShowAll(false)} />
+            要確認・取り込めない行のみ
+          </label>
+          <label className="flex items-center gap-1 text-slate-700 dark:text-slate-300">
+            <input type="radio" checked={showAll} onChange={() => setShowAll(true)} />
+            すべての行
+          </label>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 pt-3">
+          {visibleRows.length === 0 ? (
+            <p className="text-center text-slate-500 dark:text-slate-400 py-12">確認が必要な行はありません。</p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-slate-500 dark:text-slate-400">
+                  <th className="p-1 font-medium whitespace-nowrap">位置</th>
+                  <th className="p-1 font-medium whitespace-nowrap">取り込む</th>
+                  {EDITABLE_FIELDS.map(field => (
+                    <th key={field} className="p-1 font-medium whitespace-nowrap">{mergeFieldLabels[field]}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {visibleRows.map(({ row, issues, skipped }) => (
+                  <React.Fragment key={row.id}>
+                    <tr className={`border-t border-slate-200 dark:border-slate-700 ${skipped ? 'bg-red-50 dark:bg-red-900/20' : row.excluded ? 'opacity-50' : issues.length > 0 ? 'bg-yellow-50 dark:bg-yellow-900/20' : ''}`}>
+                      <td className="p-1 whitespace-nowrap text-slate-500 dark:text-slate-400">{row.label}</td>
+                      <td className="p-1 text-center">
+                        <input
+                          type="checkbox"
+                          checked={!skipped && !row.excluded}
+                          disabled={skipped}
+                          onChange={e => updateRow(row.id, { excluded: !e.target.checked })}
+                        />
+                      </td>
+                      {EDITABLE_FIELDS.map(field => (
+                        <td key={field} className="p-1">
+                          <input
+                            type="text"
+                            value={row.values[field]}
+                            onChange={e => updateValue(row, field, e.target.value)}
+                            className={inputClass}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                    {issues.length > 0 && (
+                      <tr className={skipped ? 'bg-red-50 dark:bg-red-900/20' : row.excluded ? 'opacity-50' : 'bg-yellow-50 dark:bg-yellow-900/20'}>
+                        <td />
+                        <td colSpan={EDITABLE_FIELDS.length + 1} className="px-1 pb-2">
+                          <ul className={skipped ? 'text-red-700 dark:text-red-300' : 'text-yellow-800 dark:text-yellow-200'}>
+                            {issues.map((issue, index) => <li key={index}>・{issue.message}</li>)}
+                          </ul>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 dark:border-slate-700 flex justify-between">
+          <button
+            onClick={onBack}
+            className="px-4 py-2 text-sm font-medium rounded-md text-slate-700 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-700 transition-colors"
+          >
+            {backLabel}
+          </button>
+          <div className="flex space-x-3">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 text-sm font-medium rounded-md text-slate-700 bg-slate-200 hover:bg-slate-300 dark:text-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 transition-colors"
+            >
+              キャンセル
+            </button>
+            <button
+              onClick={() => onConfirm(report)}
+              disabled={report.acceptedCount === 0}
+              className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 disabled:cursor-not-allowed transition-colors"
+            >
+              {report.acceptedCount}件をインポート
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPreviewDialog;
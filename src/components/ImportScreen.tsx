@@ -1,17 +1,96 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { ShoppingItem } from '../types';
-import { getItemKey } from '../utils/itemComparison';
+import { CatalogImportOptions, ColumnMapping, ColumnMappingProfile, ImportSource, ImportedItemValues, ShoppingItem, TextEncodingName, UrlImportSource } from '../types';
+import { CsvParseResult, parseCsv, parseCsvStream, toCellRows } from '../utils/csv';
+import { describeImportSource, fetchSourceCsv, fromSourceMetadata, parseGoogleSheetsGid, toUrlImportSource } from '../utils/importSource';
+import {
+  BUILTIN_MAPPING_PROFILES,
+  EXPORT_COLUMN_MAPPING,
+  SHEET_COLUMN_MAPPING,
+  combineExportedSheets,
+  isExportedRows,
+  readMappedRow,
+  missingRequiredFields,
+  listPasteLayouts,
+  suggestColumnMapping,
+} from '../utils/columnMapping';
+import { parseHtmlTable } from '../utils/htmlTable';
+import { textEncodingLabels } from '../utils/encoding';
+import { currentSourceText, normalizeItemValues, parsePrice } from '../utils/normalize';
+import { XlsxSheet, readXlsx } from '../utils/xlsx';
+import { ImportDraftRow, ImportLayoutInfo, ImportReport, collectImportItems } from '../utils/importReport';
+import { CatalogFavorites, defaultCatalogImportOptions, isCatalogCsv, parseCatalogFavorites, toCatalogDraftRows, toCatalogListName } from '../utils/catalogCsv';
+import CatalogImportDialog from './CatalogImportDialog';
+import ColumnMappingEditor from './ColumnMappingEditor';
+import ImportPreviewDialog from './ImportPreviewDialog';
+import PastePreviewDialog from './PastePreviewDialog';
 
 interface ImportScreenProps {
-  onBulkAdd: (eventName: string, items: Omit<ShoppingItem, 'id' | 'purchaseStatus'>[], metadata?: { url?: string; sheetName?: string, layoutInfo?: Array<{ itemKey: string, eventDate: string, columnType: 'execute' | 'candidate', order: number }> }) => void;
+  onBulkAdd: (eventName: string, items: Omit<ShoppingItem, 'id' | 'purchaseStatus'>[], metadata?: { source?: ImportSource, columnMapping?: ColumnMappingProfile, catalogImport?: CatalogImportOptions, layoutInfo?: Array<{ itemKey: string, eventDate: string, columnType: 'execute' | 'candidate', order: number }> }) => void;
   activeEventName: string | null;
   itemToEdit: ShoppingItem | null;
   onUpdateItem: (item: ShoppingItem) => void;
   onDoneEditing: () => void;
   availableEventDates?: string[]; // 既存イベントの参加日リスト
+  eventLists?: Record<string, ShoppingItem[]>; // 取り込み先のリストとの重複・参加日の確認に使用
+  mappingProfiles?: ColumnMappingProfile[]; // 保存済みの列の割り当て
+  onSaveMappingProfile?: (profile: ColumnMappingProfile) => void;
+  onDeleteMappingProfile?: (name: string) => void;
+  sheetNameSuggestions?: string[]; // 他のリストの取り込みで使ったシート名（入力候補）
+  incomingFile?: File | null; // ドロップ・「このアプリで開く」・共有で受け取った、取り込むファイル
+  onIncomingFileHandled?: () => void;
 }
 
-const ImportScreen: React.FC<ImportScreenProps> = ({ onBulkAdd, activeEventName, itemToEdit, onUpdateItem, onDoneEditing, availableEventDates = [] }) => {
+// 列の割り当てを確認してから取り込むデータ
+interface PendingImport {
+  rows: string[][];
+  rowLabels: string[]; // 各行の取り込み元での位置（「12行目」など）
+  warnings: string[]; // CSVとして読み込めなかった箇所
+  initialMapping: ColumnMapping;
+  // origin: このアプリで出力したファイルに記録された取り込み元のURL（リストの取り込み元として引き継ぐ）
+  source:
+    | { type: 'url'; source: UrlImportSource }
+    | { type: 'file'; file: File; encoding: TextEncodingName; origin?: UrlImportSource }
+    | { type: 'xlsx'; file: File; sheets: XlsxSheet[]; sheetName: string; combined?: boolean; origin?: UrlImportSource }; // combined: 全シートをまとめた
+}
+
+// Googleスプレッドシート・Excelブックから取り込む場合に、最初に選ぶシート
+const DEFAULT_SHEET_NAME = '品目表';
+
+// Webカタログのお気に入りCSVの、取り込み設定を確認する前のデータ
+interface PendingCatalogImport {
+  fileName: string;
+  favorites: CatalogFavorites;
+  options: CatalogImportOptions;
+}
+
+// 取り込み内容の確認画面に表示するデータ
+type ImportReview =
+  | { type: 'mapping'; pending: PendingImport; profile: ColumnMappingProfile; rows: ImportDraftRow[] }
+  | ({ type: 'catalog'; rows: ImportDraftRow[] } & PendingCatalogImport);
+
+const NO_ITEMS: ShoppingItem[] = [];
+
+// メタデータ行（エクスポート時に取り込み元のURL・シート名・gidを記録した行）を取り除き、記録された取り込み元を取り出す
+const extractMetadataRows = (rows: string[][], rowLabels: string[]) => {
+  const values: Record<string, string> = {};
+  const dataIndexes = rows.map((_, index) => index).filter(index => {
+    const cells = rows[index];
+    if (!cells[0]?.startsWith('#METADATA')) return true;
+    if (cells[1]) {
+      values[cells[1]] = cells[2]?.trim() || '';
+    }
+    return false;
+  });
+  return {
+    rows: dataIndexes.map(index => rows[index]),
+    rowLabels: dataIndexes.map(index => rowLabels[index]),
+    origin: fromSourceMetadata(values),
+  };
+};
+
+const toLineLabels = (parsed: CsvParseResult) => parsed.rows.map(row => `${row.line}行目`);
+
+const ImportScreen: React.FC<ImportScreenProps> = ({ onBulkAdd, activeEventName, itemToEdit, onUpdateItem, onDoneEditing, availableEventDates = [], eventLists = {}, mappingProfiles = [], onSaveMappingProfile, onDeleteMappingProfile, sheetNameSuggestions = [], incomingFile = null, onIncomingFileHandled }) => {
   // State for bulk add (creating new list)
   const [eventName, setEventName] = useState('');
   const [circles, setCircles] = useState('');
@@ -22,7 +101,14 @@ const ImportScreen: React.FC<ImportScreenProps> = ({ onBulkAdd, activeEventName,
   const [prices, setPrices] = useState('');
   const [remarks, setRemarks] = useState('');
   const [spreadsheetUrl, setSpreadsheetUrl] = useState('');
+  const [spreadsheetSheetName, setSpreadsheetSheetName] = useState(DEFAULT_SHEET_NAME);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [importReview, setImportReview] = useState<ImportReview | null>(null);
+  const [pendingCatalog, setPendingCatalog] = useState<PendingCatalogImport | null>(null);
+  const [pasteProfileName, setPasteProfileName] = useState(BUILTIN_MAPPING_PROFILES[0].name);
+  const [pendingPaste, setPendingPaste] = useState<string[][] | null>(null);
+  const [fileEncoding, setFileEncoding] = useState<TextEncodingName | 'auto'>('auto');
 
   // State for single item add/edit
   const [singleCircle, setSingleCircle] = useState('');
@@ -48,208 +134,282 @@ const ImportScreen: React.FC<ImportScreenProps> = ({ onBulkAdd, activeEventName,
     }
   }, [itemToEdit, isEditing]);
 
+  // 貼り付けたデータを読む割り当て（見出し行がない場合に使う）
+  const pasteProfile = [...BUILTIN_MAPPING_PROFILES, ...mappingProfiles].find(p => p.name === pasteProfileName) || BUILTIN_MAPPING_PROFILES[0];
+
   const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    // ブラウザ・Excelからコピーした表はHTMLから、それ以外はタブ区切り（セル内の改行は引用符で囲まれる）として読む
+    const html = e.clipboardData.getData('text/html');
+    const rows = (html && parseHtmlTable(html)) || toCellRows(parseCsv(e.clipboardData.getData('text'), { delimiter: '\t' }));
+    // 1列だけの貼り付けは、通常どおりその欄に貼り付ける
+    if (rows.every(cells => cells.length <= 1)) return;
     e.preventDefault();
-    const pasteData = e.clipboardData.getData('text');
-    const rows = pasteData.split('\n').filter(row => row.trim() !== '');
+    setPendingPaste(rows);
+  };
 
-    const cols: { [key: string]: string[] } = {
-        circles: [], eventDates: [], blocks: [], numbers: [], titles: [], prices: [],
-    };
+  // 貼り付けたデータを確認画面で選んだ読み方で読み、各欄に入れる
+  const handleConfirmPaste = (mapping: ColumnMapping) => {
+    if (!pendingPaste) return;
+    // 元の表記のまま入力欄に入れ、登録時に正規化する
+    const items = pendingPaste
+      .slice(mapping.hasHeader ? 1 : 0)
+      .map(cells => readMappedRow(cells, mapping))
+      .filter(values => missingRequiredFields(values).length === 0);
+    setPendingPaste(null);
+    // 入力欄は1行1アイテムのため、セル内の改行は空白にする
+    const column = (values: string[]) => values.map(value => value.replace(/\n/g, ' ')).join('\n');
+
+    setCircles(column(items.map(item => item.circle)));
+    setEventDates(column(items.map(item => item.eventDate)));
+    setBlocks(column(items.map(item => item.block)));
+    setNumbers(column(items.map(item => item.number)));
+    setTitles(column(items.map(item => item.title)));
+    setPrices(column(items.map(item => item.price)));
+    setRemarks(column(items.map(item => item.remarks)));
+  };
 
-    rows.forEach(row => {
-        const cells = row.split('\t');
-        cols.circles.push(cells[0] || '');
-        cols.eventDates.push(cells[1] || '');
-        cols.blocks.push(cells[2] || '');
-        cols.numbers.push(cells[3] || '');
-        cols.titles.push(cells[4] || '');
-        cols.prices.push(cells[5] || '');
+  // 列の割り当てに従って、取り込み内容の確認画面で修正できる行のデータにする
+  const createDraftRows = ({ rows, rowLabels }: PendingImport, mapping: ColumnMapping): ImportDraftRow[] => {
+    // エクスポートされたファイルの場合は、I列・J列の配置情報も読み込む
+    const hasLayout = isExportedRows(rows);
+    const start = mapping.hasHeader ? 1 : 0;
+    const draftRows: ImportDraftRow[] = [];
+
+    rows.slice(start).forEach((cells, index) => {
+      const values = readMappedRow(cells, mapping);
+      // 割り当てた列がすべて空の行（見出しや区切りの行など）はアイテムの行として扱わない
+      if (Object.values(values).every(value => value === '')) return;
+
+      const columnTypeStr = hasLayout ? cells[8]?.trim() || '' : '';
+      const columnType = columnTypeStr === '実行列' ? 'execute' : columnTypeStr === '候補リスト' ? 'candidate' : null;
+      const order = parseInt(cells[9]?.trim() || '0', 10) || 0;
+      draftRows.push({
+        id: draftRows.length,
+        label: rowLabels[start + index],
+        values,
+        layout: columnType && order > 0 ? { columnType, order } : undefined,
+        excluded: false,
+      });
     });
+    return draftRows;
+  };
+
+  // 取り込み先のリスト名（URLからの場合は入力必須、ファイルからの場合は省略可）
+  const getImportEventName = (source: PendingImport['source']) =>
+    source.type === 'url' ? eventName.trim() : eventName || 'インポートリスト';
+
+  // お気に入りCSVの場合、リスト名の省略時はカタログのイベント名（「C105」など）にする
+  const getReviewEventName = (review: ImportReview) =>
+    review.type === 'mapping'
+      ? getImportEventName(review.pending.source)
+      : eventName || toCatalogListName(review.favorites.eventName) || 'インポートリスト';
 
-    setCircles(cols.circles.join('\n'));
-    setEventDates(cols.eventDates.join('\n'));
-    setBlocks(cols.blocks.join('\n'));
-    setNumbers(cols.numbers.join('\n'));
-    setTitles(cols.titles.join('\n'));
-    setPrices(cols.prices.join('\n'));
+  // 列の割り当てを確定し、取り込み内容の確認画面を表示する
+  const importWithMapping = (pending: PendingImport, profile: ColumnMappingProfile) => {
+    const draftRows = createDraftRows(pending, profile.mapping);
+    if (draftRows.length === 0) {
+      alert('インポートできるデータが見つかりませんでした。列の割り当てを確認してください。');
+      return;
+    }
+    setPendingImport(null);
+    setImportReview({ type: 'mapping', pending, profile, rows: draftRows });
   };
 
-  const parseCSVLine = (line: string): string[] => {
-    const cells: string[] = [];
-    let currentCell = '';
-    let insideQuotes = false;
+  // 確認画面で修正した内容で取り込む
+  const handleConfirmImport = (report: ImportReport) => {
+    if (!importReview) return;
+    const { items, layoutInfo } = collectImportItems(report);
+    setImportReview(null);
+    const notImportedCount = report.skippedCount + report.excludedCount;
+    const skippedMessage = notImportedCount > 0 ? `（${notImportedCount}行は取り込みませんでした）` : '';
 
-    for (let j = 0; j < line.length; j++) {
-      const char = line[j];
-      
-      if (char === '"') {
-        if (insideQuotes && line[j + 1] === '"') {
-          currentCell += '"';
-          j++;
-        } else {
-          insideQuotes = !insideQuotes;
-        }
-      } else if (char === ',' && !insideQuotes) {
-        cells.push(currentCell);
-        currentCell = '';
-      } else {
-        currentCell += char;
-      }
+    if (importReview.type === 'catalog') {
+      // 次回以降、書き出し直したお気に入りCSVで更新できるよう取り込み設定を保存する
+      onBulkAdd(getReviewEventName(importReview), items, { source: { type: 'file', fileName: importReview.fileName }, catalogImport: importReview.options });
+      alert(`${items.length}件のアイテムをインポートしました。${skippedMessage}`);
+      return;
+    }
+
+    const { pending: { source }, profile } = importReview;
+
+    if (source.type === 'url') {
+      onBulkAdd(getImportEventName(source), items, { source: source.source, columnMapping: profile });
+      setSpreadsheetUrl('');
+      setSpreadsheetSheetName(DEFAULT_SHEET_NAME);
+      sheetNameClearedByGidRef.current = false;
+      alert(`${items.length}件のアイテムをインポートしました。${skippedMessage}`);
+      return;
     }
-    cells.push(currentCell);
-    return cells;
+
+    // 出力したファイルに取り込み元のURLがあればそれを、なければこのファイルを取り込み元とする
+    // （URLの取り込み元はファイルと列の形式が異なるため、割り当ては記録しない）
+    const metadata: { source: ImportSource; columnMapping?: ColumnMappingProfile; layoutInfo?: ImportLayoutInfo } = source.origin
+      ? { source: source.origin }
+      : {
+          source: { type: 'file', fileName: source.file.name, ...(source.type === 'xlsx' && !source.combined ? { sheetName: source.sheetName } : {}) },
+          columnMapping: profile,
+        };
+    if (layoutInfo.length > 0) {
+      metadata.layoutInfo = layoutInfo;
+    }
+    onBulkAdd(getImportEventName(source), items, metadata);
+    const urlMessage = source.origin ? `取り込み元のURLも保存されました。` : '';
+    const layoutMessage = layoutInfo.length > 0 ? `配置情報も復元されました。` : '';
+    alert(`${items.length}件のアイテムをインポートしました。${skippedMessage}${urlMessage}${layoutMessage}`);
   };
 
-  const processImportData = (lines: string[]): {
-    items: Omit<ShoppingItem, 'id' | 'purchaseStatus'>[];
-    spreadsheetUrl?: string;
-    layoutInfo?: Array<{ itemKey: string, eventDate: string, columnType: 'execute' | 'candidate', order: number }>;
-  } => {
-    const newItems: Omit<ShoppingItem, 'id' | 'purchaseStatus'>[] = [];
-    let spreadsheetUrl: string | undefined;
-    const layoutInfo: Array<{ itemKey: string, eventDate: string, columnType: 'execute' | 'candidate', order: number }> = [];
-    
-    // ヘッダー行とメタデータ行をスキップ
-    let startIndex = 0;
-    
-    // 1行目がヘッダー行かチェック
-    if (lines.length > 0 && lines[0].includes('サークル名')) {
-      startIndex = 1;
+  // 確認画面から列の割り当てに戻る
+  const handleBackToMapping = () => {
+    if (!importReview) return;
+    if (importReview.type === 'catalog') {
+      setPendingCatalog({ fileName: importReview.fileName, favorites: importReview.favorites, options: importReview.options });
+    } else {
+      setPendingImport({ ...importReview.pending, initialMapping: importReview.profile.mapping });
     }
-    
-    // メタデータ行をチェック（ファイルの最後にある可能性がある）
-    for (let i = lines.length - 1; i >= 0; i--) {
-      if (lines[i].startsWith('#METADATA')) {
-        const metadataCells = parseCSVLine(lines[i]);
-        if (metadataCells.length >= 3 && metadataCells[1] === 'spreadsheetUrl') {
-          spreadsheetUrl = metadataCells[2]?.trim();
-        }
-        // メタデータ行は処理対象から除外（既にstartIndex以降の行を処理するので問題ない）
-        break;
-      }
+    setImportReview(null);
+  };
+
+  // ファイルを読み込み、列の割り当てを確認する前のデータにする
+  const readCsvFile = async (file: File, encoding: TextEncodingName | 'auto'): Promise<PendingImport> => {
+    const parsed = await parseCsvStream(file.stream(), { encoding, delimiter: /\.tsv$/i.test(file.name) || file.type === 'text/tab-separated-values' ? '\t' : ',' });
+    const { rows, rowLabels, origin } = extractMetadataRows(toCellRows(parsed), toLineLabels(parsed));
+
+    return {
+      rows,
+      rowLabels,
+      warnings: parsed.errors.map(error => error.message),
+      initialMapping: suggestColumnMapping(rows),
+      source: { type: 'file', file, encoding: parsed.encoding, origin },
+    };
+  };
+
+  // Excelブックの指定したシートを、列の割り当てを確認する前のデータにする
+  const selectXlsxSheet = (file: File, sheets: XlsxSheet[], sheetName: string): PendingImport => {
+    const sheet = sheets.find(s => s.name === sheetName) || sheets[0];
+    const { rows, rowLabels, origin } = extractMetadataRows(sheet.rows, sheet.rowNumbers.map(rowNumber => `${rowNumber}行目`));
+    return {
+      rows,
+      rowLabels,
+      warnings: [],
+      initialMapping: suggestColumnMapping(rows, sheet.name === DEFAULT_SHEET_NAME ? [SHEET_COLUMN_MAPPING] : []),
+      source: { type: 'xlsx', file, sheets, sheetName: sheet.name, origin },
+    };
+  };
+
+  const handleXlsxImport = async (file: File) => {
+    let sheets: XlsxSheet[];
+    try {
+      sheets = await readXlsx(new Uint8Array(await file.arrayBuffer()));
+    } catch (error) {
+      console.error('Excel import error:', error);
+      alert(`Excelファイルを読み込めませんでした。${error instanceof Error ? error.message : ''}`);
+      return;
     }
-    
-    for (let i = startIndex; i < lines.length; i++) {
-      const line = lines[i];
-      if (!line.trim()) continue;
-      
-      // メタデータ行をスキップ
-      if (line.startsWith('#METADATA')) {
-        continue;
-      }
-      
-      // ヘッダー行をスキップ（念のため再チェック）
-      if (line.includes('サークル名') && line.includes('参加日') && line.includes('ブロック')) {
-        continue;
-      }
-      
-      const cells = parseCSVLine(line);
-      
-      // エクスポートされたCSVファイル形式（A列から始まる）を優先的にチェック
-      let circle = cells[0]?.trim() || ''; // A列: サークル名
-      let eventDate = cells[1]?.trim() || ''; // B列: 参加日
-      let block = cells[2]?.trim() || ''; // C列: ブロック
-      let number = cells[3]?.trim() || ''; // D列: ナンバー
-      let title = cells[4]?.trim() || ''; // E列: タイトル
-      let priceStr = cells[5]?.trim() || '0'; // F列: 頒布価格
-      let remarks = cells[7]?.trim() || ''; // H列: 備考
-      let columnType: 'execute' | 'candidate' | null = null; // I列: 列の種類
-      let order = 0; // J列: 列内順番
-      
-      // 配置情報がある場合（エクスポートされたCSV形式）
-      if (cells.length >= 10) {
-        const columnTypeStr = cells[8]?.trim() || '';
-        if (columnTypeStr === '実行列') {
-          columnType = 'execute';
-        } else if (columnTypeStr === '候補リスト') {
-          columnType = 'candidate';
-        }
-        order = parseInt(cells[9]?.trim() || '0', 10) || 0;
+    if (sheets.length === 0) {
+      alert('Excelファイルに読み込めるシートがありません。');
+      return;
+    }
+
+    // このアプリで出力したブックは、参加日ごとのシートをまとめて割り当てを確認せずに取り込む
+    const combined = combineExportedSheets(sheets);
+    if (combined) {
+      const { rows, rowLabels, origin } = extractMetadataRows(combined.rows, combined.rowLabels);
+      const firstSheet = sheets.find(sheet => isExportedRows(sheet.rows))!;
+      const pending: PendingImport = { rows, rowLabels, warnings: [], initialMapping: EXPORT_COLUMN_MAPPING, source: { type: 'xlsx', file, sheets, sheetName: firstSheet.name, combined: true, origin } };
+      importWithMapping(pending, BUILTIN_MAPPING_PROFILES.find(profile => profile.mapping === EXPORT_COLUMN_MAPPING)!);
+      return;
+    }
+
+    setPendingImport(selectXlsxSheet(file, sheets, sheets.some(sheet => sheet.name === DEFAULT_SHEET_NAME) ? DEFAULT_SHEET_NAME : sheets[0].name));
+  };
+
+  // 読み込みに失敗した場合（ファイルが壊れている・文字コードを変換できないなど）は知らせる
+  const importFile = async (file: File) => {
+    try {
+      if (/\.xlsx$/i.test(file.name)) {
+        await handleXlsxImport(file);
+        return;
       }
-      
-      // A列からD列が全て入力されているかチェック
-      if (!circle || !eventDate || !block || !number) {
-        // スプレッドシート形式（M列から始まる）を試す
-        circle = cells[12]?.trim() || ''; // M列
-        eventDate = cells[13]?.trim() || ''; // N列
-        block = cells[14]?.trim() || ''; // O列
-        number = cells[15]?.trim() || ''; // P列
-        title = cells[16]?.trim() || ''; // Q列
-        priceStr = cells[17]?.trim() || '0'; // R列
-        remarks = cells[22]?.trim() || ''; // W列
-        
-        // それでも必須項目が揃わない場合はスキップ
-        if (!circle || !eventDate || !block || !number) {
-          continue;
-        }
+
+      const pending = await readCsvFile(file, fileEncoding);
+      // Webカタログのお気に入りCSVは形式が決まっているため、参加日と色の設定だけ確認する
+      if (isCatalogCsv(pending.rows)) {
+        const favorites = parseCatalogFavorites(pending.rows, pending.rowLabels);
+        setPendingCatalog({ fileName: file.name, favorites, options: defaultCatalogImportOptions(favorites) });
+        return;
       }
-      
-      const price = parseInt(priceStr.replace(/[^0-9]/g, ''), 10) || 0;
-      
-      const item: Omit<ShoppingItem, 'id' | 'purchaseStatus'> = {
-        circle,
-        eventDate,
-        block,
-        number,
-        title,
-        price,
-        remarks,
-      };
-      
-      newItems.push(item);
-      
-      // 配置情報を記録
-      if (columnType && order > 0) {
-        const itemKey = getItemKey(item);
-        layoutInfo.push({
-          itemKey,
-          eventDate,
-          columnType,
-          order,
-        });
+      // このアプリでエクスポートしたファイルは、割り当てを確認せずに取り込む
+      if (isExportedRows(pending.rows) && pending.warnings.length === 0) {
+        importWithMapping(pending, BUILTIN_MAPPING_PROFILES.find(profile => profile.mapping === EXPORT_COLUMN_MAPPING)!);
+        return;
       }
+      setPendingImport(pending);
+    } catch (error) {
+      console.error('File import error:', error);
+      alert(`ファイルを読み込めませんでした。${error instanceof Error ? error.message : ''}`);
     }
-    
-    return {
-      items: newItems,
-      spreadsheetUrl,
-      layoutInfo: layoutInfo.length > 0 ? layoutInfo : undefined,
-    };
   };
 
   const handleFileImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
+    await importFile(file);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
 
-    const text = await file.text();
-    const lines = text.split('\n').filter(line => line.trim() !== '');
-    const importResult = processImportData(lines);
-    
-    if (importResult.items.length > 0) {
-      const metadata: { url?: string; layoutInfo?: Array<{ itemKey: string, eventDate: string, columnType: 'execute' | 'candidate', order: number }> } = {};
-      if (importResult.spreadsheetUrl) {
-        metadata.url = importResult.spreadsheetUrl;
-      }
-      if (importResult.layoutInfo) {
-        metadata.layoutInfo = importResult.layoutInfo;
-      }
-      
-      onBulkAdd(eventName || 'インポートリスト', importResult.items, Object.keys(metadata).length > 0 ? metadata : undefined);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
+  // 画面の外から受け取ったファイルは、ファイルを選んだ場合と同じ手順で取り込む
+  const handledFileRef = useRef<File | null>(null);
+  useEffect(() => {
+    if (!incomingFile || handledFileRef.current === incomingFile) return;
+    handledFileRef.current = incomingFile;
+    onIncomingFileHandled?.();
+    importFile(incomingFile);
+  }, [incomingFile]);
+
+  const handleConfirmCatalog = (options: CatalogImportOptions) => {
+    if (!pendingCatalog) return;
+    const rows = toCatalogDraftRows(pendingCatalog.favorites, options);
+    setPendingCatalog(null);
+    setImportReview({ type: 'catalog', ...pendingCatalog, options, rows });
+  };
+
+  const handleChangeSheet = (sheetName: string) => {
+    if (pendingImport?.source.type !== 'xlsx') return;
+    setPendingImport(selectXlsxSheet(pendingImport.source.file, pendingImport.source.sheets, sheetName));
+  };
+
+  // 文字化けしている場合に、文字コードを指定して読み込み直す
+  const handleChangeEncoding = async (encoding: TextEncodingName) => {
+    if (pendingImport?.source.type !== 'file') return;
+    setPendingImport(await readCsvFile(pendingImport.source.file, encoding));
+  };
+
+  // シートを表示した状態のURL（#gid=…）を貼り付けた場合は、シート名の初期値ではなくそのシートを読む。
+  // gid のないURLに貼り替えた場合は、空にしたシート名を初期値に戻す（手で入力したシート名はそのまま）
+  const sheetNameClearedByGidRef = useRef(false);
+  const handleChangeSpreadsheetUrl = (url: string) => {
+    setSpreadsheetUrl(url);
+    if (parseGoogleSheetsGid(url)) {
+      if (spreadsheetSheetName === DEFAULT_SHEET_NAME) {
+        setSpreadsheetSheetName('');
+        sheetNameClearedByGidRef.current = true;
       }
-      const urlMessage = importResult.spreadsheetUrl ? `スプレッドシートURLも保存されました。` : '';
-      const layoutMessage = importResult.layoutInfo && importResult.layoutInfo.length > 0 ? `配置情報も復元されました。` : '';
-      alert(`${importResult.items.length}件のアイテムをインポートしました。${urlMessage}${layoutMessage}`);
-    } else {
-      alert('インポートできるデータが見つかりませんでした。A列からD列の値が全て入力されている行が必要です。');
+    } else if (sheetNameClearedByGidRef.current && spreadsheetSheetName === '') {
+      setSpreadsheetSheetName(DEFAULT_SHEET_NAME);
+      sheetNameClearedByGidRef.current = false;
     }
   };
 
+  const handleChangeSpreadsheetSheetName = (sheetName: string) => {
+    setSpreadsheetSheetName(sheetName);
+    sheetNameClearedByGidRef.current = false;
+  };
+
   const handleUrlImport = async () => {
     if (!spreadsheetUrl.trim()) {
-      alert('スプレッドシートのURLを入力してください。');
+      alert('取り込み元のURLを入力してください。');
       return;
     }
 
@@ -258,34 +418,20 @@ const ImportScreen: React.FC<ImportScreenProps> = ({ onBulkAdd, activeEventName,
       return;
     }
 
+    const source = toUrlImportSource(spreadsheetUrl.trim(), spreadsheetSheetName.trim());
     try {
-      const sheetIdMatch = spreadsheetUrl.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
-      if (!sheetIdMatch) {
-        throw new Error('無効なURL');
-      }
-
-      const sheetName = '品目表';
-      const csvUrl = `https://docs.google.com/spreadsheets/d/${sheetIdMatch[1]}/gviz/tq?tqx=out:csv&sheet=${encodeURIComponent(sheetName)}`;
-      
-      const response = await fetch(csvUrl);
-      if (!response.ok) {
-        throw new Error('スプレッドシートの読み込みに失敗しました。');
-      }
-
-      const text = await response.text();
-      const lines = text.split('\n').filter(line => line.trim() !== '');
-      const importResult = processImportData(lines);
-      
-      if (importResult.items.length > 0) {
-        onBulkAdd(eventName.trim(), importResult.items, { url: spreadsheetUrl, sheetName });
-        setSpreadsheetUrl('');
-        alert(`${importResult.items.length}件のアイテムをインポートしました。`);
-      } else {
-        alert('インポートできるデータが見つかりませんでした。A列からD列の値が全て入力されている行が必要です。');
-      }
+      const parsed = await fetchSourceCsv(source);
+      const rows = toCellRows(parsed);
+      setPendingImport({
+        rows,
+        rowLabels: toLineLabels(parsed),
+        warnings: parsed.errors.map(error => error.message),
+        initialMapping: suggestColumnMapping(rows, source.type === 'google-sheets' ? [SHEET_COLUMN_MAPPING] : []),
+        source: { type: 'url', source },
+      });
     } catch (error) {
       console.error('Import error:', error);
-      alert('スプレッドシートのインポートに失敗しました。URLが正しいか確認してください。');
+      alert(`インポートに失敗しました。${error instanceof Error ? error.message : 'URLが正しいか確認してください。'}`);
     }
   };
   
@@ -299,6 +445,23 @@ const ImportScreen: React.FC<ImportScreenProps> = ({ onBulkAdd, activeEventName,
     setSingleRemarks('');
   };
 
+  // 1件入力フォームの値を正規化する（頒布価格が読み取れない場合は null）
+  const readSingleForm = (): ImportedItemValues | null => {
+    if (parsePrice(singlePrice) === null) {
+      alert(`頒布価格「${singlePrice}」を読み取れません。金額を数字で入力してください。`);
+      return null;
+    }
+    return normalizeItemValues({
+      circle: singleCircle.trim(),
+      eventDate: singleEventDate,
+      block: singleBlock.trim(),
+      number: singleNumber.trim(),
+      title: singleTitle.trim(),
+      price: singlePrice.trim(),
+      remarks: singleRemarks.trim(),
+    });
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -307,17 +470,14 @@ const ImportScreen: React.FC<ImportScreenProps> = ({ onBulkAdd, activeEventName,
             alert('サークル名かタイトルを入力してください。');
             return;
         }
-        const price = parseInt(String(singlePrice).replace(/[^0-9]/g, ''), 10) || 0;
-        const updatedItem: ShoppingItem = {
-            ...itemToEdit,
-            circle: singleCircle.trim(),
-            eventDate: singleEventDate,
-            block: singleBlock.trim(),
-            number: singleNumber.trim(),
-            title: singleTitle.trim(),
-            price: price,
-            remarks: singleRemarks.trim(),
-        };
+        const values = readSingleForm();
+        if (!values) return;
+        // 編集しなかった項目の元の表記は残し、編集した項目は新しい表記に置き換える
+        const { sourceText: editedSourceText, ...editedValues } = values;
+        const { sourceText: previousSourceText, ...rest } = itemToEdit;
+        const edited = { ...rest, ...editedValues };
+        const sourceText = currentSourceText({ ...edited, sourceText: { ...previousSourceText, ...editedSourceText } });
+        const updatedItem: ShoppingItem = { ...edited, ...(sourceText ? { sourceText } : {}) };
         onUpdateItem(updatedItem);
         onDoneEditing();
         return;
@@ -351,11 +511,9 @@ const ImportScreen: React.FC<ImportScreenProps> = ({ onBulkAdd, activeEventName,
         if (!circle || !eventDate || !block || !number) {
           continue;
         }
-        const priceString = (pricesArr[i] || '0').replace(/[^0-9]/g, '');
-        const price = parseInt(priceString, 10) || 0;
-        newItems.push({
-          circle, eventDate, block, number, title: titlesArr[i] || '', price: price, remarks: remarksArr[i] || '',
-        });
+        newItems.push(normalizeItemValues({
+          circle, eventDate, block, number, title: titlesArr[i] || '', price: pricesArr[i] || '', remarks: remarksArr[i] || '',
+        }));
       }
       if (newItems.length > 0) {
           onBulkAdd(finalEventName, newItems);
@@ -368,16 +526,8 @@ const ImportScreen: React.FC<ImportScreenProps> = ({ onBulkAdd, activeEventName,
             alert('サークル名かタイトルを入力してください。');
             return;
         }
-        const price = parseInt(String(singlePrice).replace(/[^0-9]/g, ''), 10) || 0;
-        const newItem: Omit<ShoppingItem, 'id' | 'purchaseStatus'> = {
-            circle: singleCircle.trim(),
-            eventDate: singleEventDate,
-            block: singleBlock.trim(),
-            number: singleNumber.trim(),
-            title: singleTitle.trim(),
-            price: price,
-            remarks: singleRemarks.trim(),
-        };
+        const newItem = readSingleForm();
+        if (!newItem) return;
         onBulkAdd(activeEventName, [newItem]);
         resetSingleForm();
     }
@@ -392,15 +542,13 @@ const ImportScreen: React.FC<ImportScreenProps> = ({ onBulkAdd, activeEventName,
   }, []);
 
   const formTextareaClass = "w-full p-2 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-shadow duration-200 h-32 resize-y font-mono text-sm";
+  const urlSource = spreadsheetUrl.trim() ? toUrlImportSource(spreadsheetUrl.trim(), spreadsheetSheetName.trim()) : null;
   const formInputClass = "block w-full p-2 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition";
   const labelClass = "block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1";
   
+  // 全角数字や「500+300」のような合計も入力でき、登録時に数値にする
   const handlePriceInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-      const value = e.target.value;
-      // Allow only numbers
-      if (/^\d*$/.test(value)) {
-          setSinglePrice(value);
-      }
+      setSinglePrice(e.target.value);
   };
   
   const handlePriceSelectChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
@@ -414,7 +562,7 @@ const ImportScreen: React.FC<ImportScreenProps> = ({ onBulkAdd, activeEventName,
       </h2>
       <p className="text-center text-slate-600 dark:text-slate-400 mb-6">
         {isCreatingNew 
-          ? 'スプレッドシートのM列からR列とW列をコピーし、下の「サークル名」の欄に貼り付けてください。データが自動で振り分けられます。'
+          ? 'スプレッドシートの品目の範囲をコピーし、下の「サークル名」の欄に貼り付けてください。貼り付けた範囲を表で確認してから、列の割り当てに従って各欄に振り分けます。'
           : isEditing ? 'アイテムの情報を編集してください。' : '追加するアイテムのデータを入力してください。'
         }
       </p>
@@ -441,15 +589,15 @@ const ImportScreen: React.FC<ImportScreenProps> = ({ onBulkAdd, activeEventName,
                   
                   {/* URLインポート */}
                   <div className="mb-4">
-                    <label htmlFor="spreadsheetUrl" className={labelClass}>スプレッドシートURLからインポート</label>
+                    <label htmlFor="spreadsheetUrl" className={labelClass}>URLからインポート（Googleスプレッドシート・公開されたCSV）</label>
                     <div className="flex gap-2">
                       <input 
                         type="text" 
                         id="spreadsheetUrl" 
                         value={spreadsheetUrl} 
-                        onChange={e => setSpreadsheetUrl(e.target.value)}
+                        onChange={e => handleChangeSpreadsheetUrl(e.target.value)}
                         className={formInputClass}
-                        placeholder="https://docs.google.com/spreadsheets/d/..../edit"
+                        placeholder="https://docs.google.com/spreadsheets/d/..../edit または CSVのURL"
                       />
                       <button
                         type="button"
@@ -459,26 +607,65 @@ const ImportScreen: React.FC<ImportScreenProps> = ({ onBulkAdd, activeEventName,
                         URLからインポート
                       </button>
                     </div>
-                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">シート名「品目表」のM列からR列とW列をインポートします</p>
+                    {urlSource?.type === 'google-sheets' && (
+                      <div className="flex items-center gap-2 mt-2">
+                        <label htmlFor="spreadsheetSheetName" className="text-sm text-slate-600 dark:text-slate-400 whitespace-nowrap">シート名</label>
+                        <input
+                          type="text"
+                          id="spreadsheetSheetName"
+                          list="spreadsheet-sheet-names"
+                          value={spreadsheetSheetName}
+                          onChange={e => handleChangeSpreadsheetSheetName(e.target.value)}
+                          className={formInputClass}
+                          placeholder={urlSource.gid ? `空欄: URLのシート（gid ${urlSource.gid}）` : '空欄: 先頭のシート'}
+                        />
+                        <datalist id="spreadsheet-sheet-names">
+                          {Array.from(new Set([DEFAULT_SHEET_NAME, ...sheetNameSuggestions])).map(name => <option key={name} value={name} />)}
+                        </datalist>
+                      </div>
+                    )}
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                      {urlSource ? `${describeImportSource(urlSource)}を読み込み、` : 'Googleスプレッドシートは指定したシート（シート名を空欄にするとURLの「#gid=」のシート）を、それ以外のURLはCSVとして読み込み、'}
+                      取り込む列を確認してからインポートします
+                    </p>
                   </div>
                   
                   {/* CSVファイルインポート */}
                   <div className="mb-4">
-                    <label htmlFor="csvFile" className={labelClass}>CSVファイルからインポート</label>
+                    <label htmlFor="csvFile" className={labelClass}>CSV・TSV・Excelファイルからインポート</label>
                     <input
                       type="file"
                       id="csvFile"
                       ref={fileInputRef}
-                      accept=".csv"
+                      accept=".csv,.tsv,.xlsx"
                       onChange={handleFileImport}
                       className={formInputClass}
                     />
-                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">A列からD列の値が全て入力されている行のみをインポートします</p>
+                    <div className="flex items-center gap-2 mt-2">
+                      <label htmlFor="csvEncoding" className="text-sm text-slate-600 dark:text-slate-400 whitespace-nowrap">CSVの文字コード</label>
+                      <select id="csvEncoding" value={fileEncoding} onChange={e => setFileEncoding(e.target.value as TextEncodingName | 'auto')} className={formInputClass}>
+                        <option value="auto">自動判定</option>
+                        {(Object.keys(textEncodingLabels) as TextEncodingName[]).map(name => (
+                          <option key={name} value={name}>{textEncodingLabels[name]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">取り込む列（このアプリで出力したファイルは省略）と取り込み内容を確認してからインポートします。Excelで保存したShift_JISのCSVも読み込めます。Excelファイル（.xlsx）は「品目表」シートを選んだ状態で開きます。コミケWebカタログ（サークル・ms）のお気に入りCSVは、参加日と色の設定を確認して取り込みます。ファイルはこの画面や即売会リスト画面にドロップしても取り込めます</p>
                   </div>
                   
                   <div className="text-center text-slate-500 dark:text-slate-400 my-4">または</div>
                 </div>
                 
+                <div>
+                    <label htmlFor="pasteProfile" className={labelClass}>貼り付けるデータの列の割り当て</label>
+                    <select id="pasteProfile" value={pasteProfileName} onChange={e => setPasteProfileName(e.target.value)} className={formInputClass}>
+                        {[...BUILTIN_MAPPING_PROFILES, ...mappingProfiles].map(profile => (
+                            <option key={profile.name} value={profile.name}>{profile.name}</option>
+                        ))}
+                    </select>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">見出し行ごと貼り付けた場合は見出しから、それ以外はA列から・割り当ての最も左の列からのどちらの範囲かを判定し、表で確認してから各欄に入れます。ブラウザやExcelでコピーした表も貼り付けられます。</p>
+                </div>
+
                 <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
                     <div className="md:col-span-1"><label htmlFor="circles" className={labelClass}>サークル名 </label><textarea id="circles" value={circles} onChange={e => setCircles(e.target.value)} onPaste={handlePaste} className={formTextareaClass} placeholder="サークルA&#10;サークルB" /></div>
                     <div className="md:col-span-1"><label htmlFor="event-dates" className={labelClass}>参加日 </label><textarea id="event-dates" value={eventDates} onChange={e => setEventDates(e.target.value)} className={formTextareaClass} placeholder="1日目&#10;2日目" /></div>
@@ -521,7 +708,7 @@ const ImportScreen: React.FC<ImportScreenProps> = ({ onBulkAdd, activeEventName,
                     <div><label htmlFor="singleBlock" className={labelClass}>ブロック</label><input type="text" id="singleBlock" value={singleBlock} onChange={e => setSingleBlock(e.target.value)} className={formInputClass} placeholder="東1" /></div>
                     <div>
                         <label htmlFor="singleNumber" className={labelClass}>ナンバー</label>
-                        <input type="text" id="singleNumber" value={singleNumber} onChange={e => setSingleNumber(e.target.value)} className={formInputClass} inputMode="text" pattern="[a-zA-Z0-9-]*" placeholder="A-01a" />
+                        <input type="text" id="singleNumber" value={singleNumber} onChange={e => setSingleNumber(e.target.value)} className={formInputClass} inputMode="text" placeholder="A-01a" />
                     </div>
                 </div>
                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
@@ -535,7 +722,6 @@ const ImportScreen: React.FC<ImportScreenProps> = ({ onBulkAdd, activeEventName,
                             className={`${formInputClass} pr-12`}
                             placeholder="0"
                             inputMode="numeric"
-                            pattern="[0-9]*"
                         />
                         <span className="absolute right-3 top-9 text-slate-500 dark:text-slate-400">円</span>
                     </div>
@@ -568,6 +754,58 @@ const ImportScreen: React.FC<ImportScreenProps> = ({ onBulkAdd, activeEventName,
           </button>
         </div>
       </form>
+
+      {pendingImport && (
+        <ColumnMappingEditor
+          key={pendingImport.source.type === 'file' ? pendingImport.source.encoding : pendingImport.source.type === 'xlsx' ? pendingImport.source.sheetName : 'url'}
+          rows={pendingImport.rows}
+          warnings={pendingImport.warnings}
+          initialMapping={pendingImport.initialMapping}
+          encoding={pendingImport.source.type === 'file' ? pendingImport.source.encoding : undefined}
+          onChangeEncoding={handleChangeEncoding}
+          sheetNames={pendingImport.source.type === 'xlsx' ? pendingImport.source.sheets.map(sheet => sheet.name) : undefined}
+          sheetName={pendingImport.source.type === 'xlsx' ? pendingImport.source.sheetName : undefined}
+          onChangeSheet={handleChangeSheet}
+          profiles={mappingProfiles}
+          confirmLabel="インポート"
+          onSaveProfile={profile => onSaveMappingProfile?.(profile)}
+          onDeleteProfile={name => onDeleteMappingProfile?.(name)}
+          onConfirm={profile => importWithMapping(pendingImport, profile)}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
+      {pendingCatalog && (
+        <CatalogImportDialog
+          favorites={pendingCatalog.favorites}
+          initialOptions={pendingCatalog.options}
+          eventDates={availableEventDates}
+          confirmLabel="次へ"
+          onConfirm={handleConfirmCatalog}
+          onCancel={() => setPendingCatalog(null)}
+        />
+      )}
+
+      {pendingPaste && (
+        <PastePreviewDialog
+          rows={pendingPaste}
+          options={listPasteLayouts(pendingPaste, pasteProfile.mapping)}
+          onConfirm={handleConfirmPaste}
+          onCancel={() => setPendingPaste(null)}
+        />
+      )}
+
+      {importReview && (
+        <ImportPreviewDialog
+          eventName={getReviewEventName(importReview)}
+          initialRows={importReview.rows}
+          existingItems={eventLists[getReviewEventName(importReview)] || NO_ITEMS}
+          backLabel={importReview.type === 'catalog' ? '← 参加日・色の設定に戻る' : undefined}
+          onConfirm={handleConfirmImport}
+          onBack={handleBackToMapping}
+          onCancel={() => setImportReview(null)}
+        />
+      )}
     </div>
   );
 };
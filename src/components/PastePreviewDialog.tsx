@@ -0,0 +1,116 @@
+import React, { useMemo, useState } from 'react';
+import { ColumnMapping } from '../types';
+import { MAPPING_FIELDS, PasteLayoutOption, columnLabel, missingRequiredFields, readMappedRow } from '../utils/columnMapping';
+import { mergeFieldLabels } from '../utils/sheetMerge';
+
+interface PastePreviewDialogProps {
+  rows: string[][];
+  options: PasteLayoutOption[]; // 読み方の候補（先頭がおすすめ）
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+const PastePreviewDialog: React.FC<PastePreviewDialogProps> = ({
+  rows,
+  options,
+  onConfirm,
+  onCancel,
+}) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const { mapping, count } = options[selectedIndex];
+
+  const columnCount = Math.max(0, ...rows.map(cells => cells.length));
+  // 列ごとに、割り当てた項目の名前（追加の列は備考に追記）
+  const columnFields = useMemo(() => {
+    const fields = new Map<number, string>();
+    MAPPING_FIELDS.forEach(field => {
+      const column = mapping[field];
+      if (column !== null) fields.set(column, mergeFieldLabels[field]);
+    });
+    mapping.extras.forEach(extra => {
+      if (!fields.has(extra.column)) fields.set(extra.column, '備考に追記');
+    });
+    return fields;
+  }, [mapping]);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl max-w-4xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-xl font-bold text-slate-900 dark:text-white">貼り付けたデータの確認</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+            貼り付けた{rows.length}行を表にしました。各列をどの項目として読むかを確認してください。灰色の行は必須項目が空欄のため入力欄に入れません。
+          </p>
+          <div className="mt-3">
+            <label htmlFor="pasteLayout" className="block text-xs font-medium text-slate-600 dark:text-slate-400 mb-1">読み方</label>
+            <select
+              id="pasteLayout"
+              value={selectedIndex}
+              onChange={e => setSelectedIndex(Number(e.target.value))}
+              className="w-full p-1.5 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-900"
+            >
+              {options.map((option, index) => (
+                <option key={option.layout} value={index}>{option.label}（{option.count}件）</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6">
+          <table className="min-w-full text-xs border border-slate-200 dark:border-slate-700">
+            <thead className="bg-slate-50 dark:bg-slate-900/50 text-slate-500 dark:text-slate-400">
+              <tr>
+                <th className="px-2 py-1" />
+                {Array.from({ length: columnCount }, (_, column) => (
+                  <th key={column} className="px-2 py-1 text-left font-medium whitespace-nowrap">
+                    {columnLabel(column)}
+                    {columnFields.has(column) && <span className="block text-blue-600 dark:text-blue-400">{columnFields.get(column)}</span>}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700 text-slate-700 dark:text-slate-300">
+              {rows.map((cells, index) => {
+                const isHeader = mapping.hasHeader && index === 0;
+                const isSkipped = !isHeader && missingRequiredFields(readMappedRow(cells, mapping)).length > 0;
+                return (
+                  <tr key={index} className={isHeader ? 'font-semibold bg-slate-50 dark:bg-slate-900/50' : isSkipped ? 'text-slate-400 dark:text-slate-500' : ''}>
+                    <td className="px-2 py-1 text-slate-400 whitespace-nowrap">{isHeader ? '見出し' : index + 1}</td>
+                    {Array.from({ length: columnCount }, (_, column) => (
+                      <td
+                        key={column}
+                        className={`px-2 py-1 align-top whitespace-pre-wrap max-w-[12rem] ${columnFields.has(column) && !isSkipped ? '' : 'text-slate-400 dark:text-slate-500'}`}
+                      >
+                        {cells[column] ?? ''}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="p-4 border-t border-slate-200 dark:border-slate-700 flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium rounded-md text-slate-700 bg-slate-200 hover:bg-slate-300 dark:text-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 transition-colors"
+          >
+            キャンセル
+          </button>
+          <button
+            type="button"
+            onClick={() => onConfirm(mapping)}
+            disabled={count === 0}
+            className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 disabled:cursor-not-allowed transition-colors"
+          >
+            {count}件を入力欄に入れる
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PastePreviewDialog;
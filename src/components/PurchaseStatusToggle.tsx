@@ -0,0 +1,47 @@
+import React from 'react';
+import { PurchaseStatus, PurchaseStatuses } from '../types';
+import CheckCircleIcon from './icons/CheckCircleIcon';
+import CircleIcon from './icons/CircleIcon';
+import XCircleIcon from './icons/XCircleIcon';
+import MinusCircleIcon from './icons/MinusCircleIcon';
+import PauseCircleIcon from './icons/PauseCircleIcon';
+import ClockIcon from './icons/ClockIcon';
+
+// 購入状態ごとの表示（アイテムカード・会場マップで共通）
+export const statusConfig: Record<PurchaseStatus, { label: string; icon: React.FC<any>; color: string; dim: boolean; bg: string; }> = {
+  None: { label: '未購入', icon: CircleIcon, color: 'text-slate-400 dark:text-slate-500', dim: false, bg: '' },
+  Purchased: { label: '購入済', icon: CheckCircleIcon, color: 'text-green-600 dark:text-green-400', dim: true, bg: 'bg-green-500/20 dark:bg-green-500/30' },
+  SoldOut: { label: '売切', icon: XCircleIcon, color: 'text-red-600 dark:text-red-400', dim: true, bg: 'bg-red-500/20 dark:bg-red-500/30' },
+  Absent: { label: '欠席', icon: MinusCircleIcon, color: 'text-yellow-600 dark:text-yellow-400', dim: true, bg: 'bg-yellow-500/20 dark:bg-yellow-500/30' },
+  Postpone: { label: '後回し', icon: PauseCircleIcon, color: 'text-purple-600 dark:text-purple-400', dim: false, bg: 'bg-purple-500/20 dark:bg-purple-500/30' },
+  Late: { label: '遅参', icon: ClockIcon, color: 'text-blue-600 dark:text-blue-400', dim: false, bg: 'bg-blue-500/20 dark:bg-blue-500/30' },
+};
+
+interface PurchaseStatusToggleProps {
+  status: PurchaseStatus;
+  onChange: (status: PurchaseStatus) => void;
+}
+
+// タップするたびに購入状態を順に切り替えるボタン
+const PurchaseStatusToggle: React.FC<PurchaseStatusToggleProps> = ({ status, onChange }) => {
+  const currentStatus = statusConfig[status];
+  const IconComponent = currentStatus.icon;
+
+  const handleClick = () => {
+    const currentIndex = PurchaseStatuses.indexOf(status);
+    onChange(PurchaseStatuses[(currentIndex + 1) % PurchaseStatuses.length]);
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      className="flex items-center space-x-2 p-2 -m-2 rounded-md hover:bg-black/5 dark:hover:bg-white/5 transition-colors"
+      aria-label={`Current status: ${currentStatus.label}. Click to change.`}
+    >
+      <IconComponent className={`w-7 h-7 ${currentStatus.color}`} />
+      <span className={`font-semibold w-16 text-left ${currentStatus.color}`}>{currentStatus.label}</span>
+    </button>
+  );
+};
+
+export default PurchaseStatusToggle;
@@ -0,0 +1,169 @@
+import React, { useMemo, useState } from 'react';
+import { ShoppingItem, VenueLayout } from '../types';
+import { isPriorityItem, isWallItem, planRoute } from '../utils/route';
+
+interface RouteOptimizeDialogProps {
+  eventDate: string;
+  items: ShoppingItem[]; // 実行列のアイテム（今の順序）
+  layout: VenueLayout;
+  isEstimatedLayout: boolean; // 会場図がなく、リストのブロックから推定した配置を使う
+  selectedIds: Set<string>; // 実行列で選択中のアイテム
+  onApply: (order: string[]) => void;
+  onCancel: () => void;
+}
+
+const RouteOptimizeDialog: React.FC<RouteOptimizeDialogProps> = ({
+  eventDate,
+  items,
+  layout,
+  isEstimatedLayout,
+  selectedIds,
+  onApply,
+  onCancel,
+}) => {
+  const [startBlock, setStartBlock] = useState<string | null>(null);
+  const [priorityFirst, setPriorityFirst] = useState(true);
+  const [wallFirst, setWallFirst] = useState(true);
+  const [pinnedIds, setPinnedIds] = useState<Set<string>>(new Set());
+  // 2件以上選択していれば、選択したアイテムだけを並べ替える
+  const canLimitToSelection = items.filter(item => selectedIds.has(item.id)).length >= 2;
+  const [selectionOnly, setSelectionOnly] = useState(canLimitToSelection);
+
+  const plan = useMemo(
+    () => planRoute(items, layout, {
+      startBlock,
+      priorityFirst,
+      wallFirst,
+      pinnedIds,
+      targetIds: selectionOnly ? selectedIds : null,
+    }),
+    [items, layout, startBlock, priorityFirst, wallFirst, pinnedIds, selectionOnly, selectedIds]
+  );
+
+  const itemsMap = useMemo(() => new Map(items.map((item, index) => [item.id, { item, index }])), [items]);
+  const blockNames = useMemo(() => layout.halls.flatMap(hall => hall.blocks.map(block => ({ hall: hall.name, block: block.name }))), [layout]);
+  const unlocatedIds = new Set(plan.unlocatedIds);
+  const isChanged = plan.order.some((id, index) => id !== items[index].id);
+
+  const handleTogglePin = (id: string) => {
+    setPinnedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700 space-y-3">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900 dark:text-white">巡回順の最適化（{eventDate}）</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+              会場図上の位置から、歩く距離が短くなる順序を提案します。📌で固定したアイテムは今の位置に残ります。
+            </p>
+            {isEstimatedLayout && (
+              <p className="text-sm text-amber-600 dark:text-amber-400 mt-1">
+                会場図が設定されていないため、ブロックの並び順から推定した配置を使います（即売会リスト画面の「🗺️ 会場図」で設定できます）。
+              </p>
+            )}
+          </div>
+          <div>
+            <label htmlFor="routeStartBlock" className="block text-xs font-medium text-slate-600 dark:text-slate-400 mb-1">出発地点</label>
+            <select
+              id="routeStartBlock"
+              value={startBlock ?? ''}
+              onChange={e => setStartBlock(e.target.value || null)}
+              className="w-full p-1.5 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-900"
+            >
+              <option value="">{selectionOnly ? '選択範囲の直前のアイテム' : '今の先頭のアイテム'}</option>
+              {blockNames.map(({ hall, block }) => (
+                <option key={block} value={block}>{hall}「{block}」ブロック</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-slate-700 dark:text-slate-300">
+            <label className="flex items-center gap-1.5">
+              <input type="checkbox" checked={priorityFirst} onChange={e => setPriorityFirst(e.target.checked)} />
+              「優先」のサークルを先に回る
+            </label>
+            <label className="flex items-center gap-1.5">
+              <input type="checkbox" checked={wallFirst} onChange={e => setWallFirst(e.target.checked)} />
+              壁サークルを先に回る
+            </label>
+            {canLimitToSelection && (
+              <label className="flex items-center gap-1.5">
+                <input type="checkbox" checked={selectionOnly} onChange={e => setSelectionOnly(e.target.checked)} />
+                選択したアイテムだけ並べ替える
+              </label>
+            )}
+          </div>
+          <p className="text-sm font-medium text-slate-800 dark:text-slate-200">
+            推定距離: 約{Math.round(plan.distance)}m（今の順序: 約{Math.round(plan.previousDistance)}m）
+          </p>
+          {plan.unlocatedIds.length > 0 && (
+            <p className="text-sm text-amber-600 dark:text-amber-400">
+              会場図にないブロックの{plan.unlocatedIds.length}件は、並べ替える範囲の最後に回します。
+            </p>
+          )}
+        </div>
+
+        <ol className="flex-1 overflow-y-auto divide-y divide-slate-200 dark:divide-slate-700">
+          {plan.order.map((id, index) => {
+            const entry = itemsMap.get(id);
+            if (!entry) return null;
+            const { item, index: previousIndex } = entry;
+            const isPinned = pinnedIds.has(id);
+            const isTarget = !selectionOnly || selectedIds.has(id);
+            return (
+              <li key={id} className={`px-6 py-2 flex items-center gap-3 text-sm ${isTarget ? 'text-slate-800 dark:text-slate-200' : 'text-slate-400 dark:text-slate-500'}`}>
+                <span className="w-8 text-right text-slate-400">{index + 1}</span>
+                <button
+                  type="button"
+                  onClick={() => handleTogglePin(id)}
+                  disabled={!isTarget}
+                  className={`px-1 rounded transition-opacity ${isPinned ? 'opacity-100' : 'opacity-30 hover:opacity-70'} disabled:opacity-0`}
+                  title={isPinned ? '固定を解除' : 'この位置に固定'}
+                >
+                  📌
+                </button>
+                <span className="w-20 flex-shrink-0 font-mono">{item.block}-{item.number}</span>
+                <span className="flex-1 truncate">{item.circle}</span>
+                {isPriorityItem(item) && <span className="text-xs text-red-600 dark:text-red-400">優先</span>}
+                {isWallItem(layout, item) && <span className="text-xs text-indigo-600 dark:text-indigo-400">壁</span>}
+                {unlocatedIds.has(id) && <span className="text-xs text-amber-600 dark:text-amber-400">位置不明</span>}
+                <span className="w-16 text-right text-xs text-slate-400">
+                  {previousIndex === index ? '' : `元 ${previousIndex + 1}`}
+                </span>
+              </li>
+            );
+          })}
+        </ol>
+
+        <div className="p-4 border-t border-slate-200 dark:border-slate-700 flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium rounded-md text-slate-700 bg-slate-200 hover:bg-slate-300 dark:text-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 transition-colors"
+          >
+            キャンセル
+          </button>
+          <button
+            type="button"
+            onClick={() => onApply(plan.order)}
+            disabled={!isChanged}
+            className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 disabled:cursor-not-allowed transition-colors"
+          >
+            この順序にする
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RouteOptimizeDialog;
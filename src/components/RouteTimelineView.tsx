@@ -0,0 +1,165 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { SellOutRisk, SellOutRisks, ShoppingItem, VenueLayout } from '../types';
+import {
+  DEFAULT_QUEUE_MINUTES,
+  DEFAULT_START_TIME,
+  buildRemainingSchedule,
+  buildSchedule,
+  formatTime,
+  parseTime,
+  sellOutRiskLabels,
+} from '../utils/schedule';
+import { statusConfig } from './PurchaseStatusToggle';
+
+interface RouteTimelineViewProps {
+  eventDate: string;
+  items: ShoppingItem[]; // 実行列のアイテム（巡回順）
+  layout: VenueLayout;
+  isEstimatedLayout: boolean; // 会場図がなく、リストのブロックから推定した配置を使う
+  startTime?: string; // 参加日の開始時刻（HH:MM）
+  onChangeStartTime: (time: string) => void;
+  onUpdateItem: (item: ShoppingItem) => void;
+}
+
+// 現在の時刻（0時からの分）
+const getNowMinutes = () => {
+  const now = new Date();
+  return now.getHours() * 60 + now.getMinutes();
+};
+
+const RouteTimelineView: React.FC<RouteTimelineViewProps> = ({
+  eventDate,
+  items,
+  layout,
+  isEstimatedLayout,
+  startTime,
+  onChangeStartTime,
+  onUpdateItem,
+}) => {
+  // 開始時刻からすべてを回る予定と、現在地から残りを回る予定を切り替える
+  const [fromNow, setFromNow] = useState(false);
+  const [now, setNow] = useState(getNowMinutes);
+
+  useEffect(() => {
+    if (!fromNow) return;
+    setNow(getNowMinutes());
+    const timer = window.setInterval(() => setNow(getNowMinutes()), 60 * 1000);
+    return () => window.clearInterval(timer);
+  }, [fromNow]);
+
+  const opening = parseTime(startTime ?? DEFAULT_START_TIME) ?? parseTime(DEFAULT_START_TIME)!;
+  const schedule = useMemo(
+    () => (fromNow ? buildRemainingSchedule(items, layout, opening, now) : buildSchedule(items, layout, opening)),
+    [fromNow, items, layout, opening, now]
+  );
+  const atRiskCount = schedule.filter(entry => entry.isAtRisk).length;
+  const unlocatedCount = schedule.filter(entry => !entry.isLocated).length;
+  const orderOf = useMemo(() => new Map(items.map((item, index) => [item.id, index + 1])), [items]);
+
+  const handleQueueMinutesChange = (item: ShoppingItem, value: string) => {
+    const { queueMinutes: _queueMinutes, ...rest } = item;
+    const minutes = parseInt(value, 10);
+    onUpdateItem(Number.isNaN(minutes) ? rest : { ...rest, queueMinutes: Math.max(0, minutes) });
+  };
+
+  const handleSellOutRiskChange = (item: ShoppingItem, value: string) => {
+    const { sellOutRisk: _sellOutRisk, ...rest } = item;
+    onUpdateItem(value ? { ...rest, sellOutRisk: value as SellOutRisk } : rest);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-slate-700 dark:text-slate-300">
+        <span className="font-semibold text-slate-800 dark:text-slate-200">{eventDate}の巡回の予定</span>
+        <label className="flex items-center gap-1.5">
+          開始時刻
+          <input
+            type="time"
+            value={startTime ?? DEFAULT_START_TIME}
+            onChange={e => e.target.value && onChangeStartTime(e.target.value)}
+            className="p-1 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-900"
+          />
+        </label>
+        <label className="flex items-center gap-1.5">
+          <input type="radio" checked={!fromNow} onChange={() => setFromNow(false)} />
+          開始時刻からすべて
+        </label>
+        <label className="flex items-center gap-1.5">
+          <input type="radio" checked={fromNow} onChange={() => setFromNow(true)} />
+          現在地から残りを
+        </label>
+      </div>
+      <p className="text-xs text-slate-500 dark:text-slate-400">
+        会場図上の距離から歩く時間を、各アイテムの待ち時間（未設定は{DEFAULT_QUEUE_MINUTES}分）を足して到着時刻を見込みます。売り切れの恐れは開始からの経過時間で判定します（高: 30分、中: 2時間）。
+      </p>
+      {isEstimatedLayout && (
+        <p className="text-xs text-amber-600 dark:text-amber-400">会場図が設定されていないため、ブロックの並び順から推定した配置で歩く時間を計算しています。</p>
+      )}
+      {unlocatedCount > 0 && (
+        <p className="text-xs text-amber-600 dark:text-amber-400">会場図にないブロックの{unlocatedCount}件は、歩く時間を0分として計算しています。</p>
+      )}
+
+      {schedule.length === 0 ? (
+        <p className="text-center text-slate-500 dark:text-slate-400 py-8">
+          {fromNow ? '残りのアイテムはありません。' : '実行モード表示列にアイテムがありません。'}
+        </p>
+      ) : (
+        <ol className="bg-white dark:bg-slate-800 rounded-lg shadow divide-y divide-slate-200 dark:divide-slate-700">
+          {schedule.map(({ item, walkMinutes, arrival, sellOutAt, isAtRisk }) => {
+            const status = statusConfig[item.purchaseStatus];
+            return (
+              <li
+                key={item.id}
+                className={`px-4 py-2 flex flex-wrap items-center gap-x-3 gap-y-1 text-sm ${isAtRisk ? 'bg-red-50 dark:bg-red-900/30' : ''}`}
+              >
+                <span className={`w-14 font-mono font-bold ${isAtRisk ? 'text-red-600 dark:text-red-400' : 'text-slate-900 dark:text-slate-100'}`}>
+                  {formatTime(arrival)}
+                </span>
+                <span className="w-16 text-xs text-slate-400">{walkMinutes >= 0.5 ? `🚶${Math.round(walkMinutes)}分` : ''}</span>
+                <span className="w-8 text-right text-slate-400">{orderOf.get(item.id)}</span>
+                <span className="w-20 flex-shrink-0 font-mono text-slate-800 dark:text-slate-200">{item.block}-{item.number}</span>
+                <span className="flex-1 min-w-[8rem] truncate text-slate-800 dark:text-slate-200" title={item.circle}>{item.circle}</span>
+                <span className={`w-12 text-xs font-semibold ${status.color}`}>{status.label}</span>
+                {isAtRisk && sellOutAt !== null && (
+                  <span className="text-xs font-semibold text-red-600 dark:text-red-400">売切の恐れ（{formatTime(sellOutAt)}頃）</span>
+                )}
+                <label className="flex items-center gap-1 text-xs text-slate-500 dark:text-slate-400">
+                  待ち
+                  <input
+                    type="number"
+                    min={0}
+                    value={item.queueMinutes ?? ''}
+                    placeholder={String(DEFAULT_QUEUE_MINUTES)}
+                    onChange={e => handleQueueMinutesChange(item, e.target.value)}
+                    className="w-14 p-1 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-900 text-right"
+                  />
+                  分
+                </label>
+                <label className="flex items-center gap-1 text-xs text-slate-500 dark:text-slate-400">
+                  売切の恐れ
+                  <select
+                    value={item.sellOutRisk ?? ''}
+                    onChange={e => handleSellOutRiskChange(item, e.target.value)}
+                    className="p-1 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-900"
+                  >
+                    <option value="">なし</option>
+                    {SellOutRisks.map(risk => <option key={risk} value={risk}>{sellOutRiskLabels[risk]}</option>)}
+                  </select>
+                </label>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {schedule.length > 0 && (
+        <p className="text-sm font-medium text-slate-800 dark:text-slate-200">
+          終了の見込み: {formatTime(schedule[schedule.length - 1].departure)}
+          {atRiskCount > 0 && <span className="ml-3 text-red-600 dark:text-red-400">売切の恐れ: {atRiskCount}件</span>}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RouteTimelineView;
@@ -1,12 +1,8 @@
 import React, { useCallback, useMemo, useState, useRef, useEffect } from 'react';
-import { ShoppingItem, PurchaseStatus, PurchaseStatuses } from '../types';
+import { ShoppingItem, PurchaseStatus } from '../types';
 import GripVerticalIcon from './icons/GripVerticalIcon';
-import CheckCircleIcon from './icons/CheckCircleIcon';
-import CircleIcon from './icons/CircleIcon';
-import XCircleIcon from './icons/XCircleIcon';
-import MinusCircleIcon from './icons/MinusCircleIcon';
-import PauseCircleIcon from './icons/PauseCircleIcon';
-import ClockIcon from './icons/ClockIcon';
+import PurchaseStatusToggle, { statusConfig } from './PurchaseStatusToggle';
+import { currentSourceText } from '../utils/normalize';
 
 export interface ShoppingItemCardProps {
   item: ShoppingItem;
@@ -19,15 +15,6 @@ export interface ShoppingItemCardProps {
   blockBackgroundColor?: string;
 }
 
-const statusConfig: Record<PurchaseStatus, { label: string; icon: React.FC<any>; color: string; dim: boolean; bg: string; }> = {
-  None: { label: '未購入', icon: CircleIcon, color: 'text-slate-400 dark:text-slate-500', dim: false, bg: '' },
-  Purchased: { label: '購入済', icon: CheckCircleIcon, color: 'text-green-600 dark:text-green-400', dim: true, bg: 'bg-green-500/20 dark:bg-green-500/30' },
-  SoldOut: { label: '売切', icon: XCircleIcon, color: 'text-red-600 dark:text-red-400', dim: true, bg: 'bg-red-500/20 dark:bg-red-500/30' },
-  Absent: { label: '欠席', icon: MinusCircleIcon, color: 'text-yellow-600 dark:text-yellow-400', dim: true, bg: 'bg-yellow-500/20 dark:bg-yellow-500/30' },
-  Postpone: { label: '後回し', icon: PauseCircleIcon, color: 'text-purple-600 dark:text-purple-400', dim: false, bg: 'bg-purple-500/20 dark:bg-purple-500/30' },
-  Late: { label: '遅参', icon: ClockIcon, color: 'text-blue-600 dark:text-blue-400', dim: false, bg: 'bg-blue-500/20 dark:bg-blue-500/30' },
-};
-
 
 const ShoppingItemCard: React.FC<ShoppingItemCardProps> = ({
   item,
@@ -50,11 +37,8 @@ const ShoppingItemCard: React.FC<ShoppingItemCardProps> = ({
     }
   };
 
-  const togglePurchaseStatus = useCallback(() => {
-    const currentIndex = PurchaseStatuses.indexOf(item.purchaseStatus);
-    const nextIndex = (currentIndex + 1) % PurchaseStatuses.length;
-    const nextStatus = PurchaseStatuses[nextIndex];
-    onUpdate({ ...item, purchaseStatus: nextStatus });
+  const handleStatusChange = useCallback((purchaseStatus: PurchaseStatus) => {
+    onUpdate({ ...item, purchaseStatus });
   }, [item, onUpdate]);
 
   const handleRemarksChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -112,7 +96,11 @@ const ShoppingItemCard: React.FC<ShoppingItemCardProps> = ({
 
   const currentStatus = statusConfig[item.purchaseStatus];
   const locationString = `${item.block}-${item.number}`;
-  const IconComponent = currentStatus.icon;
+  // 取り込み・入力時の表記が正規化後と異なる場合は、元の表記も表示する
+  const sourceText = currentSourceText(item);
+  const sourceLocation = sourceText?.block !== undefined || sourceText?.number !== undefined
+    ? `${sourceText.block ?? item.block}-${sourceText.number ?? item.number}`
+    : null;
 
   // 備考欄のチェック
   const remarksWarning = useMemo(() => {
@@ -223,8 +211,15 @@ const ShoppingItemCard: React.FC<ShoppingItemCardProps> = ({
         ></div>
         <div className="relative z-10 flex justify-between items-start gap-4">
             <div>
-                <p className="font-bold text-md text-slate-900 dark:text-slate-100">{`${item.eventDate} ${locationString}`}</p>
+                <p className="font-bold text-md text-slate-900 dark:text-slate-100">{`${item.eventDate} ${locationString}`}
+                  {sourceLocation && <span className="ml-2 text-xs font-normal text-slate-500 dark:text-slate-400">（元: {sourceLocation}）</span>}
+                </p>
                 <p className="mt-1 text-slate-600 dark:text-slate-300 truncate" title={item.circle}>{item.circle}</p>
+                {item.removedFromSheet && (
+                  <span className="inline-block mt-1 text-xs font-semibold px-2 py-0.5 rounded-full bg-orange-100 text-orange-700 dark:bg-orange-900/50 dark:text-orange-300">
+                    シートから削除
+                  </span>
+                )}
             </div>
             <input
                 type="text"
@@ -240,14 +235,7 @@ const ShoppingItemCard: React.FC<ShoppingItemCardProps> = ({
       </div>
       
       <div className="relative flex flex-col items-end justify-between space-y-2 p-4 border-l border-slate-200/80 dark:border-slate-700/80 z-10">
-        <button 
-          onClick={togglePurchaseStatus} 
-          className="flex items-center space-x-2 p-2 -m-2 rounded-md hover:bg-black/5 dark:hover:bg-white/5 transition-colors"
-          aria-label={`Current status: ${currentStatus.label}. Click to change.`}
-        >
-          <IconComponent className={`w-7 h-7 ${currentStatus.color}`} />
-          <span className={`font-semibold w-16 text-left ${currentStatus.color}`}>{currentStatus.label}</span>
-        </button>
+        <PurchaseStatusToggle status={item.purchaseStatus} onChange={handleStatusChange} />
         <div className="flex items-center">
             <span className="text-slate-500 dark:text-slate-400 mr-1">¥</span>
             <select
@@ -262,6 +250,9 @@ const ShoppingItemCard: React.FC<ShoppingItemCardProps> = ({
               ))}
             </select>
           </div>
+          {sourceText?.price !== undefined && (
+            <span className="text-xs text-slate-500 dark:text-slate-400" title="取り込み・入力時の表記">（元: {sourceText.price}）</span>
+          )}
       </div>
       
       {menuVisible && (
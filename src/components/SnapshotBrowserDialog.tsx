@@ -0,0 +1,105 @@
+import React from 'react';
+import { EventSnapshot, SnapshotReason } from '../types';
+import TrashIcon from './icons/TrashIcon';
+
+interface SnapshotBrowserDialogProps {
+  eventName: string;
+  snapshots: EventSnapshot[] | null; // null の場合は読み込み中
+  onRestore: (snapshot: EventSnapshot) => void;
+  onDelete: (snapshot: EventSnapshot) => void;
+  onClose: () => void;
+}
+
+const reasonLabels: Record<SnapshotReason, string> = {
+  update: 'スプレッドシート更新前',
+  import: 'インポート前',
+  rename: '名称変更前',
+  delete: '削除前',
+  restore: '復元前',
+};
+
+const SnapshotBrowserDialog: React.FC<SnapshotBrowserDialogProps> = ({
+  eventName,
+  snapshots,
+  onRestore,
+  onDelete,
+  onClose,
+}) => {
+  const handleRestore = (snapshot: EventSnapshot) => {
+    const date = new Date(snapshot.createdAt).toLocaleString('ja-JP');
+    if (window.confirm(`「${eventName}」を${date}（${reasonLabels[snapshot.reason]}）の状態に戻しますか？現在の状態もスナップショットとして保存されます。`)) {
+      onRestore(snapshot);
+    }
+  };
+
+  const handleDelete = (snapshot: EventSnapshot) => {
+    if (window.confirm('このスナップショットを削除しますか？')) {
+      onDelete(snapshot);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl max-w-lg w-full mx-4 max-h-[80vh] flex flex-col">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-xl font-bold text-slate-900 dark:text-white">スナップショット</h2>
+          <p className="text-sm text-blue-600 dark:text-blue-400 font-semibold mt-1">{eventName}</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {snapshots === null ? (
+            <p className="text-center text-slate-500 dark:text-slate-400 py-12">読み込み中...</p>
+          ) : snapshots.length === 0 ? (
+            <p className="text-center text-slate-500 dark:text-slate-400 py-12">保存されたスナップショットはありません。</p>
+          ) : (
+            <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+              {snapshots.map(snapshot => {
+                const executeCount = Object.values(snapshot.executeModeItems).reduce((sum, ids) => sum + ids.length, 0);
+                const purchasedCount = snapshot.items.filter(item => item.purchaseStatus === 'Purchased').length;
+                return (
+                  <li key={snapshot.id} className="p-4 flex items-center gap-3">
+                    <div className="flex-grow min-w-0">
+                      <p className="font-medium text-slate-800 dark:text-slate-200">
+                        {new Date(snapshot.createdAt).toLocaleString('ja-JP')}
+                        <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300">
+                          {reasonLabels[snapshot.reason]}
+                        </span>
+                      </p>
+                      <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                        {snapshot.items.length}件（実行列 {executeCount}件・購入済 {purchasedCount}件）
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleDelete(snapshot)}
+                      className="p-2 rounded-md text-slate-400 hover:text-red-600 hover:bg-red-50 dark:hover:text-red-400 dark:hover:bg-red-900/30 transition-colors flex-shrink-0"
+                      title="削除"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleRestore(snapshot)}
+                      className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 transition-colors flex-shrink-0"
+                    >
+                      復元
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 dark:border-slate-700 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium rounded-md text-slate-700 bg-slate-200 hover:bg-slate-300 dark:text-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 transition-colors"
+          >
+            閉じる
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SnapshotBrowserDialog;
@@ -0,0 +1,35 @@
+import React from 'react';
+import XIcon from './icons/XIcon';
+
+interface StorageErrorBannerProps {
+  message: string;
+  onRetry?: () => void;
+  onDismiss: () => void;
+}
+
+const StorageErrorBanner: React.FC<StorageErrorBannerProps> = ({ message, onRetry, onDismiss }) => {
+  return (
+    <div className="fixed top-0 left-0 right-0 z-50 bg-red-600 text-white shadow-lg animate-fade-in" role="alert">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center gap-4">
+        <p className="flex-grow text-sm font-medium">⚠️ {message}</p>
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            className="px-3 py-1.5 text-sm font-medium rounded-md bg-white/20 hover:bg-white/30 transition-colors flex-shrink-0"
+          >
+            再試行
+          </button>
+        )}
+        <button
+          onClick={onDismiss}
+          className="p-1.5 rounded-md hover:bg-white/20 transition-colors flex-shrink-0"
+          title="閉じる"
+        >
+          <XIcon className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StorageErrorBanner;
@@ -0,0 +1,31 @@
+import React, { useEffect } from 'react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onClose: () => void;
+  duration?: number;
+}
+
+const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onClose, duration = 6000 }) => {
+  useEffect(() => {
+    const timeout = window.setTimeout(onClose, duration);
+    return () => clearTimeout(timeout);
+  }, [message, onClose, duration]);
+
+  return (
+    <div className="fixed bottom-20 left-1/2 -translate-x-1/2 z-40 animate-fade-in" role="status">
+      <div className="flex items-center gap-4 px-4 py-3 rounded-lg shadow-lg bg-slate-800 text-white dark:bg-slate-700">
+        <span className="text-sm">{message}</span>
+        <button
+          onClick={() => { onUndo(); onClose(); }}
+          className="text-sm font-semibold text-blue-300 hover:text-blue-200 whitespace-nowrap"
+        >
+          元に戻す
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UndoToast;
@@ -1,71 +1,343 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { ShoppingItem } from '../types';
+import { ConflictChoices, ItemUpdate, SheetMergeResult, UpdateSelection, conflictChoiceKey, mergeFieldLabels } from '../utils/sheetMerge';
 
 interface UpdateConfirmationModalProps {
-  itemsToDelete: ShoppingItem[];
-  itemsToUpdate: ShoppingItem[];
-  itemsToAdd: Omit<ShoppingItem, 'id' | 'purchaseStatus'>[];
-  onConfirm: () => void;
+  result: SheetMergeResult;
+  executeColumns: Record<string, ShoppingItem[]>; // 参加日ごとの実行列（表示順）
+  onConfirm: (selection: UpdateSelection) => void;
   onCancel: () => void;
 }
 
+const formatValue = (value: string | number) => (value === '' ? '（空欄）' : String(value));
+
+const toggleInSet = <T,>(set: Set<T>, value: T, included: boolean) => {
+  const next = new Set(set);
+  if (included) {
+    next.add(value);
+  } else {
+    next.delete(value);
+  }
+  return next;
+};
+
+const ChoiceButton: React.FC<{ selected: boolean; label: string; value: string; onClick: () => void }> = ({ selected, label, value, onClick }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={`flex-1 min-w-0 text-left px-2 py-1.5 rounded-md border text-xs transition-colors ${
+      selected
+        ? 'border-blue-500 bg-blue-50 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200'
+        : 'border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'
+    }`}
+  >
+    <span className="block font-semibold">{label}</span>
+    <span className="block break-words">{value}</span>
+  </button>
+);
+
+const SectionHeader: React.FC<{ title: string; colorClass: string; checked: boolean; onToggleAll: (checked: boolean) => void }> = ({ title, colorClass, checked, onToggleAll }) => (
+  <div className="flex items-center justify-between mb-2">
+    <h3 className={`text-sm font-semibold ${colorClass}`}>{title}</h3>
+    <label className="flex items-center gap-1 text-xs text-slate-500 dark:text-slate-400">
+      <input type="checkbox" checked={checked} onChange={e => onToggleAll(e.target.checked)} />
+      すべて選択
+    </label>
+  </div>
+);
+
 const UpdateConfirmationModal: React.FC<UpdateConfirmationModalProps> = ({
-  itemsToDelete,
-  itemsToUpdate,
-  itemsToAdd,
+  result,
+  executeColumns,
   onConfirm,
   onCancel,
 }) => {
+  const { itemsToDelete, itemsToUpdate, itemsToAdd, keptLocalEdits, conflicts } = result;
+  const [choices, setChoices] = useState<ConflictChoices>({});
+  const [rejectedIds, setRejectedIds] = useState<Set<string>>(new Set());
+  const [keepRemovedIds, setKeepRemovedIds] = useState<Set<string>>(new Set());
+  const [rejectedAddIndexes, setRejectedAddIndexes] = useState<Set<number>>(new Set());
+  const [addColumn, setAddColumn] = useState<'candidate' | 'execute'>('candidate');
+  const [executeIndexes, setExecuteIndexes] = useState<Record<string, number>>({});
+
+  // 基準のみが変わったアイテムは確認不要のため表示しない
+  const changedItems = itemsToUpdate.filter(update => update.changedFields.length > 0 && !update.moved);
+  const movedItems = itemsToUpdate.filter(update => update.changedFields.length > 0 && update.moved);
+  const executeIds = useMemo(
+    () => new Set(Object.values(executeColumns).flatMap(items => items.map(item => item.id))),
+    [executeColumns]
+  );
+  const acceptedAddDates = Array.from(new Set(
+    itemsToAdd.filter((_, index) => !rejectedAddIndexes.has(index)).map(item => item.eventDate)
+  ));
+
+  const choose = (key: string, choice: 'local' | 'sheet') => {
+    setChoices(prev => ({ ...prev, [key]: choice }));
+  };
+
+  const renderUpdateList = (updates: ItemUpdate[]) => (
+    <ul className="text-sm text-slate-600 dark:text-slate-300 space-y-2 max-h-60 overflow-y-auto">
+      {updates.map(({ before, after, changedFields }) => (
+        <li key={before.id}>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={!rejectedIds.has(before.id)}
+              onChange={e => setRejectedIds(prev => toggleInSet(prev, before.id, !e.target.checked))}
+            />
+            <span className="min-w-0 truncate">{before.circle} - {before.title}</span>
+          </label>
+          <ul className="ml-6 mt-1 text-xs space-y-0.5">
+            {changedFields.map(field => (
+              <li key={field}>
+                <span className="text-slate-400">{mergeFieldLabels[field]}: </span>
+                <span className="line-through text-red-500 dark:text-red-400">{formatValue(before[field])}</span>
+                <span className="text-slate-400"> → </span>
+                <span className="text-green-600 dark:text-green-400">{formatValue(after[field])}</span>
+              </li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ul>
+  );
+
+  const handleConfirm = () => {
+    const indexes: Record<string, number> = {};
+    acceptedAddDates.forEach(date => {
+      indexes[date] = executeIndexes[date] ?? (executeColumns[date] || []).length;
+    });
+    onConfirm({
+      choices,
+      rejectedIds: Array.from(rejectedIds),
+      keepRemovedIds: Array.from(keepRemovedIds).filter(id => !rejectedIds.has(id)),
+      rejectedAddIndexes: Array.from(rejectedAddIndexes),
+      addPosition: addColumn === 'execute' ? { column: 'execute', indexes } : { column: 'candidate' },
+    });
+  };
+
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
       <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[80vh] overflow-y-auto">
         <div className="p-6">
           <h2 className="text-xl font-bold text-slate-900 dark:text-white mb-4">アイテム更新の確認</h2>
-          
+
           <div className="space-y-4 mb-6">
-            {itemsToDelete.length > 0 && (
+            {conflicts.length > 0 && (
               <div>
-                <h3 className="text-sm font-semibold text-red-600 dark:text-red-400 mb-2">
-                  削除: {itemsToDelete.length}件
+                <h3 className="text-sm font-semibold text-orange-600 dark:text-orange-400 mb-1">
+                  競合: {conflicts.length}件
                 </h3>
-                <ul className="text-sm text-slate-600 dark:text-slate-300 space-y-1">
-                  {itemsToDelete.slice(0, 5).map(item => (
-                    <li key={item.id}>• {item.circle} - {item.title}</li>
+                <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">
+                  シートとこの端末の両方で変更されています。残す値を選んでください（選ばない場合はこの端末の値を残します）。
+                </p>
+                <ul className="space-y-3">
+                  {conflicts.map(conflict => (
+                    <li key={conflict.item.id} className="p-3 rounded-md bg-orange-50 dark:bg-orange-900/20 space-y-2">
+                      <p className="text-sm font-medium text-slate-800 dark:text-slate-200">
+                        {conflict.item.circle} - {conflict.item.title}
+                      </p>
+                      {conflict.type === 'deleted' ? (
+                        <>
+                          <p className="text-xs text-slate-500 dark:text-slate-400">シートから削除されましたが、この端末で編集されています。</p>
+                          <div className="flex gap-2">
+                            <ChoiceButton
+                              selected={choices[conflictChoiceKey(conflict.item.id)] !== 'sheet'}
+                              label="この端末"
+                              value="リストに残す"
+                              onClick={() => choose(conflictChoiceKey(conflict.item.id), 'local')}
+                            />
+                            <ChoiceButton
+                              selected={choices[conflictChoiceKey(conflict.item.id)] === 'sheet'}
+                              label="シート"
+                              value="削除する"
+                              onClick={() => choose(conflictChoiceKey(conflict.item.id), 'sheet')}
+                            />
+                          </div>
+                        </>
+                      ) : (
+                        conflict.conflicts.map(fieldConflict => {
+                          const key = conflictChoiceKey(conflict.item.id, fieldConflict.field);
+                          return (
+                            <div key={fieldConflict.field}>
+                              <p className="text-xs text-slate-500 dark:text-slate-400 mb-1">
+                                {mergeFieldLabels[fieldConflict.field]}（前回の取り込み: {formatValue(fieldConflict.base)}）
+                              </p>
+                              <div className="flex gap-2">
+                                <ChoiceButton
+                                  selected={choices[key] !== 'sheet'}
+                                  label="この端末"
+                                  value={formatValue(fieldConflict.local)}
+                                  onClick={() => choose(key, 'local')}
+                                />
+                                <ChoiceButton
+                                  selected={choices[key] === 'sheet'}
+                                  label="シート"
+                                  value={formatValue(fieldConflict.sheet)}
+                                  onClick={() => choose(key, 'sheet')}
+                                />
+                              </div>
+                            </div>
+                          );
+                        })
+                      )}
+                    </li>
                   ))}
-                  {itemsToDelete.length > 5 && <li>...他 {itemsToDelete.length - 5}件</li>}
                 </ul>
               </div>
             )}
-            
-            {itemsToUpdate.length > 0 && (
+
+            {itemsToDelete.length > 0 && (
               <div>
-                <h3 className="text-sm font-semibold text-blue-600 dark:text-blue-400 mb-2">
-                  更新: {itemsToUpdate.length}件
-                </h3>
-                <ul className="text-sm text-slate-600 dark:text-slate-300 space-y-1">
-                  {itemsToUpdate.slice(0, 5).map(item => (
-                    <li key={item.id}>• {item.circle} - {item.title}</li>
+                <SectionHeader
+                  title={`削除: ${itemsToDelete.filter(item => !rejectedIds.has(item.id)).length}/${itemsToDelete.length}件`}
+                  colorClass="text-red-600 dark:text-red-400"
+                  checked={itemsToDelete.every(item => !rejectedIds.has(item.id))}
+                  onToggleAll={checked => itemsToDelete.forEach(item => setRejectedIds(prev => toggleInSet(prev, item.id, !checked)))}
+                />
+                <ul className="text-sm text-slate-600 dark:text-slate-300 space-y-1 max-h-60 overflow-y-auto">
+                  {itemsToDelete.map(item => (
+                    <li key={item.id}>
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={!rejectedIds.has(item.id)}
+                          onChange={e => setRejectedIds(prev => toggleInSet(prev, item.id, !e.target.checked))}
+                        />
+                        <span className="min-w-0 truncate">{item.circle} - {item.title}</span>
+                      </label>
+                      {executeIds.has(item.id) && !rejectedIds.has(item.id) && (
+                        <div className="ml-6 mt-1 flex flex-wrap items-center gap-3 text-xs">
+                          <span className="text-slate-400">実行列にあります:</span>
+                          <label className="flex items-center gap-1">
+                            <input
+                              type="radio"
+                              checked={!keepRemovedIds.has(item.id)}
+                              onChange={() => setKeepRemovedIds(prev => toggleInSet(prev, item.id, false))}
+                            />
+                            削除する
+                          </label>
+                          <label className="flex items-center gap-1">
+                            <input
+                              type="radio"
+                              checked={keepRemovedIds.has(item.id)}
+                              onChange={() => setKeepRemovedIds(prev => toggleInSet(prev, item.id, true))}
+                            />
+                            残して「シートから削除」と表示
+                          </label>
+                        </div>
+                      )}
+                    </li>
                   ))}
-                  {itemsToUpdate.length > 5 && <li>...他 {itemsToUpdate.length - 5}件</li>}
                 </ul>
               </div>
             )}
-            
+
+            {movedItems.length > 0 && (
+              <div>
+                <SectionHeader
+                  title={`移動: ${movedItems.filter(({ before }) => !rejectedIds.has(before.id)).length}/${movedItems.length}件`}
+                  colorClass="text-purple-600 dark:text-purple-400"
+                  checked={movedItems.every(({ before }) => !rejectedIds.has(before.id))}
+                  onToggleAll={checked => movedItems.forEach(({ before }) => setRejectedIds(prev => toggleInSet(prev, before.id, !checked)))}
+                />
+                <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">
+                  スペースが変わった同じサークルとみなし、購入状態・備考・実行列の位置を引き継ぎます（参加日が変わった場合は、その日の実行列の末尾に移します）。チェックを外すと削除と追加として扱います。
+                </p>
+                {renderUpdateList(movedItems)}
+              </div>
+            )}
+
+            {changedItems.length > 0 && (
+              <div>
+                <SectionHeader
+                  title={`更新: ${changedItems.filter(({ before }) => !rejectedIds.has(before.id)).length}/${changedItems.length}件`}
+                  colorClass="text-blue-600 dark:text-blue-400"
+                  checked={changedItems.every(({ before }) => !rejectedIds.has(before.id))}
+                  onToggleAll={checked => changedItems.forEach(({ before }) => setRejectedIds(prev => toggleInSet(prev, before.id, !checked)))}
+                />
+                {renderUpdateList(changedItems)}
+              </div>
+            )}
+
             {itemsToAdd.length > 0 && (
               <div>
-                <h3 className="text-sm font-semibold text-green-600 dark:text-green-400 mb-2">
-                  追加: {itemsToAdd.length}件
-                </h3>
-                <ul className="text-sm text-slate-600 dark:text-slate-300 space-y-1">
-                  {itemsToAdd.slice(0, 5).map((item, index) => (
-                    <li key={index}>• {item.circle} - {item.title}</li>
+                <SectionHeader
+                  title={`追加: ${itemsToAdd.length - rejectedAddIndexes.size}/${itemsToAdd.length}件`}
+                  colorClass="text-green-600 dark:text-green-400"
+                  checked={rejectedAddIndexes.size === 0}
+                  onToggleAll={checked => setRejectedAddIndexes(checked ? new Set() : new Set(itemsToAdd.map((_, index) => index)))}
+                />
+                <ul className="text-sm text-slate-600 dark:text-slate-300 space-y-1 max-h-60 overflow-y-auto">
+                  {itemsToAdd.map((item, index) => (
+                    <li key={index}>
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={!rejectedAddIndexes.has(index)}
+                          onChange={e => setRejectedAddIndexes(prev => toggleInSet(prev, index, !e.target.checked))}
+                        />
+                        <span className="min-w-0 truncate">{item.circle} - {item.title}</span>
+                        <span className="text-xs text-slate-400 flex-shrink-0">{item.eventDate} {item.block}-{item.number}</span>
+                      </label>
+                    </li>
                   ))}
-                  {itemsToAdd.length > 5 && <li>...他 {itemsToAdd.length - 5}件</li>}
                 </ul>
+                {acceptedAddDates.length > 0 && (
+                  <div className="mt-3 p-3 rounded-md bg-slate-50 dark:bg-slate-900/50 space-y-2 text-sm">
+                    <p className="text-xs font-medium text-slate-500 dark:text-slate-400">追加先</p>
+                    <div className="flex flex-wrap gap-4">
+                      <label className="flex items-center gap-1">
+                        <input type="radio" checked={addColumn === 'candidate'} onChange={() => setAddColumn('candidate')} />
+                        候補リスト
+                      </label>
+                      <label className="flex items-center gap-1">
+                        <input type="radio" checked={addColumn === 'execute'} onChange={() => setAddColumn('execute')} />
+                        実行列
+                      </label>
+                    </div>
+                    {addColumn === 'execute' && acceptedAddDates.map(date => {
+                      const column = executeColumns[date] || [];
+                      return (
+                        <label key={date} className="flex items-center gap-2">
+                          <span className="text-xs text-slate-500 dark:text-slate-400 w-16 flex-shrink-0">{date}</span>
+                          <select
+                            value={executeIndexes[date] ?? column.length}
+                            onChange={e => setExecuteIndexes(prev => ({ ...prev, [date]: Number(e.target.value) }))}
+                            className="flex-grow min-w-0 p-1.5 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-900"
+                          >
+                            <option value={0}>先頭</option>
+                            {column.map((item, index) => (
+                              <option key={item.id} value={index + 1}>
+                                {index + 1 === column.length ? '末尾' : `${index + 1}. ${item.block}-${item.number} ${item.circle} の後`}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                      );
+                    })}
+                  </div>
+                )}
               </div>
             )}
+
+            {keptLocalEdits > 0 && (
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                この端末で編集した{keptLocalEdits}件のアイテムは、編集内容を残したまま更新します。
+              </p>
+            )}
+
+            {(itemsToDelete.length > 0 || changedItems.length > 0 || itemsToAdd.length > 0) && (
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                チェックを外して反映しなかった削除・更新・追加は、次回の更新で再び表示されます。
+              </p>
+            )}
+
+            {conflicts.length === 0 && itemsToDelete.length === 0 && changedItems.length === 0 && movedItems.length === 0 && itemsToAdd.length === 0 && (
+              <p className="text-sm text-slate-600 dark:text-slate-300">シートに新しい変更はありません。</p>
+            )}
           </div>
-          
+
           <div className="flex justify-end space-x-3">
             <button
               onClick={onCancel}
@@ -74,7 +346,7 @@ const UpdateConfirmationModal: React.FC<UpdateConfirmationModalProps> = ({
               キャンセル
             </button>
             <button
-              onClick={onConfirm}
+              onClick={handleConfirm}
               className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 transition-colors"
             >
               更新を実行
@@ -87,4 +359,3 @@ const UpdateConfirmationModal: React.FC<UpdateConfirmationModalProps> = ({
 };
 
 export default UpdateConfirmationModal;
-
@@ -1,23 +1,33 @@
 import React, { useState } from 'react';
+import { ImportSource, UrlImportSource } from '../types';
+import { describeImportSource, getSourceUrl, toUrlImportSource } from '../utils/importSource';
 
 interface UrlUpdateDialogProps {
-  currentUrl: string;
-  onConfirm: (url: string, sheetName: string) => void;
+  currentSource?: ImportSource;
+  errorMessage?: string; // 記録された取り込み元を読み込めなかった理由
+  onConfirm: (source: UrlImportSource, reviewMapping: boolean) => void;
+  onSelectFile: () => void;
   onCancel: () => void;
 }
 
 const UrlUpdateDialog: React.FC<UrlUpdateDialogProps> = ({
-  currentUrl,
+  currentSource,
+  errorMessage,
   onConfirm,
+  onSelectFile,
   onCancel,
 }) => {
-  const [url, setUrl] = useState(currentUrl);
-  const [sheetName, setSheetName] = useState('');
+  const [url, setUrl] = useState(getSourceUrl(currentSource));
+  const [sheetName, setSheetName] = useState(currentSource?.type === 'google-sheets' ? currentSource.sheetName : '');
+  const [reviewMapping, setReviewMapping] = useState(false);
+
+  // シート名はGoogleスプレッドシートのURLの場合のみ指定できる（読み込むシートはインポート時と同じ規則で決める）
+  const source = url.trim() ? toUrlImportSource(url.trim(), sheetName.trim()) : null;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (url.trim()) {
-      onConfirm(url.trim(), sheetName.trim());
+    if (source) {
+      onConfirm(source, reviewMapping);
     }
   };
 
@@ -25,12 +35,19 @@ const UrlUpdateDialog: React.FC<UrlUpdateDialogProps> = ({
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
       <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl max-w-md w-full mx-4">
         <div className="p-6">
-          <h2 className="text-xl font-bold text-slate-900 dark:text-white mb-4">スプレッドシートURLを更新</h2>
+          <h2 className="text-xl font-bold text-slate-900 dark:text-white mb-4">取り込み元を指定して更新</h2>
+
+          {currentSource && (currentSource.type !== 'file' || currentSource.fileName) && (
+            <p className="text-sm text-slate-600 dark:text-slate-400 mb-2">現在の取り込み元: {describeImportSource(currentSource)}</p>
+          )}
+          {errorMessage && (
+            <p className="text-sm text-red-600 dark:text-red-400 mb-2">{errorMessage}</p>
+          )}
           
           <form onSubmit={handleSubmit} className="space-y-4">
             <div>
               <label htmlFor="url" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
-                スプレッドシートURL
+                URL（Googleスプレッドシート・公開されたCSV）
               </label>
               <input
                 type="text"
@@ -43,34 +60,54 @@ const UrlUpdateDialog: React.FC<UrlUpdateDialogProps> = ({
               />
             </div>
             
-            <div>
-              <label htmlFor="sheetName" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
-                シート名（オプション）
-              </label>
-              <input
-                type="text"
-                id="sheetName"
-                value={sheetName}
-                onChange={(e) => setSheetName(e.target.value)}
-                className="w-full p-2 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                placeholder="シート1"
-              />
-            </div>
+            {source?.type === 'google-sheets' && (
+              <div>
+                <label htmlFor="sheetName" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                  シート名（オプション）
+                </label>
+                <input
+                  type="text"
+                  id="sheetName"
+                  value={sheetName}
+                  onChange={(e) => setSheetName(e.target.value)}
+                  className="w-full p-2 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder={source.gid ? `空欄: URLのシート（gid ${source.gid}）` : '空欄: 先頭のシート'}
+                />
+              </div>
+            )}
+
+            {source && (
+              <p className="text-xs text-slate-500 dark:text-slate-400">{describeImportSource(source)}を読み込みます</p>
+            )}
+
+            <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+              <input type="checkbox" checked={reviewMapping} onChange={(e) => setReviewMapping(e.target.checked)} />
+              取り込む列の割り当てを確認する
+            </label>
             
-            <div className="flex justify-end space-x-3 pt-4">
+            <div className="flex justify-between items-center pt-4">
               <button
                 type="button"
-                onClick={onCancel}
-                className="px-4 py-2 text-sm font-medium rounded-md text-slate-700 bg-slate-200 hover:bg-slate-300 dark:text-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 transition-colors"
+                onClick={onSelectFile}
+                className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
               >
-                キャンセル
-              </button>
-              <button
-                type="submit"
-                className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 transition-colors"
-              >
-                更新
+                ファイルを選んで更新
               </button>
+              <div className="flex space-x-3">
+                <button
+                  type="button"
+                  onClick={onCancel}
+                  className="px-4 py-2 text-sm font-medium rounded-md text-slate-700 bg-slate-200 hover:bg-slate-300 dark:text-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 transition-colors"
+                >
+                  キャンセル
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 transition-colors"
+                >
+                  更新
+                </button>
+              </div>
             </div>
           </form>
         </div>
@@ -80,4 +117,3 @@ const UrlUpdateDialog: React.FC<UrlUpdateDialogProps> = ({
 };
 
 export default UrlUpdateDialog;
-
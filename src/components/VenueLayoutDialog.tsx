@@ -0,0 +1,145 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ShoppingItem, VenueLayout } from '../types';
+import { createVenueLayoutTemplate, findUnplacedBlocks, parseVenueLayout } from '../utils/venueLayout';
+
+interface VenueLayoutDialogProps {
+  eventName: string;
+  layout?: VenueLayout; // 保存済みの会場図
+  items: ShoppingItem[];
+  onSave: (layout: VenueLayout | null) => void; // null は会場図の削除
+  onExport: (layout: VenueLayout) => void;
+  onCancel: () => void;
+}
+
+const VenueLayoutDialog: React.FC<VenueLayoutDialogProps> = ({
+  eventName,
+  layout,
+  items,
+  onSave,
+  onExport,
+  onCancel,
+}) => {
+  const [json, setJson] = useState(() => (layout ? JSON.stringify(layout, null, 2) : ''));
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const parsed = useMemo(() => (json.trim() ? parseVenueLayout(json) : null), [json]);
+  const validLayout = parsed?.ok ? parsed.layout : null;
+  const unplacedBlocks = useMemo(() => (validLayout ? findUnplacedBlocks(validLayout, items) : []), [validLayout, items]);
+
+  const handleCreateTemplate = () => {
+    if (json.trim() && !window.confirm('編集中の会場図を、リストのブロックから作った会場図で置き換えますか？')) return;
+    setJson(JSON.stringify(createVenueLayoutTemplate(eventName, items), null, 2));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setJson(await file.text());
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`「${eventName}」の会場図を削除しますか？`)) {
+      onSave(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl max-w-3xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-xl font-bold text-slate-900 dark:text-white">会場図: {eventName}</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+            ホール・ブロックの位置と、各ブロックのスペース番号の範囲・並び（島・壁、通路の向き）・シャッター前のスペースをJSONで定義します。
+          </p>
+          <div className="flex flex-wrap gap-2 mt-3">
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-1.5 text-sm font-medium rounded-md text-slate-700 bg-slate-200 hover:bg-slate-300 dark:text-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 transition-colors"
+            >
+              ファイルから読み込む
+            </button>
+            <input type="file" ref={fileInputRef} accept=".json,application/json" onChange={handleFileChange} className="hidden" />
+            <button
+              type="button"
+              onClick={handleCreateTemplate}
+              disabled={items.length === 0}
+              className="px-3 py-1.5 text-sm font-medium rounded-md text-slate-700 bg-slate-200 hover:bg-slate-300 dark:text-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              リストのブロックから作成
+            </button>
+            <button
+              type="button"
+              onClick={() => validLayout && onExport(validLayout)}
+              disabled={!validLayout}
+              className="px-3 py-1.5 text-sm font-medium rounded-md text-blue-600 bg-blue-50 hover:bg-blue-100 dark:text-blue-400 dark:bg-blue-900/30 dark:hover:bg-blue-900/50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              ファイルに書き出す
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          <textarea
+            value={json}
+            onChange={e => setJson(e.target.value)}
+            placeholder="会場図のJSONを入力するか、ファイルから読み込んでください。"
+            className="w-full p-2 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 h-72 resize-y font-mono text-xs"
+            spellCheck={false}
+          />
+          {parsed && !parsed.ok && (
+            <ul className="text-sm text-red-600 dark:text-red-400 list-disc list-inside">
+              {parsed.errors.map((error, index) => <li key={index}>{error}</li>)}
+            </ul>
+          )}
+          {validLayout && (
+            <div className="text-sm text-slate-600 dark:text-slate-400 space-y-1">
+              <p>
+                {validLayout.halls.map(hall => `${hall.name}（${hall.blocks.length}ブロック）`).join('・') || 'ホールがありません'}
+              </p>
+              {unplacedBlocks.length > 0 && (
+                <p className="text-amber-600 dark:text-amber-400">
+                  会場図にないブロック: {unplacedBlocks.join('、')}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 dark:border-slate-700 flex justify-between">
+          <div>
+            {layout && (
+              <button
+                type="button"
+                onClick={handleDelete}
+                className="px-4 py-2 text-sm font-medium rounded-md text-red-600 bg-red-50 hover:bg-red-100 dark:text-red-400 dark:bg-red-900/30 dark:hover:bg-red-900/50 transition-colors"
+              >
+                会場図を削除
+              </button>
+            )}
+          </div>
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 text-sm font-medium rounded-md text-slate-700 bg-slate-200 hover:bg-slate-300 dark:text-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 transition-colors"
+            >
+              キャンセル
+            </button>
+            <button
+              type="button"
+              onClick={() => validLayout && onSave(validLayout)}
+              disabled={!validLayout}
+              className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 disabled:cursor-not-allowed transition-colors"
+            >
+              保存
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VenueLayoutDialog;
@@ -9,6 +9,35 @@ export const PurchaseStatuses = [
 
 export type PurchaseStatus = typeof PurchaseStatuses[number];
 
+// 売り切れの恐れ（巡回の予定で、到着が間に合わないアイテムを強調する）
+export const SellOutRisks = [
+  'low',
+  'medium',
+  'high',
+] as const;
+
+export type SellOutRisk = typeof SellOutRisks[number];
+
+// スプレッドシートの1行から取り込む値
+export interface SheetItemValues {
+  circle: string;
+  eventDate: string;
+  block: string;
+  number: string;
+  title: string;
+  price: number;
+  remarks: string;
+}
+
+// 正規化する項目の、取り込み・入力したときの元の表記（表示用）
+export type SourceTextField = 'block' | 'number' | 'price';
+export type SourceText = Partial<Record<SourceTextField, string>>;
+
+// 正規化済みの取り込み値（表記を変えた項目は元の表記を持つ）
+export interface ImportedItemValues extends SheetItemValues {
+  sourceText?: SourceText;
+}
+
 export interface ShoppingItem {
   id: string;
   circle: string;
@@ -19,14 +48,110 @@ export interface ShoppingItem {
   price: number;
   purchaseStatus: PurchaseStatus;
   remarks: string;
+  // 最後にスプレッドシートから取り込んだときの値（更新時の3方向マージの基準）
+  sheetBase?: SheetItemValues;
+  // スプレッドシートから削除されたが、リストに残しているアイテム
+  removedFromSheet?: boolean;
+  // 正規化で表記を変えた項目の元の表記
+  sourceText?: SourceText;
+  // 巡回の予定に使う、列に並んで買い終わるまでの見込み（分。未設定は既定値）
+  queueMinutes?: number;
+  sellOutRisk?: SellOutRisk;
 }
 
 export type ViewMode = 'edit' | 'execute';
 
+// 取り込み元の列の割り当て（列番号は0始まり、null は取り込まない項目）
+export interface ColumnMapping {
+  circle: number;
+  eventDate: number;
+  block: number;
+  number: number;
+  title: number | null;
+  price: number | null;
+  remarks: number | null;
+  extras: Array<{ label: string; column: number }>; // 備考の末尾に「見出し: 値」として追記する列
+  hasHeader: boolean; // 1行目を見出しとして読み飛ばす
+}
+
+// 名前を付けて保存した列の割り当て
+export interface ColumnMappingProfile {
+  name: string;
+  mapping: ColumnMapping;
+}
+
+// 即売会ごとのデータとは別に保存する、アプリ全体の設定
+export interface AppSettings {
+  autoReplanRoute: boolean; // 購入状態を変えたとき、後回し・遅参のアイテムを残りの巡回順に自動で入れ直す
+}
+
+// 読み書きするCSVファイルの文字コード（shift_jis は CP932 の拡張文字を含む）
+export type TextEncodingName = 'utf-8' | 'shift_jis' | 'euc-jp';
+
+// リストを出力するファイルの形式
+export type ExportFormat = 'xlsx' | 'csv-utf8' | 'csv-shift_jis';
+
+// リストの取り込み元（「アイテム更新」で再び読み込む）
+export type ImportSource =
+  | { type: 'google-sheets'; url: string; sheetName: string; gid?: string } // シート名・gid とも空の場合は先頭のシート
+  | { type: 'csv-url'; url: string } // 公開されたCSVのURL（Excel Online・Nextcloud・静的ファイルなど）
+  | { type: 'file'; fileName: string; sheetName?: string }; // ローカルのファイル（更新時に選び直す。sheetName は Excel ブックのシート）
+
+export type UrlImportSource = Extract<ImportSource, { type: 'google-sheets' | 'csv-url' }>;
+
 export interface EventMetadata {
-  spreadsheetUrl: string;
-  spreadsheetSheetName: string;
-  lastImportDate: string;
+  source?: ImportSource; // 取り込み元（貼り付けなどで作ったリストで、開始時刻だけを設定した場合はなし）
+  lastImportDate?: string;
+  columnMapping?: ColumnMappingProfile; // 取り込み時の列の割り当て（更新時にも使用）
+  catalogImport?: CatalogImportOptions; // Webカタログのお気に入りCSVから取り込んだ場合の設定（更新時にも使用）
+  startTimes?: Record<string, string>; // 参加日ごとの開始時刻（HH:MM。巡回の予定の起点）
+}
+
+// Webカタログ（サークル・ms）のお気に入りCSVの取り込み設定
+export interface CatalogImportOptions {
+  dayLabels: Record<string, string>; // カタログの曜日（「土」など）→ 参加日
+  priorityColors: number[]; // 優先として扱うお気に入りの色番号
+}
+
+// 会場図（ホール・ブロックの配置）。座標は会場全体で共通のメートル単位で、x は右向き、y は下向き
+export interface VenueLayout {
+  name: string; // 会場の名前（「東京ビッグサイト 東1-3」など）
+  halls: VenueHall[];
+}
+
+// ホール（「東1」など）と、その中のブロック
+export interface VenueHall {
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  blocks: VenueBlock[];
+}
+
+// 島（通路の両側にスペースが並ぶ）・壁（壁沿いの片側だけに並ぶ）
+export type VenueBlockKind = 'island' | 'wall';
+
+/**
+ * ブロックの位置とスペースの並び。
+ * スペースは axis の向き（通路の向き）に from から順に並び、島は端で折り返して反対側を戻る。
+ */
+export interface VenueBlock {
+  name: string; // 正規化したブロック名
+  kind: VenueBlockKind;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  axis: 'horizontal' | 'vertical';
+  reversed?: boolean; // 右から左・下から上に番号が増える
+  numbers: VenueNumberRange;
+  shutters?: VenueNumberRange[]; // シャッター前のスペース
+}
+
+export interface VenueNumberRange {
+  from: number;
+  to: number;
 }
 
 export interface DayModeState {
@@ -36,3 +161,62 @@ export interface DayModeState {
 export interface ExecuteModeItems {
   [eventDate: string]: string[];
 }
+
+// 永続化の対象となるアプリ全体のデータ
+export interface AppData {
+  eventLists: Record<string, ShoppingItem[]>;
+  eventMetadata: Record<string, EventMetadata>;
+  executeModeItems: Record<string, ExecuteModeItems>;
+  dayModes: Record<string, DayModeState>;
+  venueLayouts: Record<string, VenueLayout>;
+}
+
+// 読み込み時の検証に失敗し、隔離された保存データ
+export interface QuarantinedRecord {
+  id: number;
+  kind: 'item' | 'event';
+  eventName: string;
+  record: unknown;
+  errors: string[];
+  quarantinedAt: string;
+}
+
+// スナップショットを作成したきっかけとなった操作
+export type SnapshotReason = 'update' | 'import' | 'rename' | 'delete' | 'restore';
+
+// 更新・インポートなどの前に自動保存されるイベント単位の控え
+export interface EventSnapshot {
+  id: number;
+  eventName: string;
+  reason: SnapshotReason;
+  createdAt: string;
+  items: ShoppingItem[];
+  metadata?: EventMetadata;
+  executeModeItems: ExecuteModeItems;
+  dayModes: DayModeState;
+  venueLayout?: VenueLayout;
+}
+
+// 変更履歴を記録するきっかけとなった操作（edit はアイテムの編集・削除・購入状態の変更・一括の並び替え）
+export type ChangeLogKind = 'update' | 'import' | 'restore' | 'edit';
+
+// 変更された項目の変更前後の値
+export interface ChangeLogFieldChange {
+  field: keyof SheetItemValues | 'purchaseStatus';
+  before: string | number;
+  after: string | number;
+}
+
+// 更新・インポートなどで行われた変更の記録（イベント単位）
+export interface ChangeLogEntry {
+  id: number;
+  eventName: string;
+  kind: ChangeLogKind;
+  createdAt: string;
+  source?: { url: string; sheetName: string }; // スプレッドシートから取り込んだ場合の取り込み元
+  added: SheetItemValues[];
+  removed: SheetItemValues[];
+  changed: Array<{ item: SheetItemValues; fields: ChangeLogFieldChange[] }>; // item は変更後の値
+  label?: string; // edit の場合の操作名
+  reordered?: SheetItemValues[]; // 一括の並び替えで並び順を変えたアイテム
+}
@@ -0,0 +1,127 @@
+import { AppData } from '../types';
+import { EventRecord, ItemRecord, isPlainObject, upgradeEventRecord, upgradeItemRecord } from './schema';
+import { buildAppData, collectEventNames, toEventRecord, toItemRecord } from './storage';
+
+const BACKUP_FORMAT = 'junkai-backup';
+
+/**
+ * バックアップファイルの形式バージョン。
+ * イベント・アイテムのレコードは保存時と同じ形式（schemaVersion 付き）で書き出すため、
+ * レコードの形式が変わっても読み込み時に schema.ts の移行関数で変換される。
+ */
+export const BACKUP_FORMAT_VERSION = 1;
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  events: EventRecord[];
+  items: ItemRecord[];
+}
+
+export interface ParsedBackup {
+  data: AppData;
+  exportedAt: string;
+  warnings: string[]; // 読み込めずに除外したレコード
+}
+
+// 取り込むイベントと、取り込み先のイベント名
+export interface BackupEventImport {
+  sourceName: string;
+  targetName: string;
+}
+
+export const createBackup = (data: AppData): BackupFile => {
+  const names = Array.from(collectEventNames(data)).sort();
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    events: names.map(name => toEventRecord(name, data)),
+    items: names.flatMap(name => (data.eventLists[name] || []).map(item => toItemRecord(name, item))),
+  };
+};
+
+// 読み込めなかったレコードの項目を、警告に表示する文字列にする
+const fieldText = (record: unknown, field: string): string =>
+  isPlainObject(record) ? String(record[field] ?? '') : '';
+
+/**
+ * バックアップファイルの内容を読み込む。形式が不正な場合は例外を投げる。
+ * 個別のレコードが不正な場合は除外し、warnings に理由を残す。
+ */
+export const parseBackup = (text: string): ParsedBackup => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('JSONとして読み込めません。バックアップファイルを選択してください。');
+  }
+  if (!isPlainObject(raw) || raw.format !== BACKUP_FORMAT) {
+    throw new Error('このアプリのバックアップファイルではありません。');
+  }
+  const { version, events, items, exportedAt } = raw;
+  if (typeof version !== 'number' || version > BACKUP_FORMAT_VERSION) {
+    throw new Error('新しいバージョンのアプリで作成されたバックアップです。アプリを更新してから復元してください。');
+  }
+  if (!Array.isArray(events) || !Array.isArray(items)) {
+    throw new Error('バックアップファイルの形式が不正です。');
+  }
+
+  const warnings: string[] = [];
+  const eventRecords: EventRecord[] = [];
+  const itemRecords: ItemRecord[] = [];
+
+  events.forEach((record: unknown) => {
+    const result = upgradeEventRecord(record);
+    if (result.ok) {
+      eventRecords.push(result.record);
+    } else {
+      warnings.push(`イベント「${fieldText(record, 'name')}」: ${result.errors.join('、')}`);
+    }
+  });
+  items.forEach((record: unknown) => {
+    const result = upgradeItemRecord(record);
+    if (result.ok) {
+      itemRecords.push(result.record);
+    } else {
+      warnings.push(`アイテム「${fieldText(record, 'circle')}」（${fieldText(record, 'eventName')}）: ${result.errors.join('、')}`);
+    }
+  });
+
+  return {
+    data: buildAppData(eventRecords, itemRecords),
+    exportedAt: typeof exportedAt === 'string' ? exportedAt : '',
+    warnings,
+  };
+};
+
+/**
+ * バックアップから選択したイベントを現在のデータに取り込む。
+ * 取り込み先に同名のイベントがある場合は上書きする。
+ */
+export const mergeBackupEvents = (current: AppData, backup: AppData, imports: BackupEventImport[]): AppData => {
+  const next: AppData = {
+    eventLists: { ...current.eventLists },
+    eventMetadata: { ...current.eventMetadata },
+    executeModeItems: { ...current.executeModeItems },
+    dayModes: { ...current.dayModes },
+    venueLayouts: { ...current.venueLayouts },
+  };
+  imports.forEach(({ sourceName, targetName }) => {
+    next.eventLists[targetName] = backup.eventLists[sourceName] || [];
+    if (backup.eventMetadata[sourceName]) {
+      next.eventMetadata[targetName] = backup.eventMetadata[sourceName];
+    } else {
+      delete next.eventMetadata[targetName];
+    }
+    next.executeModeItems[targetName] = backup.executeModeItems[sourceName] || {};
+    next.dayModes[targetName] = backup.dayModes[sourceName] || {};
+    if (backup.venueLayouts[sourceName]) {
+      next.venueLayouts[targetName] = backup.venueLayouts[sourceName];
+    } else {
+      delete next.venueLayouts[targetName];
+    }
+  });
+  return next;
+};
@@ -0,0 +1,145 @@
+import { CatalogImportOptions, ImportedItemValues } from '../types';
+import { missingRequiredFields } from './columnMapping';
+import { ImportDraftRow } from './importReport';
+import { normalizeItemValues } from './normalize';
+
+// コミケWebカタログ（サークル・ms）・CD-ROMカタログのお気に入りCSVの読み込み
+//   Header,ComicMarketCD-ROMCatalog,イベント名,文字コード,作成元
+//   Color,色番号,チェック色,印刷用の色,説明
+//   Circle,シリアル番号,色番号,ページ番号,カット位置,曜日,地区,ブロック,スペース番号,ジャンル,サークル名,
+//          サークル名（読み）,執筆者名,発行誌名,URL,メールアドレス,補足説明,メモ,地図X,地図Y,配置図,スペース番号補助（0: a, 1: b）,…
+//   UnKnown,…（カタログに載っていないサークル）
+
+const CATALOG_SIGNATURE = 'ComicMarketCD-ROMCatalog';
+
+export interface CatalogColor {
+  index: number;
+  color: string; // #RRGGBB
+  label: string; // カタログで付けた色の説明
+}
+
+export interface CatalogCircle {
+  label: string; // 取り込み元での位置（「12行目」など）
+  colorIndex: number;
+  day: string;
+  hall: string;
+  block: string;
+  number: string; // スペース番号とa・b（「01a」など）
+  circle: string;
+  author: string;
+  title: string;
+  memo: string;
+}
+
+export interface CatalogFavorites {
+  eventName: string; // 「ComicMarket105」など
+  colors: CatalogColor[];
+  circles: CatalogCircle[];
+  unknownCount: number; // カタログに載っていないため取り込めないサークル
+}
+
+// お気に入りCSVか（1行目のヘッダーで判定）
+export const isCatalogCsv = (rows: string[][]) =>
+  rows.length > 0 && rows[0][0]?.trim() === 'Header' && rows[0][1]?.trim() === CATALOG_SIGNATURE;
+
+/**
+ * お気に入りCSVの行から、色の設定とサークルを読み込む。
+ */
+export const parseCatalogFavorites = (rows: string[][], rowLabels: string[]): CatalogFavorites => {
+  const favorites: CatalogFavorites = { eventName: rows[0]?.[2]?.trim() || '', colors: [], circles: [], unknownCount: 0 };
+  rows.forEach((cells, index) => {
+    const cell = (column: number) => cells[column]?.trim() || '';
+    switch (cell(0)) {
+      case 'Color': {
+        const color = cell(2).replace(/^#/, '');
+        favorites.colors.push({
+          index: parseInt(cell(1), 10) || 0,
+          color: /^[0-9a-f]{6}$/i.test(color) ? `#${color}` : '',
+          label: cell(4),
+        });
+        break;
+      }
+      case 'Circle': {
+        const space = cell(8);
+        const side = cell(21) === '0' ? 'a' : cell(21) === '1' ? 'b' : '';
+        favorites.circles.push({
+          label: rowLabels[index],
+          colorIndex: parseInt(cell(2), 10) || 0,
+          day: cell(5),
+          hall: cell(6),
+          block: cell(7),
+          number: `${/^\d$/.test(space) ? `0${space}` : space}${side}`,
+          circle: cell(10),
+          author: cell(12),
+          title: cell(13),
+          memo: cell(17),
+        });
+        break;
+      }
+      case 'UnKnown':
+        favorites.unknownCount++;
+        break;
+    }
+  });
+  return favorites;
+};
+
+// 「ComicMarket105」→「C105」（リスト名の初期値に使う）
+export const toCatalogListName = (eventName: string) => eventName.replace(/^ComicMarket(\d+)$/, 'C$1');
+
+// お気に入りCSVに含まれる曜日（会期の曜日順。年末の開催で週をまたぐ場合もあるため木曜始まりとする）
+const WEEKDAY_ORDER = ['木', '金', '土', '日', '月', '火', '水'];
+
+export const listCatalogDays = (favorites: CatalogFavorites): string[] =>
+  Array.from(new Set(favorites.circles.map(circle => circle.day))).sort((a, b) => {
+    const order = (day: string) => (/^\d+$/.test(day) ? parseInt(day, 10) : WEEKDAY_ORDER.indexOf(day[0]) + 100);
+    return order(a) - order(b);
+  });
+
+/**
+ * 取り込み設定の初期値。保存済みの設定があれば引き継ぎ、ない曜日は会期の順に「1日目」「2日目」…とする。
+ */
+export const defaultCatalogImportOptions = (favorites: CatalogFavorites, saved?: CatalogImportOptions): CatalogImportOptions => {
+  const dayLabels: Record<string, string> = {};
+  listCatalogDays(favorites).forEach((day, index) => {
+    dayLabels[day] = saved?.dayLabels[day] ?? (/^\d+$/.test(day) ? `${parseInt(day, 10)}日目` : `${index + 1}日目`);
+  });
+  return { dayLabels, priorityColors: saved?.priorityColors ?? [] };
+};
+
+// 地区・色・メモを備考にまとめる（優先として扱う色は「優先」を付け、カードに警告を表示する）
+const toRemarks = (circle: CatalogCircle, favorites: CatalogFavorites, options: CatalogImportOptions) => {
+  const color = favorites.colors.find(c => c.index === circle.colorIndex);
+  return [
+    circle.hall && (circle.hall.endsWith('ホール') ? circle.hall : `${circle.hall}ホール`),
+    circle.colorIndex > 0 && `色${circle.colorIndex}${color?.label ? `（${color.label}）` : ''}`,
+    options.priorityColors.includes(circle.colorIndex) && '優先',
+    circle.author && `執筆者: ${circle.author}`,
+    circle.memo,
+  ].filter(Boolean).join(' / ');
+};
+
+/**
+ * お気に入りのサークルを、取り込み内容の確認画面で修正できる行のデータにする。
+ */
+export const toCatalogDraftRows = (favorites: CatalogFavorites, options: CatalogImportOptions): ImportDraftRow[] =>
+  favorites.circles.map((circle, index) => ({
+    id: index,
+    label: circle.label,
+    values: {
+      circle: circle.circle,
+      eventDate: options.dayLabels[circle.day] || circle.day,
+      block: circle.block,
+      number: circle.number,
+      title: circle.title,
+      price: '',
+      remarks: toRemarks(circle, favorites, options),
+    },
+    excluded: false,
+  }));
+
+// スプレッドシートからの更新と同じ手順でマージするため、アイテムの値にする（必須項目が空のサークルは除く）
+export const toCatalogItems = (favorites: CatalogFavorites, options: CatalogImportOptions): ImportedItemValues[] =>
+  toCatalogDraftRows(favorites, options)
+    .filter(row => missingRequiredFields(row.values).length === 0)
+    .map(row => normalizeItemValues(row.values));
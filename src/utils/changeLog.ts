@@ -0,0 +1,122 @@
+import { ChangeLogEntry, ChangeLogFieldChange, ChangeLogKind, PurchaseStatus, ShoppingItem, SheetItemValues } from '../types';
+import { escapeCsvCell } from './csv';
+import { MERGE_FIELDS, mergeFieldLabels, toSheetValues } from './sheetMerge';
+
+export const changeLogKindLabels: Record<ChangeLogKind, string> = {
+  update: '取り込み元から更新',
+  import: 'インポート',
+  restore: '復元',
+  edit: '編集',
+};
+
+// 購入状態の表示名（エクスポートのG列と同じ）
+export const purchaseStatusLabels: Record<PurchaseStatus, string> = {
+  None: '未購入',
+  Purchased: '購入済',
+  SoldOut: '売切',
+  Absent: '欠席',
+  Postpone: '後回し',
+  Late: '遅参',
+};
+
+export const changeLogFieldLabels: Record<ChangeLogFieldChange['field'], string> = {
+  ...mergeFieldLabels,
+  purchaseStatus: '購入状態',
+};
+
+// 変更前後の値の表示（購入状態は表示名にする）
+export const formatChangeLogValue = (field: ChangeLogFieldChange['field'], value: string | number): string =>
+  field === 'purchaseStatus' ? purchaseStatusLabels[value as PurchaseStatus] ?? String(value) : String(value);
+
+// 記録する項目（取り込み元の項目と購入状態）
+const CHANGE_LOG_FIELDS = [...MERGE_FIELDS, 'purchaseStatus'] as const;
+
+export type ChangeLogDiff = Pick<ChangeLogEntry, 'added' | 'removed' | 'changed' | 'reordered'>;
+
+/**
+ * 変更前後のアイテムをIDで照合し、追加・削除・変更されたアイテムを求める。
+ * 並び順の変更は対象外（一括の並び替えは reordered に記録する）。
+ */
+export const diffItemLists = (before: ShoppingItem[], after: ShoppingItem[]): ChangeLogDiff => {
+  const beforeMap = new Map(before.map(item => [item.id, item]));
+  const afterIds = new Set(after.map(item => item.id));
+  const diff: ChangeLogDiff = { added: [], removed: [], changed: [] };
+
+  after.forEach(item => {
+    const prev = beforeMap.get(item.id);
+    if (!prev) {
+      diff.added.push(toSheetValues(item));
+      return;
+    }
+    const fields: ChangeLogFieldChange[] = CHANGE_LOG_FIELDS
+      .filter(field => prev[field] !== item[field])
+      .map(field => ({ field, before: prev[field], after: item[field] }));
+    if (fields.length > 0) {
+      diff.changed.push({ item: toSheetValues(item), fields });
+    }
+  });
+  before.forEach(item => {
+    if (!afterIds.has(item.id)) diff.removed.push(toSheetValues(item));
+  });
+
+  return diff;
+};
+
+export const hasChanges = (diff: ChangeLogDiff) =>
+  diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0 || (diff.reordered?.length ?? 0) > 0;
+
+/**
+ * ids のアイテムのうち、いずれかの並び（アイテムの並び順・各日の実行列）の中で相対的な位置が変わったもの
+ * （実行列と候補リストの間の移動で、並びに入った・並びから外れたものを含む）を求める。
+ * before と after は同じ並びを同じ順に渡す。
+ */
+export const findReorderedIds = (ids: Set<string>, before: string[][], after: string[][]): string[] => {
+  const reordered = new Set<string>();
+  before.forEach((sequence, index) => {
+    const beforeIds = sequence.filter(id => ids.has(id));
+    const afterIds = (after[index] || []).filter(id => ids.has(id));
+    afterIds.forEach((id, position) => {
+      if (beforeIds[position] !== id) reordered.add(id);
+    });
+    beforeIds.forEach((id, position) => {
+      if (afterIds[position] !== id) reordered.add(id);
+    });
+  });
+  return Array.from(reordered);
+};
+
+export const isChangeLogEntry = (value: unknown): value is ChangeLogEntry =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as ChangeLogEntry).createdAt === 'string' &&
+  Array.isArray((value as ChangeLogEntry).added) &&
+  Array.isArray((value as ChangeLogEntry).removed) &&
+  Array.isArray((value as ChangeLogEntry).changed);
+
+/**
+ * 変更履歴をCSVに変換する。追加・削除・並び替えは1アイテム1行、変更は1項目1行で出力する。
+ */
+export const changeLogToCsv = (entries: ChangeLogEntry[]): string => {
+  const headers = ['日時', '操作', '取り込み元URL', 'シート名', '変更', 'サークル名', '参加日', 'ブロック', 'ナンバー', 'タイトル', '項目', '変更前', '変更後'];
+  const rows: (string | number)[][] = [];
+
+  entries.forEach(entry => {
+    const common = [
+      new Date(entry.createdAt).toLocaleString('ja-JP'),
+      `${changeLogKindLabels[entry.kind] || entry.kind}${entry.label ? `（${entry.label}）` : ''}`,
+      entry.source?.url || '',
+      entry.source?.sheetName || '',
+    ];
+    const itemCells = (item: SheetItemValues) => [item.circle, item.eventDate, item.block, item.number, item.title];
+    entry.added.forEach(item => rows.push([...common, '追加', ...itemCells(item), '', '', '']));
+    entry.removed.forEach(item => rows.push([...common, '削除', ...itemCells(item), '', '', '']));
+    entry.changed.forEach(({ item, fields }) => {
+      fields.forEach(({ field, before, after }) => {
+        rows.push([...common, '変更', ...itemCells(item), changeLogFieldLabels[field], formatChangeLogValue(field, before), formatChangeLogValue(field, after)]);
+      });
+    });
+    entry.reordered?.forEach(item => rows.push([...common, '並び替え', ...itemCells(item), '', '', '']));
+  });
+
+  return [headers, ...rows].map(row => row.map(escapeCsvCell).join(',')).join('\n');
+};
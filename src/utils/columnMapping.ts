@@ -0,0 +1,226 @@
+import { ColumnMapping, ColumnMappingProfile, ImportedItemValues } from '../types';
+import { normalizeForMatch } from './fuzzyMatch';
+import { normalizeItemValues } from './normalize';
+import { XlsxSheet } from './xlsx';
+
+export const MAPPING_FIELDS = ['circle', 'eventDate', 'block', 'number', 'title', 'price', 'remarks'] as const;
+export type MappingField = typeof MAPPING_FIELDS[number];
+
+// 行を取り込むために値が必要な項目
+export const REQUIRED_MAPPING_FIELDS: MappingField[] = ['circle', 'eventDate', 'block', 'number'];
+
+// スプレッドシート「品目表」の形式（M〜R列と W列）
+export const SHEET_COLUMN_MAPPING: ColumnMapping = {
+  circle: 12, eventDate: 13, block: 14, number: 15, title: 16, price: 17, remarks: 22, extras: [], hasHeader: true,
+};
+
+// このアプリからエクスポートしたCSVの形式（A〜H列、I・J列は配置情報）
+export const EXPORT_COLUMN_MAPPING: ColumnMapping = {
+  circle: 0, eventDate: 1, block: 2, number: 3, title: 4, price: 5, remarks: 7, extras: [], hasHeader: true,
+};
+export const EXPORT_HEADERS = ['サークル名', '参加日', 'ブロック', 'ナンバー', 'タイトル', '頒布価格', '購入状態', '備考', '列の種類', '列内順番'];
+
+// このアプリで出力したCSV・Excelブックのシートか（見出し行で判定）
+export const isExportedRows = (rows: string[][]) =>
+  rows.length > 0 && EXPORT_HEADERS.every((header, index) => rows[0][index]?.trim() === header);
+
+/**
+ * このアプリで出力したExcelブック（参加日ごとのシートと #METADATA シート）なら、すべてのシートの行を見出し1行の表にまとめる。
+ * 行の位置は「シート名 N行目」。それ以外のブックは null。
+ */
+export const combineExportedSheets = (sheets: XlsxSheet[]): { rows: string[][]; rowLabels: string[] } | null => {
+  const exportedSheets = sheets.filter(sheet => isExportedRows(sheet.rows));
+  const isExportedBook = exportedSheets.length > 0 && sheets.every(sheet =>
+    isExportedRows(sheet.rows) || sheet.rows.every(cells => cells[0]?.startsWith('#METADATA')));
+  if (!isExportedBook) return null;
+
+  const dataStart = (sheet: XlsxSheet) => (isExportedRows(sheet.rows) ? 1 : 0);
+  const [first] = exportedSheets;
+  return {
+    rows: [first.rows[0], ...sheets.flatMap(sheet => sheet.rows.slice(dataStart(sheet)))],
+    rowLabels: [
+      `${first.name} ${first.rowNumbers[0]}行目`,
+      ...sheets.flatMap(sheet => sheet.rowNumbers.slice(dataStart(sheet)).map(rowNumber => `${sheet.name} ${rowNumber}行目`)),
+    ],
+  };
+};
+
+export const BUILTIN_MAPPING_PROFILES: ColumnMappingProfile[] = [
+  { name: 'スプレッドシート形式（M〜R列・W列）', mapping: SHEET_COLUMN_MAPPING },
+  { name: 'エクスポート形式（A〜H列）', mapping: EXPORT_COLUMN_MAPPING },
+];
+
+// 見出しから列を推定するための名前（正規化して比較する）
+const HEADER_NAMES: Record<MappingField, string[]> = {
+  circle: ['サークル名', 'サークル', 'circle', 'circlename'],
+  eventDate: ['参加日', '日付', '日程', '曜日', 'day', 'date'],
+  block: ['ブロック', 'block', '島'],
+  number: ['ナンバー', '番号', 'スペース番号', 'スペースナンバー', 'number', 'no', 'space'],
+  title: ['タイトル', '頒布物', '品名', '作品名', 'title'],
+  price: ['頒布価格', '価格', '値段', '金額', 'price'],
+  remarks: ['備考', 'メモ', 'remarks', 'memo', 'note'],
+};
+
+// 0始まりの列番号を A, B, ..., Z, AA, ... の列名にする
+export const columnLabel = (index: number): string => {
+  let label = '';
+  let n = index + 1;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    label = String.fromCharCode(65 + rem) + label;
+    n = Math.floor((n - 1) / 26);
+  }
+  return label;
+};
+
+export const isSameColumnMapping = (a: ColumnMapping, b: ColumnMapping) =>
+  MAPPING_FIELDS.every(field => a[field] === b[field]) &&
+  a.hasHeader === b.hasHeader &&
+  a.extras.length === b.extras.length &&
+  a.extras.every((extra, index) => extra.label === b.extras[index].label && extra.column === b.extras[index].column);
+
+/**
+ * 見出し行のセル名から列の割り当てを推定する。必須項目の列が見つからない場合は null。
+ */
+export const detectColumnMapping = (headerCells: string[]): ColumnMapping | null => {
+  const normalized = headerCells.map(cell => normalizeForMatch(cell));
+  const used = new Set<number>();
+  const findColumn = (field: MappingField): number | null => {
+    const names = HEADER_NAMES[field].map(normalizeForMatch);
+    // 先に挙げた名前ほど優先し、完全一致がなければ見出しに名前を含む列
+    const matchers = [
+      ...names.map(name => (cell: string) => cell === name),
+      ...names.filter(name => name.length > 2).map(name => (cell: string) => cell.includes(name)),
+    ];
+    for (const matches of matchers) {
+      const index = normalized.findIndex((cell, i) => !used.has(i) && cell !== '' && matches(cell));
+      if (index >= 0) {
+        used.add(index);
+        return index;
+      }
+    }
+    return null;
+  };
+
+  const columns = {} as Record<MappingField, number | null>;
+  MAPPING_FIELDS.forEach(field => {
+    columns[field] = findColumn(field);
+  });
+  if (REQUIRED_MAPPING_FIELDS.some(field => columns[field] === null)) return null;
+
+  return {
+    circle: columns.circle!,
+    eventDate: columns.eventDate!,
+    block: columns.block!,
+    number: columns.number!,
+    title: columns.title,
+    price: columns.price,
+    remarks: columns.remarks,
+    extras: [],
+    hasHeader: true,
+  };
+};
+
+// 1行分のセルから取り出した、変換前の各項目の文字列
+export type MappedRowValues = Record<MappingField, string>;
+
+/**
+ * 列の割り当てに従って、1行分のセルから各項目の文字列を取り出す（前後の空白は除く）。
+ * 追加の列は備考の末尾に「見出し: 値」としてつなげる。
+ */
+export const readMappedRow = (cells: string[], mapping: ColumnMapping): MappedRowValues => {
+  const cell = (column: number | null) => (column === null ? '' : cells[column]?.trim() || '');
+  const extras = mapping.extras
+    .map(({ label, column }) => ({ label, value: cell(column) }))
+    .filter(({ value }) => value)
+    .map(({ label, value }) => (label ? `${label}: ${value}` : value));
+  return {
+    circle: cell(mapping.circle),
+    eventDate: cell(mapping.eventDate),
+    block: cell(mapping.block),
+    number: cell(mapping.number),
+    title: cell(mapping.title),
+    price: cell(mapping.price),
+    remarks: [cell(mapping.remarks), ...extras].filter(Boolean).join(' / '),
+  };
+};
+
+// 必須項目（サークル名・参加日・ブロック・ナンバー）のうち空欄の項目
+export const missingRequiredFields = (values: MappedRowValues) =>
+  REQUIRED_MAPPING_FIELDS.filter(field => !values[field]);
+
+/**
+ * 列の割り当てに従って、行ごとのセルからアイテムの値を取り出す（ブロック・ナンバー・頒布価格は正規化する）。
+ * 必須項目（サークル名・参加日・ブロック・ナンバー）のいずれかが空の行は取り込まない。
+ */
+export const applyColumnMapping = (rows: string[][], mapping: ColumnMapping): ImportedItemValues[] =>
+  rows
+    .slice(mapping.hasHeader ? 1 : 0)
+    .map(cells => readMappedRow(cells, mapping))
+    .filter(values => missingRequiredFields(values).length === 0)
+    .map(normalizeItemValues);
+
+/**
+ * 取り込むデータに合った割り当てを提案する。
+ * preferred のうち1件以上取り込めるものを優先し、なければ1行目の見出しから推定する。
+ */
+export const suggestColumnMapping = (rows: string[][], preferred: ColumnMapping[] = []): ColumnMapping => {
+  const found = preferred.find(mapping => applyColumnMapping(rows, mapping).length > 0);
+  if (found) return found;
+  return (rows.length > 0 && detectColumnMapping(rows[0])) || preferred[0] || SHEET_COLUMN_MAPPING;
+};
+
+/**
+ * 貼り付けたデータ用に、割り当てのうち最も左の列が1列目になるよう列番号をずらす。
+ * （M〜R列をコピーして貼り付けた場合、M列が1列目になる）
+ */
+export const shiftColumnMapping = (mapping: ColumnMapping): ColumnMapping => {
+  const columns = [
+    ...MAPPING_FIELDS.map(field => mapping[field]).filter((column): column is number => column !== null),
+    ...mapping.extras.map(extra => extra.column),
+  ];
+  const offset = Math.min(...columns);
+  const shift = (column: number | null) => (column === null ? null : column - offset);
+  return {
+    circle: mapping.circle - offset,
+    eventDate: mapping.eventDate - offset,
+    block: mapping.block - offset,
+    number: mapping.number - offset,
+    title: shift(mapping.title),
+    price: shift(mapping.price),
+    remarks: shift(mapping.remarks),
+    extras: mapping.extras.map(extra => ({ ...extra, column: extra.column - offset })),
+    hasHeader: mapping.hasHeader,
+  };
+};
+
+// 貼り付けたデータの読み方（1行目の見出しから判定・割り当てどおりの列・割り当ての最も左の列を1列目とした列）
+export type PasteLayout = 'header' | 'sheet' | 'shifted';
+
+export interface PasteLayoutOption {
+  layout: PasteLayout;
+  label: string;
+  mapping: ColumnMapping;
+  count: number; // 取り込める行の数
+}
+
+/**
+ * 貼り付けたデータの読み方の候補を、おすすめの順に返す。
+ * 見出し行があれば見出しからの判定を先頭にし、それ以外は取り込める行が多い順
+ * （同数の場合は、選択した範囲の左端を割り当ての最も左の列とみなす読み方を優先）。
+ */
+export const listPasteLayouts = (rows: string[][], mapping: ColumnMapping): PasteLayoutOption[] => {
+  const toOption = (layout: PasteLayout, label: string, candidate: ColumnMapping): PasteLayoutOption =>
+    ({ layout, label, mapping: candidate, count: applyColumnMapping(rows, candidate).length });
+
+  const detected = rows.length > 0 ? detectColumnMapping(rows[0]) : null;
+  const sheet = { ...mapping, hasHeader: false };
+  const shifted = { ...shiftColumnMapping(mapping), hasHeader: false };
+  const offset = sheet.circle - shifted.circle;
+  const candidates = [
+    ...(offset > 0 ? [toOption('shifted', `${columnLabel(offset)}列から選択した範囲`, shifted)] : []),
+    toOption('sheet', 'A列から選択した範囲', sheet),
+  ].sort((a, b) => b.count - a.count);
+  return detected ? [toOption('header', '1行目の見出しから判定', detected), ...candidates] : candidates;
+};
+
@@ -0,0 +1,193 @@
+import { TextEncodingName } from '../types';
+import { ENCODING_SAMPLE_BYTES, detectTextEncoding } from './encoding';
+
+// CSV / TSV の読み込み（RFC 4180 準拠。引用符内の改行・CRLF・BOM・"" によるエスケープに対応）
+
+export interface CsvParseOptions {
+  delimiter?: ',' | '\t';
+}
+
+export interface CsvRow {
+  cells: string[];
+  line: number; // 行の開始位置（1始まりの物理行番号。引用符内の改行も1行と数える）
+}
+
+export interface CsvParseError {
+  line: number;
+  message: string;
+}
+
+export interface CsvParseResult {
+  rows: CsvRow[];
+  errors: CsvParseError[];
+}
+
+type ParserState = 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted';
+
+// 空のセルだけの行（空行）は取り込まない
+const isBlankRow = (cells: string[]) => cells.every(cell => cell.trim() === '');
+
+/**
+ * 分割して届くテキストを順に読み込むパーサーを作る。
+ * push で受け取った分までに確定した行を返し、end で最後の行を返す。
+ */
+export const createCsvParser = ({ delimiter = ',' }: CsvParseOptions = {}) => {
+  let state: ParserState = 'fieldStart';
+  let field = '';
+  let cells: string[] = [];
+  let line = 1;
+  let rowStartLine = 1;
+  let skipLineFeed = false; // 直前が CR の場合、続く LF は同じ改行として読み飛ばす
+  let isFirstChunk = true;
+  const errors: CsvParseError[] = [];
+
+  const endField = () => {
+    cells.push(field);
+    field = '';
+    state = 'fieldStart';
+  };
+
+  const endRow = (rows: CsvRow[]) => {
+    endField();
+    if (!isBlankRow(cells)) {
+      rows.push({ cells, line: rowStartLine });
+    }
+    cells = [];
+    rowStartLine = line;
+  };
+
+  const push = (chunk: string): CsvRow[] => {
+    const rows: CsvRow[] = [];
+    let text = chunk;
+    if (isFirstChunk && text !== '') {
+      isFirstChunk = false;
+      if (text.charCodeAt(0) === 0xFEFF) text = text.slice(1);
+    }
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (state === 'quoted') {
+        if (char === '"') {
+          state = 'quoteInQuoted';
+        } else if (char === '\r' || char === '\n') {
+          // 引用符内の改行はセルの値として残す（CRLF は LF にそろえる）
+          field += '\n';
+          line++;
+          skipLineFeed = char === '\r';
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (state === 'quoteInQuoted') {
+        if (char === '"') {
+          field += '"';
+          state = 'quoted';
+          continue;
+        }
+        // 閉じ引用符の後の文字は、区切り・改行以外もそのままセルに続ける
+        state = 'unquoted';
+      }
+
+      if (char === delimiter) {
+        endField();
+      } else if (char === '\r' || char === '\n') {
+        line++;
+        skipLineFeed = char === '\r';
+        endRow(rows);
+      } else if (char === '"' && state === 'fieldStart') {
+        state = 'quoted';
+      } else {
+        field += char;
+        state = 'unquoted';
+      }
+    }
+    return rows;
+  };
+
+  const end = (): CsvRow[] => {
+    const rows: CsvRow[] = [];
+    if (state === 'quoted') {
+      errors.push({ line: rowStartLine, message: `${rowStartLine}行目: 引用符が閉じられていません` });
+    }
+    if (cells.length > 0 || field !== '' || state !== 'fieldStart') {
+      endRow(rows);
+    }
+    return rows;
+  };
+
+  return { push, end, errors };
+};
+
+export const parseCsv = (text: string, options?: CsvParseOptions): CsvParseResult => {
+  const parser = createCsvParser(options);
+  const rows = [...parser.push(text), ...parser.end()];
+  return { rows, errors: parser.errors };
+};
+
+export interface CsvStreamParseResult extends CsvParseResult {
+  encoding: TextEncodingName; // 読み込みに使った文字コード
+}
+
+/**
+ * バイト列のストリーム（ファイル・fetch のレスポンス）を順に読み込む。
+ * encoding が 'auto' の場合は、先頭部分を読んだ時点で文字コードを判定してから読み進める。
+ */
+export const parseCsvStream = async (
+  stream: ReadableStream<Uint8Array>,
+  { encoding = 'utf-8', ...options }: CsvParseOptions & { encoding?: TextEncodingName | 'auto' } = {}
+): Promise<CsvStreamParseResult> => {
+  const parser = createCsvParser(options);
+  const reader = stream.getReader();
+  const rows: CsvRow[] = [];
+
+  // 判定に使う先頭部分をためる
+  const head: Uint8Array[] = [];
+  let headLength = 0;
+  let done = false;
+  if (encoding === 'auto') {
+    while (headLength < ENCODING_SAMPLE_BYTES) {
+      const chunk = await reader.read();
+      if (chunk.done) {
+        done = true;
+        break;
+      }
+      head.push(chunk.value);
+      headLength += chunk.value.length;
+    }
+  }
+  const sample = new Uint8Array(headLength);
+  head.reduce((offset, chunk) => {
+    sample.set(chunk, offset);
+    return offset + chunk.length;
+  }, 0);
+  const resolvedEncoding = encoding === 'auto' ? detectTextEncoding(sample) : encoding;
+
+  const decoder = new TextDecoder(resolvedEncoding);
+  rows.push(...parser.push(decoder.decode(sample, { stream: true })));
+  while (!done) {
+    const chunk = await reader.read();
+    if (chunk.done) break;
+    rows.push(...parser.push(decoder.decode(chunk.value, { stream: true })));
+  }
+  rows.push(...parser.push(decoder.decode()), ...parser.end());
+  return { rows, errors: parser.errors, encoding: resolvedEncoding };
+};
+
+// CSVの1セルを出力用にエスケープする（区切り文字・引用符・改行を含む場合は引用符で囲む）
+export const escapeCsvCell = (cellData: string | number) => {
+  const stringData = String(cellData);
+  if (stringData.includes(',') || stringData.includes('"') || stringData.includes('\n') || stringData.includes('\r')) {
+    return `"${stringData.replace(/"/g, '""')}"`;
+  }
+  return stringData;
+};
+
+// 行番号が不要な場合の、行ごとのセルの配列
+export const toCellRows = (result: CsvParseResult): string[][] => result.rows.map(row => row.cells);
@@ -0,0 +1,103 @@
+import { TextEncodingName } from '../types';
+
+export const textEncodingLabels: Record<TextEncodingName, string> = {
+  'utf-8': 'UTF-8',
+  shift_jis: 'Shift_JIS',
+  'euc-jp': 'EUC-JP',
+};
+
+// 文字コードの判定に使う先頭部分の大きさ
+export const ENCODING_SAMPLE_BYTES = 64 * 1024;
+
+const hasUtf8Bom = (bytes: Uint8Array) => bytes.length >= 3 && bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF;
+
+// UTF-8 として正しいバイト列か（先頭部分だけを見る場合に備え、末尾で途切れた文字は許容する）
+const isValidUtf8 = (bytes: Uint8Array) => {
+  let i = 0;
+  while (i < bytes.length) {
+    const byte = bytes[i];
+    const length = byte < 0x80 ? 1 : byte >= 0xC2 && byte <= 0xDF ? 2 : byte >= 0xE0 && byte <= 0xEF ? 3 : byte >= 0xF0 && byte <= 0xF4 ? 4 : 0;
+    if (length === 0) return false;
+    for (let j = 1; j < length; j++) {
+      if (i + j >= bytes.length) return true;
+      if ((bytes[i + j] & 0xC0) !== 0x80) return false;
+    }
+    i += length;
+  }
+  return true;
+};
+
+// 日本語の文章としてありそうな文字の数から、置換文字（読めなかった箇所）の数を大きく差し引いた点数
+const scoreJapaneseText = (text: string) => {
+  let score = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code === 0xFFFD) score -= 10;
+    else if (code >= 0x3040 && code <= 0x30FF) score += 2; // ひらがな・カタカナ
+    else if ((code >= 0x4E00 && code <= 0x9FFF) || (code >= 0x3000 && code <= 0x303F) || (code >= 0xFF01 && code <= 0xFF5E)) score += 1;
+    // 半角カナは EUC-JP を Shift_JIS として読んだときに多く現れるため数えない
+  }
+  return score;
+};
+
+/**
+ * バイト列の文字コードを推定する。
+ * BOM付き・UTF-8として正しいものは UTF-8、それ以外は Shift_JIS と EUC-JP で読んだ結果を比べる。
+ */
+export const detectTextEncoding = (bytes: Uint8Array): TextEncodingName => {
+  const sample = bytes.subarray(0, ENCODING_SAMPLE_BYTES);
+  if (hasUtf8Bom(sample) || isValidUtf8(sample)) return 'utf-8';
+
+  const decode = (encoding: TextEncodingName) => new TextDecoder(encoding).decode(sample, { stream: true });
+  return scoreJapaneseText(decode('euc-jp')) > scoreJapaneseText(decode('shift_jis')) ? 'euc-jp' : 'shift_jis';
+};
+
+export const decodeText = (bytes: Uint8Array, encoding: TextEncodingName) => new TextDecoder(encoding).decode(bytes);
+
+// Shift_JIS（CP932）の文字からバイト列への対応表。TextDecoder で全ての2バイト文字を読んで作る
+let shiftJisTable: Map<string, number> | null = null;
+
+const getShiftJisTable = () => {
+  if (shiftJisTable) return shiftJisTable;
+  const table = new Map<string, number>();
+  const decoder = new TextDecoder('shift_jis');
+  const isLeadByte = (byte: number) => (byte >= 0x81 && byte <= 0x9F) || (byte >= 0xE0 && byte <= 0xFC);
+  for (let lead = 0x81; lead <= 0xFC; lead++) {
+    if (!isLeadByte(lead)) continue;
+    for (let trail = 0x40; trail <= 0xFC; trail++) {
+      if (trail === 0x7F) continue;
+      const char = decoder.decode(new Uint8Array([lead, trail]));
+      // 同じ文字に複数の符号がある場合（NEC選定IBM拡張文字など）は先に見つかった方を使う
+      if (char.length === 1 && char !== '\uFFFD' && !table.has(char)) {
+        table.set(char, (lead << 8) | trail);
+      }
+    }
+  }
+  shiftJisTable = table;
+  return table;
+};
+
+/**
+ * 文字列を Shift_JIS（CP932）のバイト列にする。
+ * Shift_JIS で表せない文字（絵文字など）は「?」にし、その文字を unmappable に返す。
+ */
+export const encodeShiftJis = (text: string) => {
+  const table = getShiftJisTable();
+  const bytes: number[] = [];
+  const unmappable = new Set<string>();
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code >= 0xFF61 && code <= 0xFF9F) {
+      bytes.push(code - 0xFF61 + 0xA1); // 半角カナ
+    } else if (table.has(char)) {
+      const value = table.get(char)!;
+      bytes.push(value >> 8, value & 0xFF);
+    } else {
+      bytes.push(0x3F);
+      unmappable.add(char);
+    }
+  }
+  return { bytes: new Uint8Array(bytes), unmappable: [...unmappable] };
+};
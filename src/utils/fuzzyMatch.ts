@@ -0,0 +1,37 @@
+// サークル名・タイトルのあいまい照合
+
+// 全角・半角、大文字・小文字、空白や記号の違いを無視して比較できる形にする
+export const normalizeForMatch = (text: string): string =>
+  text.normalize('NFKC').toLowerCase().replace(/[\s\p{P}\p{S}]/gu, '');
+
+const bigrams = (text: string): string[] => {
+  if (text.length < 2) return text ? [text] : [];
+  const result: string[] = [];
+  for (let i = 0; i < text.length - 1; i++) {
+    result.push(text.slice(i, i + 2));
+  }
+  return result;
+};
+
+/**
+ * 2つの文字列の類似度（0〜1）。正規化した文字列の2文字組（bigram）の一致率（Dice係数）で求める。
+ */
+export const similarity = (a: string, b: string): number => {
+  const na = normalizeForMatch(a);
+  const nb = normalizeForMatch(b);
+  if (na === nb) return 1;
+  if (!na || !nb) return 0;
+
+  const counts = new Map<string, number>();
+  bigrams(na).forEach(gram => counts.set(gram, (counts.get(gram) || 0) + 1));
+  let matches = 0;
+  const gramsB = bigrams(nb);
+  gramsB.forEach(gram => {
+    const count = counts.get(gram) || 0;
+    if (count > 0) {
+      matches++;
+      counts.set(gram, count - 1);
+    }
+  });
+  return (2 * matches) / (bigrams(na).length + gramsB.length);
+};
@@ -0,0 +1,180 @@
+import { ShoppingItem, ExecuteModeItems } from '../types';
+
+// 1イベントあたりに保持する操作履歴の上限
+export const MAX_HISTORY_ENTRIES = 50;
+
+// 連続した同じ操作（備考の入力など）を1つの履歴にまとめる間隔
+export const COALESCE_INTERVAL_MS = 2000;
+
+// 履歴の対象となるイベント単位の状態
+export interface EventState {
+  items: ShoppingItem[];
+  executeModeItems: ExecuteModeItems;
+}
+
+export interface ItemChange {
+  id: string;
+  before: ShoppingItem | null; // null の場合は追加されたアイテム
+  after: ShoppingItem | null;  // null の場合は削除されたアイテム
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: string;
+  coalesceKey?: string;
+  itemChanges: ItemChange[];
+  // 並び順が変わった場合のみ記録
+  orderBefore?: string[];
+  orderAfter?: string[];
+  // 実行モード表示列が変わった場合のみ記録
+  executeBefore?: ExecuteModeItems;
+  executeAfter?: ExecuteModeItems;
+}
+
+export interface EventHistory {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+export const createEmptyHistory = (): EventHistory => ({ undo: [], redo: [] });
+
+const sameIds = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((id, index) => id === b[index]);
+
+const sameExecuteModeItems = (a: ExecuteModeItems, b: ExecuteModeItems) => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(keys).every(key => sameIds(a[key] || [], b[key] || []));
+};
+
+/**
+ * 操作前後の状態から履歴エントリを作成する。変更がない場合は null を返す。
+ */
+export const createHistoryEntry = (
+  before: EventState,
+  after: EventState,
+  label: string,
+  coalesceKey?: string
+): HistoryEntry | null => {
+  const beforeMap = new Map(before.items.map(item => [item.id, item]));
+  const afterMap = new Map(after.items.map(item => [item.id, item]));
+
+  const itemChanges: ItemChange[] = [];
+  before.items.forEach(item => {
+    const afterItem = afterMap.get(item.id) || null;
+    if (afterItem !== item) {
+      itemChanges.push({ id: item.id, before: item, after: afterItem });
+    }
+  });
+  after.items.forEach(item => {
+    if (!beforeMap.has(item.id)) {
+      itemChanges.push({ id: item.id, before: null, after: item });
+    }
+  });
+
+  const orderBefore = before.items.map(item => item.id);
+  const orderAfter = after.items.map(item => item.id);
+  const orderChanged = !sameIds(orderBefore, orderAfter);
+  const executeChanged = !sameExecuteModeItems(before.executeModeItems, after.executeModeItems);
+
+  if (itemChanges.length === 0 && !orderChanged && !executeChanged) {
+    return null;
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    label,
+    timestamp: new Date().toISOString(),
+    coalesceKey,
+    itemChanges,
+    ...(orderChanged ? { orderBefore, orderAfter } : {}),
+    ...(executeChanged ? { executeBefore: before.executeModeItems, executeAfter: after.executeModeItems } : {}),
+  };
+};
+
+// 連続した2つの履歴を1つにまとめる（older の操作前から newer の操作後まで）
+const mergeEntries = (older: HistoryEntry, newer: HistoryEntry): HistoryEntry => {
+  const changes = new Map<string, ItemChange>();
+  older.itemChanges.forEach(change => changes.set(change.id, change));
+  newer.itemChanges.forEach(change => {
+    const existing = changes.get(change.id);
+    changes.set(change.id, existing ? { id: change.id, before: existing.before, after: change.after } : change);
+  });
+
+  return {
+    ...newer,
+    itemChanges: Array.from(changes.values()),
+    orderBefore: older.orderBefore || newer.orderBefore,
+    orderAfter: newer.orderAfter || older.orderAfter,
+    executeBefore: older.executeBefore || newer.executeBefore,
+    executeAfter: newer.executeAfter || older.executeAfter,
+  };
+};
+
+/**
+ * 履歴に操作を追加する。新しい操作を記録するとやり直し（redo）の履歴は破棄される。
+ */
+export const pushHistoryEntry = (history: EventHistory, entry: HistoryEntry): EventHistory => {
+  const last = history.undo[history.undo.length - 1];
+  if (
+    last &&
+    entry.coalesceKey &&
+    last.coalesceKey === entry.coalesceKey &&
+    new Date(entry.timestamp).getTime() - new Date(last.timestamp).getTime() < COALESCE_INTERVAL_MS
+  ) {
+    return { undo: [...history.undo.slice(0, -1), mergeEntries(last, entry)], redo: [] };
+  }
+  return { undo: [...history.undo, entry].slice(-MAX_HISTORY_ENTRIES), redo: [] };
+};
+
+/**
+ * 履歴エントリを状態に適用する（undo: 操作前に戻す / redo: 操作後にする）。
+ */
+export const applyHistoryEntry = (state: EventState, entry: HistoryEntry, direction: 'undo' | 'redo'): EventState => {
+  const itemsMap = new Map(state.items.map(item => [item.id, item]));
+  const insertedIds: string[] = [];
+
+  entry.itemChanges.forEach(change => {
+    const target = direction === 'undo' ? change.before : change.after;
+    if (target) {
+      if (!itemsMap.has(change.id)) insertedIds.push(change.id);
+      itemsMap.set(change.id, target);
+    } else {
+      itemsMap.delete(change.id);
+    }
+  });
+
+  const order = direction === 'undo' ? entry.orderBefore : entry.orderAfter;
+  let items: ShoppingItem[];
+  if (order) {
+    // 記録された並び順に戻し、その後に追加されたアイテムは末尾に残す
+    const ordered = order.map(id => itemsMap.get(id)).filter(Boolean) as ShoppingItem[];
+    const orderedIds = new Set(order);
+    items = [...ordered, ...Array.from(itemsMap.values()).filter(item => !orderedIds.has(item.id))];
+  } else {
+    items = state.items
+      .filter(item => itemsMap.has(item.id))
+      .map(item => itemsMap.get(item.id)!);
+    insertedIds.forEach(id => items.push(itemsMap.get(id)!));
+  }
+
+  const executeModeItems = (direction === 'undo' ? entry.executeBefore : entry.executeAfter) || state.executeModeItems;
+
+  return { items, executeModeItems };
+};
+
+const isHistoryEntry = (value: unknown): value is HistoryEntry =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as HistoryEntry).label === 'string' &&
+  Array.isArray((value as HistoryEntry).itemChanges) &&
+  (value as HistoryEntry).itemChanges.every(change =>
+    typeof change === 'object' && change !== null && typeof change.id === 'string' && 'before' in change && 'after' in change);
+
+export const isEventHistory = (value: unknown): value is EventHistory =>
+  typeof value === 'object' &&
+  value !== null &&
+  Array.isArray((value as EventHistory).undo) &&
+  Array.isArray((value as EventHistory).redo) &&
+  (value as EventHistory).undo.every(isHistoryEntry) &&
+  (value as EventHistory).redo.every(isHistoryEntry);
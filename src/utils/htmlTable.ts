@@ -0,0 +1,63 @@
+// ブラウザ・Googleスプレッドシート・Excelからコピーした表（クリップボードのHTML）の読み込み
+
+// セル内で改行として扱う要素
+const BLOCK_ELEMENTS = new Set(['P', 'DIV', 'LI', 'TR', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6']);
+
+// セルの文字列（<br>・段落は改行に、それ以外の連続する空白は1つの空白にする）
+const readCellText = (cell: Element): string => {
+  let text = '';
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      text += (node.textContent || '').replace(/\s+/g, ' ');
+      return;
+    }
+    if (!(node instanceof Element)) return;
+    if (node.tagName === 'BR') {
+      text += '\n';
+      return;
+    }
+    if (node.tagName === 'STYLE' || node.tagName === 'SCRIPT') return;
+    const isBlock = BLOCK_ELEMENTS.has(node.tagName);
+    if (isBlock && text && !text.endsWith('\n')) text += '\n';
+    node.childNodes.forEach(walk);
+    if (isBlock && text && !text.endsWith('\n')) text += '\n';
+  };
+  cell.childNodes.forEach(walk);
+  return text.split('\n').map(line => line.trim()).join('\n').trim();
+};
+
+/**
+ * クリップボードのHTMLにある最初の表を、行ごとのセルの文字列にする。表がなければ null。
+ * 縦に結合したセル（rowspan）は結合した各行に同じ値を入れ、横に結合したセル（colspan）は左端の列にだけ値を入れる。
+ */
+export const parseHtmlTable = (html: string): string[][] | null => {
+  const table = new DOMParser().parseFromString(html, 'text/html').querySelector('table');
+  if (!table) return null;
+
+  const rows: string[][] = [];
+  // 上の行から縦に結合されているセル（左端の列番号 → 値・横に結合した列数・残りの行数）
+  const spans = new Map<number, { value: string; colSpan: number; remaining: number }>();
+  Array.from(table.rows).forEach(tableRow => {
+    const cells: string[] = [];
+    const fillSpans = () => {
+      let span = spans.get(cells.length);
+      while (span) {
+        if (--span.remaining === 0) spans.delete(cells.length);
+        cells.push(span.value, ...Array<string>(span.colSpan - 1).fill(''));
+        span = spans.get(cells.length);
+      }
+    };
+    Array.from(tableRow.cells).forEach(cell => {
+      fillSpans();
+      const value = readCellText(cell);
+      const rowSpan = Math.max(1, cell.rowSpan || 1);
+      const colSpan = Math.max(1, cell.colSpan || 1);
+      if (rowSpan > 1) spans.set(cells.length, { value, colSpan, remaining: rowSpan - 1 });
+      cells.push(value, ...Array<string>(colSpan - 1).fill(''));
+    });
+    fillSpans();
+    // 空のセルだけの行は読み飛ばす（CSVの読み込みと同じ）
+    if (cells.some(cell => cell !== '')) rows.push(cells);
+  });
+  return rows.length > 0 ? rows : null;
+};
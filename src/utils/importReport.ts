@@ -0,0 +1,125 @@
+import { ImportedItemValues, ShoppingItem } from '../types';
+import { MappedRowValues, missingRequiredFields } from './columnMapping';
+import { normalizeForMatch } from './fuzzyMatch';
+import { getItemKey } from './itemComparison';
+import { normalizeItemValues, parsePrice } from './normalize';
+import { mergeFieldLabels } from './sheetMerge';
+
+// 取り込む前に確認・修正する1行分のデータ
+export interface ImportDraftRow {
+  id: number;
+  label: string; // 取り込み元での位置（「12行目」など）
+  values: MappedRowValues;
+  layout?: { columnType: 'execute' | 'candidate'; order: number }; // このアプリで出力したファイルの配置情報
+  excluded: boolean; // 取り込まないことにした行
+}
+
+export type ImportIssueKind = 'missing' | 'price' | 'duplicate' | 'existing' | 'eventDate';
+
+export interface ImportIssue {
+  kind: ImportIssueKind;
+  message: string;
+}
+
+export interface ImportRowReport {
+  row: ImportDraftRow;
+  issues: ImportIssue[];
+  skipped: boolean; // 必須項目が空欄のため取り込めない
+}
+
+export interface ImportReport {
+  rows: ImportRowReport[];
+  acceptedCount: number;
+  skippedCount: number;
+  excludedCount: number;
+  warningCount: number; // 取り込むが確認が必要な行
+  eventDates: Array<{ eventDate: string; count: number; isNew: boolean }>; // isNew: 取り込み先に無いタブ
+}
+
+export type ImportLayoutInfo = Array<{ itemKey: string; eventDate: string; columnType: 'execute' | 'candidate'; order: number }>;
+
+/**
+ * 取り込む行を確認し、取り込めない行・確認が必要な行を洗い出す。
+ * existingItems は取り込み先のリストに既にあるアイテム（新しいリストの場合は空）。
+ */
+export const analyzeImportRows = (rows: ImportDraftRow[], existingItems: ShoppingItem[]): ImportReport => {
+  const existingKeys = new Set(existingItems.map(getItemKey));
+  const existingDates = Array.from(new Set(existingItems.map(item => item.eventDate)));
+
+  const reports: ImportRowReport[] = rows.map(row => {
+    const missing = missingRequiredFields(row.values);
+    const issues: ImportIssue[] = [];
+    if (missing.length > 0) {
+      issues.push({ kind: 'missing', message: `${missing.map(field => mergeFieldLabels[field]).join('・')}が空欄のため取り込めません` });
+    }
+    if (parsePrice(row.values.price) === null) {
+      issues.push({ kind: 'price', message: `頒布価格「${row.values.price}」を読み取れません（0円として取り込みます）` });
+    }
+    return { row, issues, skipped: missing.length > 0 };
+  });
+  const accepted = reports.filter(report => !report.skipped && !report.row.excluded);
+
+  // 同じアイテム（サークル名・参加日・ブロック・ナンバー・タイトルが同じ）
+  const firstLabels = new Map<string, string>();
+  accepted.forEach(report => {
+    const key = getItemKey(normalizeItemValues(report.row.values));
+    if (existingKeys.has(key)) {
+      report.issues.push({ kind: 'existing', message: '取り込み先のリストに同じアイテムがあります' });
+    }
+    const firstLabel = firstLabels.get(key);
+    if (firstLabel) {
+      report.issues.push({ kind: 'duplicate', message: `${firstLabel}と同じアイテムです` });
+    } else {
+      firstLabels.set(key, report.row.label);
+    }
+  });
+
+  // 参加日の表記ゆれ（「1日目」と「１日目」など）は別のタブになるため、既存のタブ・多い方の表記と比べる
+  // （取り込み先にない参加日は、行ごとではなく eventDates の isNew で示す）
+  const dateCounts = new Map<string, number>();
+  accepted.forEach(({ row }) => dateCounts.set(row.values.eventDate, (dateCounts.get(row.values.eventDate) || 0) + 1));
+  const preferredDates = new Map<string, string>();
+  existingDates.forEach(date => preferredDates.set(normalizeForMatch(date), date));
+  Array.from(dateCounts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .forEach(([date]) => {
+      const normalized = normalizeForMatch(date);
+      if (!preferredDates.has(normalized)) preferredDates.set(normalized, date);
+    });
+
+  accepted.forEach(report => {
+    const date = report.row.values.eventDate;
+    const preferred = preferredDates.get(normalizeForMatch(date));
+    if (preferred && preferred !== date) {
+      report.issues.push({ kind: 'eventDate', message: `参加日「${date}」は「${preferred}」と表記が異なるため、別のタブになります` });
+    }
+  });
+
+  return {
+    rows: reports,
+    acceptedCount: accepted.length,
+    skippedCount: reports.filter(report => report.skipped).length,
+    excludedCount: reports.filter(report => !report.skipped && report.row.excluded).length,
+    warningCount: accepted.filter(report => report.issues.length > 0).length,
+    eventDates: Array.from(dateCounts.entries()).map(([eventDate, count]) => ({
+      eventDate,
+      count,
+      isNew: existingDates.length > 0 && !existingDates.includes(eventDate),
+    })),
+  };
+};
+
+// 確認を終えた行から、取り込むアイテムと配置情報を作る
+export const collectImportItems = (report: ImportReport): { items: ImportedItemValues[]; layoutInfo: ImportLayoutInfo } => {
+  const items: ImportedItemValues[] = [];
+  const layoutInfo: ImportLayoutInfo = [];
+  report.rows.forEach(({ row, skipped }) => {
+    if (skipped || row.excluded) return;
+    const item = normalizeItemValues(row.values);
+    items.push(item);
+    if (row.layout) {
+      layoutInfo.push({ itemKey: getItemKey(item), eventDate: item.eventDate, ...row.layout });
+    }
+  });
+  return { items, layoutInfo };
+};
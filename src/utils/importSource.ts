@@ -0,0 +1,116 @@
+import { ChangeLogEntry, ImportSource, UrlImportSource } from '../types';
+import { CsvParseResult, parseCsv, parseCsvStream } from './csv';
+
+// リストの取り込み元（Googleスプレッドシート・公開されたCSVのURL・ローカルのファイル）
+
+// 「ウェブに公開」した URL（/spreadsheets/d/e/…/pub）はCSVとして直接読めるため、CSVのURLとして扱う
+const GOOGLE_SHEETS_PATTERN = /^(https?:\/\/[^/?#]+)\/spreadsheets\/d\/(?!e\/)([a-zA-Z0-9-_]+)/;
+
+export const isUrlImportSource = (source?: ImportSource): source is UrlImportSource =>
+  source?.type === 'google-sheets' || source?.type === 'csv-url';
+
+/**
+ * GoogleスプレッドシートのURLからシートの gid を取り出す。
+ * 表示中のシートを表す「#gid=」を「?gid=」より優先する。
+ */
+export const parseGoogleSheetsGid = (url: string): string | undefined =>
+  (url.match(/#(?:.*&)?gid=(\d+)/) || url.match(/[?&]gid=(\d+)/))?.[1];
+
+/**
+ * 入力されたURLとシート名から取り込み元を判定する。
+ * Googleスプレッドシートの編集・共有URL以外は、公開されたCSVのURL（Excel Online・Nextcloud・静的ファイルなど）として扱う。
+ * GoogleスプレッドシートはURLの gid も記録する（シート名とどちらを使うかは resolveCsvUrl を参照）。
+ */
+export const toUrlImportSource = (url: string, sheetName = ''): UrlImportSource => {
+  if (!GOOGLE_SHEETS_PATTERN.test(url)) return { type: 'csv-url', url };
+  const gid = parseGoogleSheetsGid(url);
+  return { type: 'google-sheets', url, sheetName, ...(gid ? { gid } : {}) };
+};
+
+// 取り込み元のURL（ファイルの場合は空）
+export const getSourceUrl = (source?: ImportSource) => (isUrlImportSource(source) ? source.url : '');
+
+// 画面に表示する取り込み元の説明
+export const describeImportSource = (source: ImportSource): string => {
+  switch (source.type) {
+    case 'google-sheets':
+      return `Googleスプレッドシート（${source.sheetName ? `シート「${source.sheetName}」` : source.gid ? `gid ${source.gid} のシート` : '先頭のシート'}）`;
+    case 'csv-url':
+      return 'CSVのURL';
+    case 'file':
+      return `ファイル「${source.fileName}」${source.sheetName ? `のシート「${source.sheetName}」` : ''}`;
+  }
+};
+
+/**
+ * CSVとして読み込むURLを求める。Googleスプレッドシートは gviz のCSV出力を使い、
+ * シート名があればシート名、なければ gid、どちらもなければ先頭のシートを読む（インポート・更新で共通）。
+ * （ホストは入力されたURLのものを使うため、テスト用のサーバーでも同じ形式のURLで確認できる）
+ */
+export const resolveCsvUrl = (source: UrlImportSource): string => {
+  if (source.type === 'csv-url') {
+    if (!/^https?:\/\//i.test(source.url)) {
+      throw new Error('URLは http:// または https:// で始まる必要があります。');
+    }
+    return source.url;
+  }
+  const match = source.url.match(GOOGLE_SHEETS_PATTERN);
+  if (!match) {
+    throw new Error('GoogleスプレッドシートのURLではありません。');
+  }
+  const sheet = source.sheetName
+    ? `&sheet=${encodeURIComponent(source.sheetName)}`
+    : source.gid ? `&gid=${encodeURIComponent(source.gid)}` : '';
+  return `${match[1]}/spreadsheets/d/${match[2]}/gviz/tq?tqx=out:csv${sheet}`;
+};
+
+/**
+ * 取り込み元のURLからCSVを読み込む。読み込めない場合は理由を付けた例外を投げる。
+ */
+export const fetchSourceCsv = async (source: UrlImportSource): Promise<CsvParseResult> => {
+  const url = resolveCsvUrl(source);
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch {
+    throw new Error('URLに接続できませんでした。公開設定と、他のサイトからの読み込み（CORS）が許可されているかを確認してください。');
+  }
+  if (!response.ok) {
+    throw new Error(`読み込みに失敗しました（HTTP ${response.status}）。`);
+  }
+  // ログイン画面や共有ページが返された場合は、CSVとして読まない
+  if ((response.headers.get('content-type') || '').includes('text/html')) {
+    throw new Error('CSVではなくWebページが返されました。CSVとしてダウンロードできるURLを指定してください。');
+  }
+  return response.body ? parseCsvStream(response.body, { encoding: 'auto' }) : parseCsv(await response.text());
+};
+
+// 変更履歴に記録する取り込み元（ファイルの場合は記録しない。gid で選んだシートは「gid=…」）
+export const toChangeLogSource = (source?: ImportSource): ChangeLogEntry['source'] => {
+  if (!isUrlImportSource(source)) return undefined;
+  if (source.type === 'csv-url') return { url: source.url, sheetName: '' };
+  return { url: source.url, sheetName: source.sheetName || (source.gid ? `gid=${source.gid}` : '') };
+};
+
+/**
+ * エクスポートするファイルに書き込むメタデータ行（取り込み元がURLの場合のみ）。
+ * 取り込み時に読み取り、リストの取り込み元として引き継ぐ。
+ */
+export const toSourceMetadataRows = (source?: ImportSource): string[][] => {
+  if (!isUrlImportSource(source)) return [];
+  const rows = [['#METADATA', 'spreadsheetUrl', source.url]];
+  if (source.type === 'google-sheets' && source.sheetName) {
+    rows.push(['#METADATA', 'sheetName', source.sheetName]);
+  }
+  if (source.type === 'google-sheets' && source.gid) {
+    rows.push(['#METADATA', 'gid', source.gid]);
+  }
+  return rows;
+};
+
+// toSourceMetadataRows で書き込んだメタデータ（項目名 → 値）から取り込み元を復元する
+export const fromSourceMetadata = (values: Record<string, string>): UrlImportSource | undefined => {
+  if (!values.spreadsheetUrl) return undefined;
+  const source = toUrlImportSource(values.spreadsheetUrl, values.sheetName || '');
+  return source.type === 'google-sheets' && /^\d+$/.test(values.gid || '') ? { ...source, gid: values.gid } : source;
+};
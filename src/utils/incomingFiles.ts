@@ -0,0 +1,72 @@
+// ドロップ・OSの「このアプリで開く」（File Handling）・共有（Web Share Target）で受け取ったファイル
+
+// 共有されたファイルを Service Worker から受け渡すキャッシュ（public/share-target.js と同じ名前）
+const SHARE_TARGET_CACHE = 'share-target';
+// 共有を受け取った後に Service Worker が開くURLのパラメータ
+const SHARE_TARGET_PARAM = 'share-target';
+
+interface LaunchParams {
+  files: FileSystemHandle[];
+}
+
+declare global {
+  interface Window {
+    launchQueue?: { setConsumer: (consumer: (params: LaunchParams) => void) => void };
+  }
+}
+
+// バックアップ（JSON）のファイルか
+export const isBackupFile = (file: File) => /\.json$/i.test(file.name) || file.type === 'application/json';
+
+// 取り込めるファイルか（チャットアプリからの共有では拡張子が付かない場合があるため、種類も見る）
+export const isImportableFile = (file: File) =>
+  /\.(csv|tsv|xlsx)$/i.test(file.name) || ['text/csv', 'text/tab-separated-values'].includes(file.type) || isBackupFile(file);
+
+// ドラッグしているものがファイルか（アイテムの並び替えなどのドラッグと区別する）
+export const hasDraggedFiles = (dataTransfer: DataTransfer | null) =>
+  !!dataTransfer && Array.from(dataTransfer.types).includes('Files');
+
+/**
+ * 「このアプリで開く」で起動された場合に、開かれたファイルを受け取る。
+ * ファイルを読み出せなかった場合（削除された・権限がないなど）は onError を呼ぶ。
+ * 対応していないブラウザでは何もしない。
+ */
+export const consumeLaunchFiles = (onFiles: (files: File[]) => void, onError: (error: unknown) => void) => {
+  window.launchQueue?.setConsumer(async params => {
+    const handles = params.files.filter((handle): handle is FileSystemFileHandle => handle.kind === 'file');
+    if (handles.length === 0) return;
+    let files: File[];
+    try {
+      files = await Promise.all(handles.map(handle => handle.getFile()));
+    } catch (error) {
+      onError(error);
+      return;
+    }
+    onFiles(files);
+  });
+};
+
+/**
+ * 共有で起動された場合に、Service Worker がキャッシュに保存したファイルを取り出す（取り出したら削除する）。
+ * 共有で起動されていなければ null。
+ */
+export const takeSharedFiles = async (): Promise<File[] | null> => {
+  const params = new URLSearchParams(window.location.search);
+  if (!params.has(SHARE_TARGET_PARAM)) return null;
+  // 再読み込みで同じファイルを取り込まないよう、URLからパラメータを外す
+  params.delete(SHARE_TARGET_PARAM);
+  const search = params.toString();
+  window.history.replaceState(null, '', `${window.location.pathname}${search ? `?${search}` : ''}`);
+
+  if (!('caches' in window) || !(await caches.has(SHARE_TARGET_CACHE))) return [];
+  const cache = await caches.open(SHARE_TARGET_CACHE);
+  const files: File[] = [];
+  for (const request of await cache.keys()) {
+    const response = await cache.match(request);
+    if (!response) continue;
+    const blob = await response.blob();
+    files.push(new File([blob], decodeURIComponent(response.headers.get('X-File-Name') || 'shared'), { type: blob.type }));
+  }
+  await caches.delete(SHARE_TARGET_CACHE);
+  return files;
+};
@@ -0,0 +1,77 @@
+import { ImportedItemValues, SheetItemValues, ShoppingItem, SourceText } from '../types';
+
+// ブロック・ナンバー・頒布価格の表記の正規化（取り込み・更新・手入力で共通）
+
+// ハイフンとして使われる文字（各種ダッシュ・マイナス記号・長音記号）
+const DASHES = /[‐‑‒–—―−ー－]/g;
+
+/**
+ * ブロック名を正規化する。全角英数字・半角カナを NFKC でそろえ、空白を除く。
+ * 大文字・小文字（東ホールの「A」と南ホールの「a」）、カタカナ・ひらがな（東ホールの「ア」と西ホールの「あ」）は
+ * 別のブロックを表すため変換しない。
+ */
+export const normalizeBlock = (text: string): string =>
+  text.normalize('NFKC').replace(/\s+/g, '');
+
+/**
+ * スペース番号を正規化する。NFKC でそろえて空白を除き、ハイフンを統一し、「01A」の英字は小文字にする。
+ */
+export const normalizeNumber = (text: string): string =>
+  text.normalize('NFKC').replace(/\s+/g, '').replace(DASHES, '-').toLowerCase();
+
+// 全角・空白・通貨記号・桁区切りをそろえた価格の文字列
+const simplifyPrice = (text: string) =>
+  text
+    .normalize('NFKC')
+    .replace(/\s+/g, '')
+    .replace(/円|¥|\\|yen/gi, '')
+    .replace(/(\d),(?=\d{3}(?!\d))/g, '$1');
+
+/**
+ * 頒布価格の文字列を数値にする。全角数字・桁区切り・「円」「¥」を読み、「500+300」のような合計は足し合わせる。
+ * 空欄・「無料」は0。それ以外で読み取れない場合は null。
+ */
+export const parsePrice = (text: string): number | null => {
+  const normalized = simplifyPrice(text);
+  if (normalized === '' || /^(無料|free)$/i.test(normalized)) return 0;
+  const terms = normalized.split('+');
+  if (!terms.every(term => /^\d+$/.test(term))) return null;
+  return terms.reduce((sum, term) => sum + parseInt(term, 10), 0);
+};
+
+/**
+ * 文字列のまま取り出した各項目を正規化してアイテムの値にする。
+ * 表記が変わったブロック・ナンバーと、合計・読み取れない頒布価格は、元の表記を sourceText に残す
+ * （「1,000円」のように数字だけ読めば済む頒布価格は残さない）。
+ * 読み取れない頒布価格は0円とする。
+ */
+export const normalizeItemValues = (values: Record<keyof SheetItemValues, string>): ImportedItemValues => {
+  const block = normalizeBlock(values.block);
+  const number = normalizeNumber(values.number);
+  const price = parsePrice(values.price) ?? 0;
+  const sourceText: SourceText = {};
+  if (block !== values.block) sourceText.block = values.block;
+  if (number !== values.number) sourceText.number = values.number;
+  if (simplifyPrice(values.price) !== String(price) && values.price !== '') sourceText.price = values.price;
+  return {
+    ...values,
+    block,
+    number,
+    price,
+    ...(Object.keys(sourceText).length > 0 ? { sourceText } : {}),
+  };
+};
+
+/**
+ * アイテムの元の表記のうち、今の値と対応しているもの（その後に編集された項目は除く）。
+ * 表示するものがなければ undefined。
+ */
+export const currentSourceText = (item: Pick<ShoppingItem, 'block' | 'number' | 'price' | 'sourceText'>): SourceText | undefined => {
+  const { sourceText } = item;
+  if (!sourceText) return undefined;
+  const result: SourceText = {};
+  if (sourceText.block !== undefined && normalizeBlock(sourceText.block) === item.block) result.block = sourceText.block;
+  if (sourceText.number !== undefined && normalizeNumber(sourceText.number) === item.number) result.number = sourceText.number;
+  if (sourceText.price !== undefined && (parsePrice(sourceText.price) ?? 0) === item.price) result.price = sourceText.price;
+  return Object.keys(result).length > 0 ? result : undefined;
+};
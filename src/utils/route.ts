@@ -0,0 +1,222 @@
+import { PurchaseStatus, ShoppingItem, VenueLayout } from '../types';
+import { findVenueBlock, locateSpace } from './venueLayout';
+
+// 実行列の巡回順の最適化（会場図上の位置から、歩く距離の短い順序を求める）
+
+export interface RoutePoint {
+  x: number;
+  y: number;
+}
+
+export interface RouteOptions {
+  startBlock: string | null; // 出発するブロック（null は列の先頭、または並べ替える範囲の直前のアイテムから）
+  priorityFirst: boolean; // 備考に「優先」のあるアイテムを先に回る
+  wallFirst: boolean; // 壁サークルを先に回る
+  pinnedIds: Set<string>; // 今の位置から動かさないアイテム
+  targetIds: Set<string> | null; // 並べ替えるアイテム（null は実行列のすべて）
+}
+
+export interface RoutePlan {
+  order: string[]; // 並べ替えた実行列のアイテムID
+  distance: number; // 並べ替えた後の推定距離
+  previousDistance: number; // 並べ替える前の推定距離
+  unlocatedIds: string[]; // 会場図に位置がないため、並べ替える範囲の末尾に回したアイテム
+}
+
+// 通路は縦横に通っているため、2点間の距離は縦横の移動距離の和とする
+export const routeDistance = (a: RoutePoint, b: RoutePoint) => Math.abs(a.x - b.x) + Math.abs(a.y - b.y);
+
+// 備考に「優先」のあるアイテム（カードの警告表示と同じ判定）
+export const isPriorityItem = (item: ShoppingItem) => item.remarks.includes('優先');
+
+// 会場図で壁のブロックにあるアイテム
+export const isWallItem = (layout: VenueLayout, item: ShoppingItem) =>
+  findVenueBlock(layout, item.block)?.block.kind === 'wall';
+
+// アイテムの会場内の位置（会場図にないブロックは null）
+export const locateItem = (layout: VenueLayout, item: ShoppingItem): RoutePoint | null => {
+  const location = locateSpace(layout, item.block, item.number);
+  return location && { x: location.x, y: location.y };
+};
+
+/**
+ * 順序どおりに回ったときの距離。位置の分からないアイテムは飛ばす。
+ * start がある場合は、start から先頭のアイテムまでの距離も含める。
+ */
+export const measureRoute = (points: Array<RoutePoint | null>, start: RoutePoint | null = null): number => {
+  let distance = 0;
+  let current = start;
+  points.forEach(point => {
+    if (!point) return;
+    if (current) distance += routeDistance(current, point);
+    current = point;
+  });
+  return distance;
+};
+
+/**
+ * start から ids のすべてを回る順序を求める（最も近いアイテムを順にたどってから、2-opt で交差をほどく）。
+ * 先頭は start に固定し、終点は自由とする。
+ */
+const orderByDistance = (ids: string[], points: Map<string, RoutePoint>, start: RoutePoint): string[] => {
+  const remaining = [...ids];
+  const path: string[] = [];
+  let current = start;
+  while (remaining.length > 0) {
+    let nearestIndex = 0;
+    remaining.forEach((id, index) => {
+      if (routeDistance(current, points.get(id)!) < routeDistance(current, points.get(remaining[nearestIndex])!)) {
+        nearestIndex = index;
+      }
+    });
+    const [nearest] = remaining.splice(nearestIndex, 1);
+    path.push(nearest);
+    current = points.get(nearest)!;
+  }
+
+  // path[i..k] を逆順にして短くなる限り繰り返す（件数が多い場合も終わるよう回数に上限を設ける）
+  const pointAt = (index: number) => (index < 0 ? start : points.get(path[index])!);
+  for (let pass = 0; pass < 50; pass++) {
+    let improved = false;
+    for (let i = 0; i < path.length - 1; i++) {
+      for (let k = i + 1; k < path.length; k++) {
+        const before = routeDistance(pointAt(i - 1), pointAt(i)) + (k + 1 < path.length ? routeDistance(pointAt(k), pointAt(k + 1)) : 0);
+        const after = routeDistance(pointAt(i - 1), pointAt(k)) + (k + 1 < path.length ? routeDistance(pointAt(i), pointAt(k + 1)) : 0);
+        if (after < before - 1e-9) {
+          path.splice(i, k - i + 1, ...path.slice(i, k + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return path;
+};
+
+/**
+ * 実行列（columnItems の順）の巡回順を最適化する。
+ * 固定したアイテムと並べ替えの対象外のアイテムは今の位置に残し、空いた位置に最適化した順序で入れる。
+ * 「優先」・壁サークルを先に回る場合は、それらを先にまとめて回ってから残りを回る。
+ */
+export const planRoute = (columnItems: ShoppingItem[], layout: VenueLayout, options: RouteOptions): RoutePlan => {
+  const points = new Map<string, RoutePoint>();
+  columnItems.forEach(item => {
+    const point = locateItem(layout, item);
+    if (point) points.set(item.id, point);
+  });
+
+  const isFree = (item: ShoppingItem) =>
+    !options.pinnedIds.has(item.id) && (!options.targetIds || options.targetIds.has(item.id));
+  const freeSlots = columnItems.map((item, index) => (isFree(item) ? index : -1)).filter(index => index !== -1);
+  const freeItems = freeSlots.map(index => columnItems[index]);
+  const unlocatedIds = freeItems.filter(item => !points.has(item.id)).map(item => item.id);
+  const locatedItems = freeItems.filter(item => points.has(item.id));
+
+  const isFirst = (item: ShoppingItem) =>
+    (options.priorityFirst && isPriorityItem(item)) || (options.wallFirst && isWallItem(layout, item));
+  const groups = [locatedItems.filter(isFirst), locatedItems.filter(item => !isFirst(item))].filter(group => group.length > 0);
+
+  // 出発地点: 指定したブロック、並べ替える範囲の直前のアイテム、最初に回るアイテムの順に決める
+  const startLocation = options.startBlock ? locateSpace(layout, options.startBlock, '') : null;
+  const previousItem = freeSlots.length > 0
+    ? columnItems.slice(0, freeSlots[0]).reverse().find(item => points.has(item.id))
+    : undefined;
+  const start: RoutePoint | null = startLocation
+    ? { x: startLocation.x, y: startLocation.y }
+    : previousItem ? points.get(previousItem.id)! : null;
+
+  const orderedIds: string[] = [];
+  let current = start ?? (groups.length > 0 ? points.get(groups[0][0].id)! : null);
+  groups.forEach(group => {
+    const path = orderByDistance(group.map(item => item.id), points, current!);
+    orderedIds.push(...path);
+    current = points.get(path[path.length - 1])!;
+  });
+  orderedIds.push(...unlocatedIds);
+
+  const order = columnItems.map(item => item.id);
+  freeSlots.forEach((slot, index) => {
+    order[slot] = orderedIds[index];
+  });
+
+  const measureStart = startLocation ? { x: startLocation.x, y: startLocation.y } : null;
+  return {
+    order,
+    distance: measureRoute(order.map(id => points.get(id) ?? null), measureStart),
+    previousDistance: measureRoute(columnItems.map(item => points.get(item.id) ?? null), measureStart),
+    unlocatedIds,
+  };
+};
+
+// 巡回済みとみなす購入状態（後回し・遅参は、後で戻るアイテム）
+const VISITED_STATUSES: PurchaseStatus[] = ['Purchased', 'SoldOut', 'Absent'];
+
+export const isVisitedItem = (item: ShoppingItem) => VISITED_STATUSES.includes(item.purchaseStatus);
+
+// 現在地: 実行列で最後に巡回済みになったアイテムの位置（-1 はまだ回っていない）
+export const findCurrentIndex = (columnItems: ShoppingItem[]): number => {
+  let currentIndex = -1;
+  columnItems.forEach((item, index) => {
+    if (isVisitedItem(item)) currentIndex = index;
+  });
+  return currentIndex;
+};
+
+export const isReplanTarget = (item: ShoppingItem) => item.purchaseStatus === 'Postpone' || item.purchaseStatus === 'Late';
+
+/**
+ * 後回し・遅参のアイテムを、現在地（最後に巡回済みになったアイテム）より後の残りのルートに入れ直す。
+ * それぞれ距離の増え方が最も小さい位置に入れるが、後回しにした意味がなくなるよう、次に回るアイテムの直前には入れない。
+ * 会場図に位置がないアイテムは最後に回す。対象のアイテムがなければ null。
+ */
+export const replanPostponedItems = (columnItems: ShoppingItem[], layout: VenueLayout): string[] | null => {
+  const targets = columnItems.filter(isReplanTarget);
+  if (targets.length === 0) return null;
+
+  const currentIndex = findCurrentIndex(columnItems);
+  const visited = columnItems.slice(0, currentIndex + 1).filter(item => !isReplanTarget(item));
+  const remaining = columnItems.slice(currentIndex + 1).filter(item => !isReplanTarget(item));
+  const current = currentIndex >= 0 ? locateItem(layout, columnItems[currentIndex]) : null;
+
+  const points = new Map<string, RoutePoint | null>(columnItems.map(item => [item.id, locateItem(layout, item)]));
+  const route = remaining.map(item => item.id);
+  const unlocated: string[] = [];
+  // slot の前後で位置の分かる最も近いアイテム（前がなければ現在地）
+  const pointBefore = (slot: number): RoutePoint | null => {
+    for (let i = slot - 1; i >= 0; i--) {
+      const point = points.get(route[i]);
+      if (point) return point;
+    }
+    return current;
+  };
+  const pointAfter = (slot: number): RoutePoint | null => {
+    for (let i = slot; i < route.length; i++) {
+      const point = points.get(route[i]);
+      if (point) return point;
+    }
+    return null;
+  };
+
+  targets.forEach(target => {
+    const point = points.get(target.id);
+    if (!point) {
+      unlocated.push(target.id);
+      return;
+    }
+    let bestSlot = route.length;
+    let bestCost = Infinity;
+    for (let slot = route.length > 0 ? 1 : 0; slot <= route.length; slot++) {
+      const before = pointBefore(slot);
+      const after = pointAfter(slot);
+      const cost = (before ? routeDistance(before, point) : 0) + (after ? routeDistance(point, after) : 0)
+        - (before && after ? routeDistance(before, after) : 0);
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestSlot = slot;
+      }
+    }
+    route.splice(bestSlot, 0, target.id);
+  });
+
+  return [...visited.map(item => item.id), ...route, ...unlocated];
+};
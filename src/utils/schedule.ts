@@ -0,0 +1,101 @@
+import { SellOutRisk, ShoppingItem, VenueLayout } from '../types';
+import { RoutePoint, findCurrentIndex, isReplanTarget, isVisitedItem, locateItem, routeDistance } from './route';
+
+// 巡回の予定（実行列の順に回ったときの、各アイテムへの到着時刻の見込み）
+
+// 混雑した会場内を歩く速さ（メートル/分）
+export const WALKING_METERS_PER_MINUTE = 40;
+// 待ち時間を設定していないアイテムの見込み（分）
+export const DEFAULT_QUEUE_MINUTES = 3;
+// 開始時刻を設定していない参加日の開始時刻
+export const DEFAULT_START_TIME = '10:00';
+
+// 売り切れの恐れごとの、開始から売り切れるまでの見込み（分。null は売り切れを見込まない）
+export const sellOutMinutes: Record<SellOutRisk, number | null> = {
+  low: null,
+  medium: 120,
+  high: 30,
+};
+
+export const sellOutRiskLabels: Record<SellOutRisk, string> = {
+  low: '低',
+  medium: '中',
+  high: '高',
+};
+
+export interface ScheduleEntry {
+  item: ShoppingItem;
+  walkMinutes: number; // 前のアイテムから歩く時間（どちらかの位置が分からない場合は 0）
+  arrival: number; // 到着時刻（0時からの分）
+  departure: number; // 買い終わる時刻（0時からの分）
+  isLocated: boolean;
+  sellOutAt: number | null; // 売り切れの見込み時刻（0時からの分）
+  isAtRisk: boolean; // 売り切れの見込みより後に着く
+}
+
+// "HH:MM" を0時からの分に変換する（形式が不正な場合は null）
+export const parseTime = (time: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match) return null;
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+};
+
+// 0時からの分を "H:MM" で表示する（24時を過ぎてもそのまま数える）
+export const formatTime = (minutes: number): string => {
+  const rounded = Math.round(minutes);
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, '0')}`;
+};
+
+/**
+ * columnItems を順に回ったときの予定を求める。
+ * 先頭のアイテムへは start.point（null はその場）から歩き始め、以降は歩く時間と待ち時間を足していく。
+ * 売り切れの見込みは開始時刻（opening）からの経過時間で判定する。
+ */
+export const buildSchedule = (
+  columnItems: ShoppingItem[],
+  layout: VenueLayout,
+  opening: number,
+  start: { time: number; point: RoutePoint | null } = { time: opening, point: null }
+): ScheduleEntry[] => {
+  let time = start.time;
+  let current = start.point;
+  return columnItems.map(item => {
+    const point = locateItem(layout, item);
+    const walkMinutes = current && point ? routeDistance(current, point) / WALKING_METERS_PER_MINUTE : 0;
+    if (point) current = point;
+    const arrival = time + walkMinutes;
+    time = arrival + (item.queueMinutes ?? DEFAULT_QUEUE_MINUTES);
+    const limit = item.sellOutRisk ? sellOutMinutes[item.sellOutRisk] : null;
+    const sellOutAt = limit === null ? null : opening + limit;
+    return {
+      item,
+      walkMinutes,
+      arrival,
+      departure: time,
+      isLocated: !!point,
+      sellOutAt,
+      isAtRisk: sellOutAt !== null && arrival > sellOutAt,
+    };
+  });
+};
+
+/**
+ * 現在地（最後に巡回済みにしたアイテム）から、残りのアイテムを now 以降に回る予定を求める。
+ * 現在地より前の後回し・遅参のアイテムは、最後に戻って回るものとする。開始前は開始時刻から回る。
+ */
+export const buildRemainingSchedule = (
+  columnItems: ShoppingItem[],
+  layout: VenueLayout,
+  opening: number,
+  now: number
+): ScheduleEntry[] => {
+  const currentIndex = findCurrentIndex(columnItems);
+  const remaining = [
+    ...columnItems.slice(currentIndex + 1).filter(item => !isVisitedItem(item)),
+    ...columnItems.slice(0, currentIndex + 1).filter(isReplanTarget),
+  ];
+  const point = currentIndex >= 0 ? locateItem(layout, columnItems[currentIndex]) : null;
+  return buildSchedule(remaining, layout, opening, { time: Math.max(now, opening), point });
+};
@@ -0,0 +1,346 @@
+import { ShoppingItem, EventMetadata, ExecuteModeItems, DayModeState, PurchaseStatuses, SellOutRisks, VenueLayout } from '../types';
+import { normalizeBlock, normalizeNumber } from './normalize';
+import { toUrlImportSource } from './importSource';
+import { validateVenueLayout } from './venueLayout';
+
+/**
+ * 保存データのスキーマバージョン。
+ * 保存形式を変更したときはバージョンを上げ、下の移行関数を追加する。
+ *   1: バージョン情報のない旧形式（localStorage時代のデータを含む）
+ *   2: スキーマバージョンを記録
+ *   3: アイテムにスプレッドシート取り込み時の値（sheetBase）を記録
+ *   4: アイテムに「シートから削除済み」の印（removedFromSheet）を記録
+ *   5: イベントのメタデータに列の割り当て（columnMapping）を記録
+ *   6: アイテムのブロック・ナンバーを正規化し、元の表記（sourceText）を記録
+ *   7: イベントのメタデータにWebカタログからの取り込み設定（catalogImport）を記録
+ *   8: イベントのメタデータのスプレッドシートURL・シート名を取り込み元（source）にまとめる
+ *   9: イベントに会場図（venueLayout）を記録
+ *  10: アイテムに待ち時間・売り切れの恐れ（queueMinutes・sellOutRisk）、イベントのメタデータに開始時刻（startTimes）を記録
+ */
+export const CURRENT_SCHEMA_VERSION = 10;
+
+// イベント単位のレコード（アイテム本体は items ストアに1件ずつ保存）
+export interface EventRecord {
+  schemaVersion: number;
+  name: string;
+  itemIds: string[]; // アイテムの並び順
+  metadata?: EventMetadata;
+  executeModeItems: ExecuteModeItems;
+  dayModes: DayModeState;
+  venueLayout?: VenueLayout;
+}
+
+export interface ItemRecord extends ShoppingItem {
+  schemaVersion: number;
+  eventName: string;
+}
+
+type RawRecord = Record<string, unknown>;
+type Migration = (record: RawRecord) => RawRecord;
+
+// バージョン n のレコードを n + 1 に変換する関数
+const eventMigrations: Record<number, Migration> = {
+  1: (record) => ({
+    ...record,
+    itemIds: Array.isArray(record.itemIds) ? record.itemIds : [],
+    executeModeItems: record.executeModeItems || {},
+    dayModes: record.dayModes || {},
+    // オブジェクトでないメタデータは、検証で弾くためそのまま
+    metadata: isPlainObject(record.metadata)
+      ? {
+          ...record.metadata,
+          spreadsheetSheetName: record.metadata.spreadsheetSheetName ?? '',
+          lastImportDate: record.metadata.lastImportDate ?? '',
+        }
+      : record.metadata || undefined,
+  }),
+  // アイテムのみの変更のため、イベントのレコードはそのまま
+  2: (record) => record,
+  3: (record) => record,
+  // columnMapping は任意項目のため、既存のメタデータはそのまま（スプレッドシート形式として扱う）
+  4: (record) => record,
+  5: (record) => record,
+  // catalogImport は任意項目のため、既存のメタデータはそのまま
+  6: (record) => record,
+  // URLが空のメタデータは、Webカタログのお気に入りCSV（ファイル）から取り込んだリスト
+  7: (record) => {
+    if (!isPlainObject(record.metadata)) return record;
+    const { spreadsheetUrl, spreadsheetSheetName, ...metadata } = record.metadata;
+    const source = typeof spreadsheetUrl === 'string' && spreadsheetUrl
+      ? toUrlImportSource(spreadsheetUrl, typeof spreadsheetSheetName === 'string' ? spreadsheetSheetName : '')
+      : { type: 'file', fileName: '' };
+    return { ...record, metadata: { ...metadata, source } };
+  },
+  // venueLayout は任意項目のため、既存のイベントはそのまま
+  8: (record) => record,
+  // startTimes は任意項目のため、既存のメタデータはそのまま
+  9: (record) => record,
+};
+
+// ブロック・ナンバーを正規化する（文字列でない値は検証で弾くためそのまま）
+const normalizeLocation = (record: RawRecord): RawRecord => ({
+  ...record,
+  ...(typeof record.block === 'string' ? { block: normalizeBlock(record.block) } : {}),
+  ...(typeof record.number === 'string' ? { number: normalizeNumber(record.number) } : {}),
+});
+
+const itemMigrations: Record<number, Migration> = {
+  1: (record) => ({
+    ...record,
+    title: record.title ?? '',
+    remarks: record.remarks ?? '',
+    purchaseStatus: record.purchaseStatus ?? 'None',
+    price: typeof record.price === 'string'
+      ? parseInt(record.price.replace(/[^0-9]/g, ''), 10) || 0
+      : record.price ?? 0,
+  }),
+  // sheetBase は任意項目のため、既存のアイテムはそのまま（次回の更新時に記録される）
+  2: (record) => record,
+  // removedFromSheet は任意項目のため、既存のアイテムはそのまま
+  3: (record) => record,
+  // イベントのみの変更のため、アイテムのレコードはそのまま
+  4: (record) => record,
+  // 表記ゆれで照合できなくならないよう、sheetBase も同じ規則でそろえる（頒布価格は既に数値）
+  5: (record) => {
+    const normalized = normalizeLocation(record);
+    const sourceText: RawRecord = {};
+    if (normalized.block !== record.block) sourceText.block = record.block;
+    if (normalized.number !== record.number) sourceText.number = record.number;
+    return {
+      ...normalized,
+      ...(isPlainObject(record.sheetBase) ? { sheetBase: normalizeLocation(record.sheetBase) } : {}),
+      ...(Object.keys(sourceText).length > 0 ? { sourceText } : {}),
+    };
+  },
+  // イベントのみの変更のため、アイテムのレコードはそのまま
+  6: (record) => record,
+  7: (record) => record,
+  8: (record) => record,
+  // queueMinutes・sellOutRisk は任意項目のため、既存のアイテムはそのまま
+  9: (record) => record,
+};
+
+export const isPlainObject = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string');
+
+export const getRecordVersion = (record: RawRecord): number =>
+  typeof record.schemaVersion === 'number' ? record.schemaVersion : 1;
+
+const migrate = (record: RawRecord, migrations: Record<number, Migration>, kind: string): RawRecord => {
+  let current = record;
+  let version = getRecordVersion(record);
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`新しいバージョンのアプリで保存された${kind}です（バージョン${version}）`);
+  }
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const step = migrations[version];
+    if (!step) {
+      throw new Error(`バージョン${version}の${kind}を変換できません`);
+    }
+    current = step(current);
+    version++;
+  }
+  return { ...current, schemaVersion: CURRENT_SCHEMA_VERSION };
+};
+
+const validateSheetItemValues = (value: RawRecord, prefix = ''): string[] => {
+  const errors: string[] = [];
+  (['circle', 'eventDate', 'block', 'number', 'title', 'remarks'] as const).forEach(field => {
+    if (typeof value[field] !== 'string') {
+      errors.push(`${prefix}${field} が文字列ではありません`);
+    }
+  });
+  if (typeof value.price !== 'number' || !Number.isFinite(value.price)) {
+    errors.push(`${prefix}price が数値ではありません`);
+  }
+  return errors;
+};
+
+const isColumnIndex = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+export const validateColumnMappingProfile = (value: unknown, prefix = ''): string[] => {
+  if (!isPlainObject(value)) return [`${prefix}の形式が不正です`];
+  const errors: string[] = [];
+  if (typeof value.name !== 'string') {
+    errors.push(`${prefix}.name が文字列ではありません`);
+  }
+  const mapping = value.mapping;
+  if (!isPlainObject(mapping)) {
+    errors.push(`${prefix}.mapping の形式が不正です`);
+    return errors;
+  }
+  (['circle', 'eventDate', 'block', 'number'] as const).forEach(field => {
+    if (!isColumnIndex(mapping[field])) {
+      errors.push(`${prefix}.mapping.${field} が列番号ではありません`);
+    }
+  });
+  (['title', 'price', 'remarks'] as const).forEach(field => {
+    if (mapping[field] !== null && !isColumnIndex(mapping[field])) {
+      errors.push(`${prefix}.mapping.${field} が列番号ではありません`);
+    }
+  });
+  if (!Array.isArray(mapping.extras) || !mapping.extras.every((extra: unknown) =>
+    isPlainObject(extra) && typeof extra.label === 'string' && isColumnIndex(extra.column))) {
+    errors.push(`${prefix}.mapping.extras の形式が不正です`);
+  }
+  if (typeof mapping.hasHeader !== 'boolean') {
+    errors.push(`${prefix}.mapping.hasHeader が真偽値ではありません`);
+  }
+  return errors;
+};
+
+const validateImportSource = (value: unknown, prefix: string): string[] => {
+  if (!isPlainObject(value)) return [`${prefix} の形式が不正です`];
+  const stringFields: Record<string, string[]> = {
+    'google-sheets': ['url', 'sheetName'],
+    'csv-url': ['url'],
+    file: ['fileName'],
+  };
+  const fields = typeof value.type === 'string' ? stringFields[value.type] : undefined;
+  if (!fields) return [`${prefix}.type「${String(value.type)}」は不明な取り込み元です`];
+  const errors = fields
+    .filter(field => typeof value[field] !== 'string')
+    .map(field => `${prefix}.${field} が文字列ではありません`);
+  (['gid', 'sheetName'] as const).forEach(field => {
+    if (!fields.includes(field) && value[field] !== undefined && typeof value[field] !== 'string') {
+      errors.push(`${prefix}.${field} が文字列ではありません`);
+    }
+  });
+  return errors;
+};
+
+export const validateShoppingItem = (value: unknown): string[] => {
+  if (!isPlainObject(value)) return ['アイテムの形式が不正です'];
+  const errors = validateSheetItemValues(value);
+  if (typeof value.id !== 'string') {
+    errors.unshift('id が文字列ではありません');
+  }
+  if (!PurchaseStatuses.some(status => status === value.purchaseStatus)) {
+    errors.push(`purchaseStatus「${String(value.purchaseStatus)}」は不明な購入状態です`);
+  }
+  if (value.sheetBase !== undefined) {
+    if (isPlainObject(value.sheetBase)) {
+      errors.push(...validateSheetItemValues(value.sheetBase, 'sheetBase.'));
+    } else {
+      errors.push('sheetBase の形式が不正です');
+    }
+  }
+  if (value.removedFromSheet !== undefined && typeof value.removedFromSheet !== 'boolean') {
+    errors.push('removedFromSheet が真偽値ではありません');
+  }
+  const { sourceText } = value;
+  if (sourceText !== undefined) {
+    if (!isPlainObject(sourceText)) {
+      errors.push('sourceText の形式が不正です');
+    } else {
+      (['block', 'number', 'price'] as const).forEach(field => {
+        if (sourceText[field] !== undefined && typeof sourceText[field] !== 'string') {
+          errors.push(`sourceText.${field} が文字列ではありません`);
+        }
+      });
+    }
+  }
+  if (value.queueMinutes !== undefined && (typeof value.queueMinutes !== 'number' || !Number.isFinite(value.queueMinutes) || value.queueMinutes < 0)) {
+    errors.push('queueMinutes が0以上の数値ではありません');
+  }
+  if (value.sellOutRisk !== undefined && !SellOutRisks.some(risk => risk === value.sellOutRisk)) {
+    errors.push(`sellOutRisk「${String(value.sellOutRisk)}」は不明な売り切れの恐れです`);
+  }
+  return errors;
+};
+
+export const validateEventRecord = (value: unknown): string[] => {
+  if (!isPlainObject(value)) return ['イベントの形式が不正です'];
+  const errors: string[] = [];
+  if (typeof value.name !== 'string' || !value.name) {
+    errors.push('name がありません');
+  }
+  if (!isStringArray(value.itemIds)) {
+    errors.push('itemIds が文字列の配列ではありません');
+  }
+  if (value.metadata !== undefined) {
+    if (!isPlainObject(value.metadata)) {
+      errors.push('metadata の形式が不正です');
+    } else {
+      if (value.metadata.lastImportDate !== undefined && typeof value.metadata.lastImportDate !== 'string') {
+        errors.push('metadata.lastImportDate が文字列ではありません');
+      }
+      if (value.metadata.source !== undefined) {
+        errors.push(...validateImportSource(value.metadata.source, 'metadata.source'));
+      }
+      if (value.metadata.columnMapping !== undefined) {
+        errors.push(...validateColumnMappingProfile(value.metadata.columnMapping, 'metadata.columnMapping'));
+      }
+      const { catalogImport } = value.metadata;
+      if (catalogImport !== undefined) {
+        if (!isPlainObject(catalogImport)) {
+          errors.push('metadata.catalogImport の形式が不正です');
+        } else {
+          if (!isPlainObject(catalogImport.dayLabels) || !Object.values(catalogImport.dayLabels).every(label => typeof label === 'string')) {
+            errors.push('metadata.catalogImport.dayLabels の形式が不正です');
+          }
+          if (!Array.isArray(catalogImport.priorityColors) || !catalogImport.priorityColors.every((color: unknown) => typeof color === 'number')) {
+            errors.push('metadata.catalogImport.priorityColors が数値の配列ではありません');
+          }
+        }
+      }
+      const { startTimes } = value.metadata;
+      if (startTimes !== undefined && (!isPlainObject(startTimes) || !Object.values(startTimes).every(time => typeof time === 'string' && /^\d{2}:\d{2}$/.test(time)))) {
+        errors.push('metadata.startTimes の形式が不正です');
+      }
+    }
+  }
+  if (!isPlainObject(value.executeModeItems) || !Object.values(value.executeModeItems).every(isStringArray)) {
+    errors.push('executeModeItems の形式が不正です');
+  }
+  if (!isPlainObject(value.dayModes) || !Object.values(value.dayModes).every(mode => mode === 'edit' || mode === 'execute')) {
+    errors.push('dayModes の形式が不正です');
+  }
+  if (value.venueLayout !== undefined) {
+    errors.push(...validateVenueLayout(value.venueLayout));
+  }
+  return errors;
+};
+
+export type UpgradeResult<T> =
+  | { ok: true; record: T; migrated: boolean }
+  | { ok: false; errors: string[] };
+
+// 旧バージョンのレコードを現在の形式に変換し、検証する
+const upgrade = <T>(
+  raw: unknown,
+  migrations: Record<number, Migration>,
+  validate: (value: unknown) => string[],
+  kind: string
+): UpgradeResult<T> => {
+  if (!isPlainObject(raw)) {
+    return { ok: false, errors: [`${kind}の形式が不正です`] };
+  }
+  let migrated: RawRecord;
+  try {
+    migrated = migrate(raw, migrations, kind);
+  } catch (error) {
+    return { ok: false, errors: [error instanceof Error ? error.message : String(error)] };
+  }
+  const errors = validate(migrated);
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return { ok: true, record: migrated as T, migrated: getRecordVersion(raw) !== CURRENT_SCHEMA_VERSION };
+};
+
+export const upgradeItemRecord = (raw: unknown): UpgradeResult<ItemRecord> =>
+  upgrade<ItemRecord>(raw, itemMigrations, (value) => {
+    const errors = validateShoppingItem(value);
+    if (isPlainObject(value) && typeof value.eventName !== 'string') {
+      errors.push('eventName がありません');
+    }
+    return errors;
+  }, 'アイテム');
+
+export const upgradeEventRecord = (raw: unknown): UpgradeResult<EventRecord> =>
+  upgrade<EventRecord>(raw, eventMigrations, validateEventRecord, 'イベント');
@@ -0,0 +1,286 @@
+import { ImportedItemValues, ShoppingItem, SheetItemValues } from '../types';
+import { getItemKey, getItemKeyWithoutTitle } from './itemComparison';
+import { similarity } from './fuzzyMatch';
+
+// スペースが移動したとみなすサークル名の類似度の下限と、タイトルを加味した総合点の下限
+const MOVED_CIRCLE_SIMILARITY = 0.7;
+const MOVED_SCORE_THRESHOLD = 0.75;
+
+export const MERGE_FIELDS = ['circle', 'eventDate', 'block', 'number', 'title', 'price', 'remarks'] as const;
+export type MergeField = typeof MERGE_FIELDS[number];
+
+export const mergeFieldLabels: Record<MergeField, string> = {
+  circle: 'サークル名',
+  eventDate: '参加日',
+  block: 'ブロック',
+  number: 'ナンバー',
+  title: 'タイトル',
+  price: '頒布価格',
+  remarks: '備考',
+};
+
+// シートとローカルの両方で、基準から異なる値に変更された項目
+export interface FieldConflict {
+  field: MergeField;
+  base: string | number;
+  local: string | number;
+  sheet: string | number;
+}
+
+export type MergeConflict =
+  | { type: 'fields'; item: ShoppingItem; merged: ShoppingItem; conflicts: FieldConflict[] }
+  // シートから削除されたが、ローカルで編集されているアイテム
+  | { type: 'deleted'; item: ShoppingItem };
+
+export interface ItemUpdate {
+  before: ShoppingItem;
+  after: ShoppingItem;
+  changedFields: MergeField[]; // 空の場合は基準（sheetBase）のみの更新
+  moved?: boolean; // サークル名の類似度で照合した（スペースが移動した）アイテム
+}
+
+export interface SheetMergeResult {
+  itemsToDelete: ShoppingItem[];
+  itemsToUpdate: ItemUpdate[];
+  itemsToAdd: ImportedItemValues[];
+  keptLocalEdits: number; // ローカルの変更を保持したアイテム数
+  conflicts: MergeConflict[];
+}
+
+// 競合ごとの選択（'local': ローカルを残す / 'sheet': シートを採用）
+export type ConflictChoices = Record<string, 'local' | 'sheet'>;
+
+export const conflictChoiceKey = (itemId: string, field?: MergeField) => (field ? `${itemId}:${field}` : itemId);
+
+export const toSheetValues = (item: SheetItemValues): SheetItemValues => ({
+  circle: item.circle,
+  eventDate: item.eventDate,
+  block: item.block,
+  number: item.number,
+  title: item.title,
+  price: item.price,
+  remarks: item.remarks,
+});
+
+const isSameValues = (a: SheetItemValues, b: SheetItemValues) => MERGE_FIELDS.every(field => a[field] === b[field]);
+
+/**
+ * 最後に取り込んだシートの値（sheetBase）を基準に、ローカルのリストと最新のシートを3方向マージする。
+ *   - シートだけが変更した項目は自動で反映
+ *   - ローカルだけが変更した項目は保持
+ *   - 両方が異なる値に変更した項目は競合として返す
+ * sheetBase を持つアイテムが1件もないリスト（以前のバージョンで取り込んだもの）は、
+ * ローカルの値を基準とみなす（従来どおりシートの内容で更新される）。
+ */
+export const mergeSheetItems = (currentItems: ShoppingItem[], sheetItems: ImportedItemValues[]): SheetMergeResult => {
+  const hasBase = currentItems.some(item => item.sheetBase);
+  // null の場合はローカルで追加したアイテム（シートとの対応なし）
+  const baseOf = (item: ShoppingItem): SheetItemValues | null =>
+    item.sheetBase || (hasBase ? null : toSheetValues(item));
+
+  // 同じキーの行が複数ある場合に備え、未使用の行を先頭から割り当てる
+  const usedRows = new Set<number>();
+  const buildIndex = (keyOf: (item: SheetItemValues) => string) => {
+    const index = new Map<string, number[]>();
+    sheetItems.forEach((item, row) => {
+      const key = keyOf(item);
+      if (!index.has(key)) index.set(key, []);
+      index.get(key)!.push(row);
+    });
+    return index;
+  };
+  const takeRow = (index: Map<string, number[]>, key: string): number | null => {
+    const row = index.get(key)?.find(r => !usedRows.has(r));
+    if (row === undefined) return null;
+    usedRows.add(row);
+    return row;
+  };
+  const indexWithAll = buildIndex(getItemKey);
+  const indexWithoutTitle = buildIndex(getItemKeyWithoutTitle);
+
+  const matches = new Map<string, { base: SheetItemValues; row: number; moved?: boolean }>();
+  // 1. 基準の値が完全一致する行 2. タイトル以外が一致する行（タイトル変更）
+  [indexWithAll, indexWithoutTitle].forEach((index, pass) => {
+    currentItems.forEach(item => {
+      const base = baseOf(item);
+      if (!base || matches.has(item.id)) return;
+      const row = takeRow(index, pass === 0 ? getItemKey(base) : getItemKeyWithoutTitle(base));
+      if (row !== null) matches.set(item.id, { base, row });
+    });
+  });
+  // 3. ローカルで追加したアイテムがシートにも追加されていれば、以降はシートと対応づける
+  currentItems.forEach(item => {
+    if (baseOf(item) || matches.has(item.id)) return;
+    const row = takeRow(indexWithoutTitle, getItemKeyWithoutTitle(item));
+    if (row !== null) matches.set(item.id, { base: toSheetValues(item), row });
+  });
+  // 4. 残ったアイテムと行を、サークル名の類似度とタイトルで組み合わせる（ブロック・ナンバーの修正など）
+  const candidates: { itemId: string; base: SheetItemValues; row: number; score: number }[] = [];
+  currentItems.forEach(item => {
+    const base = baseOf(item);
+    if (!base || matches.has(item.id)) return;
+    sheetItems.forEach((sheet, row) => {
+      if (usedRows.has(row)) return;
+      const circleScore = similarity(base.circle, sheet.circle);
+      if (circleScore < MOVED_CIRCLE_SIMILARITY) return;
+      const titleScore = base.title || sheet.title ? similarity(base.title, sheet.title) : 1;
+      // 参加日が変わる移動は稀なため、同じ参加日を優先する
+      const score = circleScore * 0.7 + titleScore * 0.3 - (base.eventDate === sheet.eventDate ? 0 : 0.1);
+      if (score >= MOVED_SCORE_THRESHOLD) {
+        candidates.push({ itemId: item.id, base, row, score });
+      }
+    });
+  });
+  candidates
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ itemId, base, row }) => {
+      if (matches.has(itemId) || usedRows.has(row)) return;
+      usedRows.add(row);
+      matches.set(itemId, { base, row, moved: true });
+    });
+
+  const result: SheetMergeResult = {
+    itemsToDelete: [],
+    itemsToUpdate: [],
+    itemsToAdd: sheetItems.filter((_, row) => !usedRows.has(row)),
+    keptLocalEdits: 0,
+    conflicts: [],
+  };
+
+  currentItems.forEach(item => {
+    const match = matches.get(item.id);
+    if (!match) {
+      const base = baseOf(item);
+      if (!base) return; // ローカルで追加したアイテムは残す
+      if (isSameValues(base, toSheetValues(item))) {
+        result.itemsToDelete.push(item);
+      } else {
+        result.conflicts.push({ type: 'deleted', item });
+      }
+      return;
+    }
+
+    const { base } = match;
+    const sheet = sheetItems[match.row];
+    // シートに行が戻った場合は「シートから削除済み」の印を外す
+    const { removedFromSheet, ...rest } = item;
+    let merged: ShoppingItem = {
+      ...rest,
+      sheetBase: toSheetValues(sheet),
+      ...(sheet.sourceText ? { sourceText: { ...rest.sourceText, ...sheet.sourceText } } : {}),
+    };
+    const changed: MergeField[] = [];
+    const conflicts: FieldConflict[] = [];
+    let keptLocal = false;
+
+    MERGE_FIELDS.forEach(field => {
+      if (sheet[field] === base[field]) {
+        if (item[field] !== base[field]) keptLocal = true;
+      } else if (item[field] === base[field]) {
+        merged = { ...merged, [field]: sheet[field] };
+        changed.push(field);
+      } else if (item[field] !== sheet[field]) {
+        conflicts.push({ field, base: base[field], local: item[field], sheet: sheet[field] });
+      }
+    });
+
+    if (keptLocal) result.keptLocalEdits++;
+    if (conflicts.length > 0) {
+      result.conflicts.push({ type: 'fields', item, merged, conflicts });
+      return;
+    }
+    if (changed.length > 0 || removedFromSheet || !item.sheetBase || !isSameValues(item.sheetBase, sheet)) {
+      result.itemsToUpdate.push({ before: item, after: merged, changedFields: changed, ...(match.moved ? { moved: true } : {}) });
+    }
+  });
+
+  return result;
+};
+
+// 競合の選択結果から、更新・削除するアイテムを求める。選択がない項目はローカルを残す
+const resolveConflicts = (
+  conflicts: MergeConflict[],
+  choices: ConflictChoices
+): { itemsToUpdate: ShoppingItem[]; itemsToDelete: ShoppingItem[] } => {
+  const itemsToUpdate: ShoppingItem[] = [];
+  const itemsToDelete: ShoppingItem[] = [];
+
+  conflicts.forEach(conflict => {
+    if (conflict.type === 'deleted') {
+      if (choices[conflictChoiceKey(conflict.item.id)] === 'sheet') {
+        itemsToDelete.push(conflict.item);
+      } else {
+        // 残す場合はシートとの対応を外し、ローカルで追加したアイテムとして扱う
+        const { sheetBase: _sheetBase, ...item } = conflict.item;
+        itemsToUpdate.push(item);
+      }
+      return;
+    }
+
+    let resolved: ShoppingItem = conflict.merged;
+    conflict.conflicts.forEach(({ field, sheet }) => {
+      if (choices[conflictChoiceKey(conflict.item.id, field)] === 'sheet') {
+        resolved = { ...resolved, [field]: sheet };
+      }
+    });
+    itemsToUpdate.push(resolved);
+  });
+
+  return { itemsToUpdate, itemsToDelete };
+};
+
+// 追加するアイテムの配置先（実行列の場合は参加日ごとの挿入位置）
+export type AddPosition =
+  | { column: 'candidate' }
+  | { column: 'execute'; indexes: Record<string, number> };
+
+// 確認画面での選択内容
+export interface UpdateSelection {
+  choices: ConflictChoices;
+  rejectedIds: string[]; // 反映しない更新・削除（アイテムID）
+  keepRemovedIds: string[]; // 削除せず「シートから削除済み」として残すアイテムID
+  rejectedAddIndexes: number[]; // 追加しない行（itemsToAdd の添字）
+  addPosition: AddPosition;
+}
+
+/**
+ * 確認画面での選択を反映し、実際に削除・更新・追加するアイテムを求める。
+ */
+export const applyUpdateSelection = (
+  result: SheetMergeResult,
+  selection: UpdateSelection
+): { itemsToDelete: ShoppingItem[]; itemsToUpdate: ShoppingItem[]; itemsToAdd: ImportedItemValues[] } => {
+  const rejected = new Set(selection.rejectedIds);
+  const keepRemoved = new Set(selection.keepRemovedIds);
+  const rejectedAdds = new Set(selection.rejectedAddIndexes);
+  const resolved = resolveConflicts(result.conflicts, selection.choices);
+
+  const itemsToDelete: ShoppingItem[] = [...resolved.itemsToDelete];
+  const itemsToUpdate: ShoppingItem[] = [...resolved.itemsToUpdate];
+
+  result.itemsToDelete.forEach(item => {
+    if (rejected.has(item.id)) return;
+    if (keepRemoved.has(item.id)) {
+      // シートとの対応を外し、次回以降の更新で削除候補に挙がらないようにする
+      const { sheetBase: _sheetBase, ...rest } = item;
+      itemsToUpdate.push({ ...rest, removedFromSheet: true });
+    } else {
+      itemsToDelete.push(item);
+    }
+  });
+
+  const itemsToAdd = result.itemsToAdd.filter((_, index) => !rejectedAdds.has(index));
+
+  // 反映しない更新は、削除・追加と同じく基準（sheetBase）を進めず、次回の更新で再び確認する
+  result.itemsToUpdate.forEach(({ before, after, moved }) => {
+    if (!rejected.has(before.id)) {
+      itemsToUpdate.push(after);
+    } else if (moved) {
+      // 別のサークルとして扱う場合は、従来どおり削除と追加にする
+      itemsToDelete.push(before);
+      itemsToAdd.push({ ...toSheetValues(after.sheetBase!), ...(after.sourceText ? { sourceText: after.sourceText } : {}) });
+    }
+  });
+
+  return { itemsToDelete, itemsToUpdate, itemsToAdd };
+};
@@ -0,0 +1,854 @@
+import { AppData, ShoppingItem, EventMetadata, ExecuteModeItems, DayModeState, QuarantinedRecord, EventSnapshot, SnapshotReason, ChangeLogEntry, ColumnMappingProfile, AppSettings } from '../types';
+import { isChangeLogEntry } from './changeLog';
+import { EventHistory, isEventHistory } from './history';
+import { CURRENT_SCHEMA_VERSION, EventRecord, ItemRecord, upgradeEventRecord, upgradeItemRecord, validateColumnMappingProfile, validateShoppingItem } from './schema';
+
+const DB_NAME = 'junkai';
+const DB_VERSION = 7;
+
+const EVENTS_STORE = 'events';
+const ITEMS_STORE = 'items';
+const QUARANTINE_STORE = 'quarantine';
+const HISTORY_STORE = 'history';
+const SNAPSHOTS_STORE = 'snapshots';
+const CHANGE_LOG_STORE = 'changeLog';
+const MAPPING_PROFILES_STORE = 'mappingProfiles';
+const SETTINGS_STORE = 'settings';
+
+// settings ストアでアプリ全体の設定を保存するキー
+const APP_SETTINGS_KEY = 'app';
+
+// 1イベントあたりに保持するスナップショットの上限
+export const MAX_SNAPSHOTS_PER_EVENT = 20;
+// 1イベントあたりに保持する変更履歴の上限
+export const MAX_CHANGE_LOG_PER_EVENT = 200;
+
+// 旧バージョンでlocalStorageに保存していたキー
+const LEGACY_KEYS = {
+  eventLists: 'eventShoppingLists',
+  eventMetadata: 'eventMetadata',
+  executeModeItems: 'executeModeItems',
+  dayModes: 'dayModes',
+} as const;
+
+export class StorageError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+export const DEFAULT_APP_SETTINGS: AppSettings = {
+  autoReplanRoute: false,
+};
+
+export const createEmptyAppData = (): AppData => ({
+  eventLists: {},
+  eventMetadata: {},
+  executeModeItems: {},
+  dayModes: {},
+  venueLayouts: {},
+});
+
+// IDBRequest を Promise に変換
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// トランザクションの完了を待つ
+const waitForTransaction = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// データベースの更新を待っているか（別のタブが古いバージョンで開いたまま）を知らせる
+let blockedHandler: ((blocked: boolean) => void) | null = null;
+
+export const setDatabaseBlockedHandler = (handler: ((blocked: boolean) => void) | null) => {
+  blockedHandler = handler;
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new StorageError('このブラウザはIndexedDBに対応していません。'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const oldVersion = event.oldVersion;
+
+      if (oldVersion < 1) {
+        db.createObjectStore(EVENTS_STORE, { keyPath: 'name' });
+        const itemsStore = db.createObjectStore(ITEMS_STORE, { keyPath: ['eventName', 'id'] });
+        itemsStore.createIndex('eventName', 'eventName', { unique: false });
+      }
+      if (oldVersion < 2) {
+        db.createObjectStore(QUARANTINE_STORE, { keyPath: 'id', autoIncrement: true });
+      }
+      if (oldVersion < 3) {
+        db.createObjectStore(HISTORY_STORE, { keyPath: 'eventName' });
+      }
+      if (oldVersion < 4) {
+        const snapshotsStore = db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id', autoIncrement: true });
+        snapshotsStore.createIndex('eventName', 'eventName', { unique: false });
+      }
+      if (oldVersion < 5) {
+        const changeLogStore = db.createObjectStore(CHANGE_LOG_STORE, { keyPath: 'id', autoIncrement: true });
+        changeLogStore.createIndex('eventName', 'eventName', { unique: false });
+      }
+      if (oldVersion < 6) {
+        db.createObjectStore(MAPPING_PROFILES_STORE, { keyPath: 'name' });
+      }
+      if (oldVersion < 7) {
+        db.createObjectStore(SETTINGS_STORE);
+      }
+    };
+
+    request.onsuccess = () => {
+      blockedHandler?.(false);
+      resolve(request.result);
+    };
+    request.onerror = () => {
+      blockedHandler?.(false);
+      reject(new StorageError('データベースを開けませんでした。', request.error));
+    };
+    // 別のタブが閉じられると更新が進んで onsuccess が呼ばれるため、失敗にはせずに待つ
+    request.onblocked = () => blockedHandler?.(true);
+  });
+
+  // 失敗した場合は次回に再試行できるようにする
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+};
+
+export const toItemRecord = (eventName: string, item: ShoppingItem): ItemRecord => ({
+  ...item,
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  eventName,
+});
+
+const fromItemRecord = (record: ItemRecord): ShoppingItem => {
+  const { eventName: _eventName, schemaVersion: _schemaVersion, ...item } = record;
+  return item;
+};
+
+export const toEventRecord = (name: string, data: AppData): EventRecord => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  name,
+  itemIds: (data.eventLists[name] || []).map(item => item.id),
+  metadata: data.eventMetadata[name],
+  executeModeItems: data.executeModeItems[name] || {},
+  dayModes: data.dayModes[name] || {},
+  venueLayout: data.venueLayouts[name],
+});
+
+const shallowEqualArray = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((value, index) => value === b[index]);
+
+// イベントに含まれるアイテム以外のデータが変わったか（並び順を含む）
+const isEventRecordChanged = (name: string, prev: AppData, next: AppData): boolean => {
+  if (prev.eventMetadata[name] !== next.eventMetadata[name]) return true;
+  if (prev.executeModeItems[name] !== next.executeModeItems[name]) return true;
+  if (prev.dayModes[name] !== next.dayModes[name]) return true;
+  if (prev.venueLayouts[name] !== next.venueLayouts[name]) return true;
+  const prevIds = (prev.eventLists[name] || []).map(item => item.id);
+  const nextIds = (next.eventLists[name] || []).map(item => item.id);
+  return !shallowEqualArray(prevIds, nextIds);
+};
+
+export const collectEventNames = (data: AppData): Set<string> =>
+  new Set([
+    ...Object.keys(data.eventLists),
+    ...Object.keys(data.eventMetadata),
+    ...Object.keys(data.executeModeItems),
+    ...Object.keys(data.dayModes),
+    ...Object.keys(data.venueLayouts),
+  ]);
+
+export const getStorageErrorMessage = (error: unknown): string => {
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    return '端末の保存容量が不足しているため、データを保存できませんでした。不要なリストを削除してください。';
+  }
+  if (error instanceof StorageError) {
+    return error.message;
+  }
+  return 'データの保存に失敗しました。';
+};
+
+// localStorage に残っている旧形式のデータを読み込む
+const readLegacyData = (): AppData | null => {
+  const storedLists = localStorage.getItem(LEGACY_KEYS.eventLists);
+  if (!storedLists) return null;
+
+  const parse = <T>(key: string): T | undefined => {
+    const value = localStorage.getItem(key);
+    return value ? JSON.parse(value) : undefined;
+  };
+
+  return {
+    eventLists: JSON.parse(storedLists),
+    eventMetadata: parse<Record<string, EventMetadata>>(LEGACY_KEYS.eventMetadata) || {},
+    executeModeItems: parse<Record<string, ExecuteModeItems>>(LEGACY_KEYS.executeModeItems) || {},
+    dayModes: parse<Record<string, DayModeState>>(LEGACY_KEYS.dayModes) || {},
+    venueLayouts: {},
+  };
+};
+
+const removeLegacyData = () => {
+  Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+};
+
+// 全データを書き込む（既存のレコードは全て置き換える）
+const writeAllData = async (db: IDBDatabase, data: AppData): Promise<void> => {
+  const tx = db.transaction([EVENTS_STORE, ITEMS_STORE], 'readwrite');
+  const eventsStore = tx.objectStore(EVENTS_STORE);
+  const itemsStore = tx.objectStore(ITEMS_STORE);
+
+  eventsStore.clear();
+  itemsStore.clear();
+
+  collectEventNames(data).forEach(name => {
+    eventsStore.put(toEventRecord(name, data));
+    (data.eventLists[name] || []).forEach(item => itemsStore.put(toItemRecord(name, item)));
+  });
+
+  await waitForTransaction(tx);
+};
+
+// 検証済みのレコードからアプリの状態を組み立てる
+export const buildAppData = (eventRecords: EventRecord[], itemRecords: ItemRecord[]): AppData => {
+  const itemsByEvent = new Map<string, Map<string, ShoppingItem>>();
+  itemRecords.forEach(record => {
+    if (!itemsByEvent.has(record.eventName)) {
+      itemsByEvent.set(record.eventName, new Map());
+    }
+    itemsByEvent.get(record.eventName)!.set(record.id, fromItemRecord(record));
+  });
+
+  const data = createEmptyAppData();
+  eventRecords.forEach(record => {
+    const eventItems = itemsByEvent.get(record.name) || new Map<string, ShoppingItem>();
+    itemsByEvent.delete(record.name);
+    // 並び順に従って復元し、順序情報から漏れたアイテムは末尾に追加
+    const ordered = record.itemIds.map(id => eventItems.get(id)).filter(Boolean) as ShoppingItem[];
+    const orderedIds = new Set(record.itemIds);
+    eventItems.forEach((item, id) => {
+      if (!orderedIds.has(id)) ordered.push(item);
+    });
+
+    data.eventLists[record.name] = ordered;
+    if (record.metadata) {
+      data.eventMetadata[record.name] = record.metadata;
+    }
+    data.executeModeItems[record.name] = record.executeModeItems;
+    data.dayModes[record.name] = record.dayModes;
+    if (record.venueLayout) {
+      data.venueLayouts[record.name] = record.venueLayout;
+    }
+  });
+
+  // イベントのレコードが隔離された場合でも、アイテムはリストとして残す
+  itemsByEvent.forEach((eventItems, name) => {
+    data.eventLists[name] = Array.from(eventItems.values());
+    data.executeModeItems[name] = {};
+    data.dayModes[name] = {};
+  });
+
+  return data;
+};
+
+// 旧形式（localStorage）からの一回限りの移行
+// レコードはバージョン情報なしで書き込み、読み込み時に通常の変換・検証を通す
+const migrateFromLocalStorage = async (db: IDBDatabase): Promise<void> => {
+  const countTx = db.transaction(EVENTS_STORE, 'readonly');
+  const eventCount = await promisifyRequest(countTx.objectStore(EVENTS_STORE).count());
+  if (eventCount > 0) return;
+
+  let legacyData: AppData | null;
+  try {
+    legacyData = readLegacyData();
+  } catch (error) {
+    // 読み込めないデータは削除せずに残しておく
+    throw new StorageError('以前のバージョンのデータを読み込めませんでした。', error);
+  }
+  if (!legacyData) return;
+
+  const tx = db.transaction([EVENTS_STORE, ITEMS_STORE, QUARANTINE_STORE], 'readwrite');
+  const eventsStore = tx.objectStore(EVENTS_STORE);
+  const itemsStore = tx.objectStore(ITEMS_STORE);
+  const quarantineStore = tx.objectStore(QUARANTINE_STORE);
+  const now = new Date().toISOString();
+
+  collectEventNames(legacyData).forEach(name => {
+    const legacyItems: unknown[] = Array.isArray(legacyData!.eventLists[name]) ? legacyData!.eventLists[name] : [];
+    eventsStore.put({
+      name,
+      itemIds: legacyItems.map(item => (item as ShoppingItem)?.id).filter(id => typeof id === 'string'),
+      metadata: legacyData!.eventMetadata[name],
+      executeModeItems: legacyData!.executeModeItems[name],
+      dayModes: legacyData!.dayModes[name],
+    });
+    legacyItems.forEach(item => {
+      if (typeof item === 'object' && item !== null && typeof (item as ShoppingItem).id === 'string') {
+        itemsStore.put({ ...item, eventName: name });
+      } else {
+        // IDがないとレコードのキーが作れないため、そのまま隔離する
+        quarantineStore.add({ kind: 'item', eventName: name, record: item, errors: ['id がありません'], quarantinedAt: now });
+      }
+    });
+  });
+
+  await waitForTransaction(tx);
+  removeLegacyData();
+};
+
+const readAppData = async (): Promise<LoadResult> => {
+  const db = await openDatabase();
+
+  await migrateFromLocalStorage(db);
+
+  const readTx = db.transaction([EVENTS_STORE, ITEMS_STORE, QUARANTINE_STORE], 'readonly');
+  const [rawEventRecords, rawItemRecords, existingQuarantine] = await Promise.all([
+    promisifyRequest(readTx.objectStore(EVENTS_STORE).getAll()),
+    promisifyRequest(readTx.objectStore(ITEMS_STORE).getAll()),
+    promisifyRequest(readTx.objectStore(QUARANTINE_STORE).getAll() as IDBRequest<QuarantinedRecord[]>),
+  ]);
+
+  // 現在の形式に変換し、検証に失敗したレコードは隔離する
+  const eventRecords: EventRecord[] = [];
+  const itemRecords: ItemRecord[] = [];
+  const upgradedEvents: EventRecord[] = [];
+  const upgradedItems: ItemRecord[] = [];
+  const newQuarantine: Omit<QuarantinedRecord, 'id'>[] = [];
+  const quarantinedEventNames: string[] = [];
+  const quarantinedItemKeys: IDBValidKey[] = [];
+  const now = new Date().toISOString();
+
+  rawEventRecords.forEach(raw => {
+    const result = upgradeEventRecord(raw);
+    if (result.ok) {
+      eventRecords.push(result.record);
+      if (result.migrated) upgradedEvents.push(result.record);
+    } else {
+      newQuarantine.push({ kind: 'event', eventName: String(raw?.name ?? ''), record: raw, errors: result.errors, quarantinedAt: now });
+      quarantinedEventNames.push(raw.name);
+    }
+  });
+
+  rawItemRecords.forEach(raw => {
+    const result = upgradeItemRecord(raw);
+    if (result.ok) {
+      itemRecords.push(result.record);
+      if (result.migrated) upgradedItems.push(result.record);
+    } else {
+      newQuarantine.push({ kind: 'item', eventName: String(raw?.eventName ?? ''), record: raw, errors: result.errors, quarantinedAt: now });
+      quarantinedItemKeys.push([raw.eventName, raw.id]);
+    }
+  });
+
+  let quarantined = existingQuarantine;
+  if (upgradedEvents.length > 0 || upgradedItems.length > 0 || newQuarantine.length > 0) {
+    const writeTx = db.transaction([EVENTS_STORE, ITEMS_STORE, QUARANTINE_STORE], 'readwrite');
+    const eventsStore = writeTx.objectStore(EVENTS_STORE);
+    const itemsStore = writeTx.objectStore(ITEMS_STORE);
+    const quarantineStore = writeTx.objectStore(QUARANTINE_STORE);
+
+    upgradedEvents.forEach(record => eventsStore.put(record));
+    upgradedItems.forEach(record => itemsStore.put(record));
+    quarantinedEventNames.forEach(name => eventsStore.delete(name));
+    quarantinedItemKeys.forEach(key => itemsStore.delete(key));
+    const addRequests = newQuarantine.map(record => promisifyRequest(quarantineStore.add(record)));
+
+    const [ids] = await Promise.all([Promise.all(addRequests), waitForTransaction(writeTx)]);
+    quarantined = [
+      ...existingQuarantine,
+      ...newQuarantine.map((record, index) => ({ ...record, id: ids[index] as number })),
+    ];
+  }
+
+  return { data: buildAppData(eventRecords, itemRecords), quarantined };
+};
+
+export interface LoadResult {
+  data: AppData;
+  quarantined: QuarantinedRecord[];
+}
+
+export const loadAppData = async (): Promise<LoadResult> => {
+  try {
+    return await readAppData();
+  } catch (error) {
+    if (error instanceof StorageError) throw error;
+    throw new StorageError('保存されたデータの読み込みに失敗しました。', error);
+  }
+};
+
+/**
+ * 前回保存した状態との差分のみを書き込む。
+ * prev が null の場合は全データを書き直す（前回の保存に失敗した場合など）。
+ */
+export const saveAppDataChanges = async (prev: AppData | null, next: AppData): Promise<void> => {
+  try {
+    const db = await openDatabase();
+
+    if (!prev) {
+      await writeAllData(db, next);
+      return;
+    }
+
+    const tx = db.transaction([EVENTS_STORE, ITEMS_STORE], 'readwrite');
+    const eventsStore = tx.objectStore(EVENTS_STORE);
+    const itemsStore = tx.objectStore(ITEMS_STORE);
+
+    const prevNames = collectEventNames(prev);
+    const nextNames = collectEventNames(next);
+
+    // 削除されたイベント
+    prevNames.forEach(name => {
+      if (nextNames.has(name)) return;
+      eventsStore.delete(name);
+      (prev.eventLists[name] || []).forEach(item => itemsStore.delete([name, item.id]));
+    });
+
+    nextNames.forEach(name => {
+      const prevItems = prevNames.has(name) ? prev.eventLists[name] || [] : [];
+      const nextItems = next.eventLists[name] || [];
+
+      if (prevItems !== nextItems) {
+        // 参照が変わったアイテムのみ書き込む
+        const prevItemsMap = new Map(prevItems.map(item => [item.id, item]));
+        const nextIds = new Set<string>();
+        nextItems.forEach(item => {
+          nextIds.add(item.id);
+          if (prevItemsMap.get(item.id) !== item) {
+            itemsStore.put(toItemRecord(name, item));
+          }
+        });
+        prevItems.forEach(item => {
+          if (!nextIds.has(item.id)) {
+            itemsStore.delete([name, item.id]);
+          }
+        });
+      }
+
+      if (!prevNames.has(name) || isEventRecordChanged(name, prev, next)) {
+        eventsStore.put(toEventRecord(name, next));
+      }
+    });
+
+    await waitForTransaction(tx);
+  } catch (error) {
+    throw new StorageError(getStorageErrorMessage(error), error);
+  }
+};
+
+export const deleteQuarantinedRecord = async (id: number): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(QUARANTINE_STORE, 'readwrite');
+    tx.objectStore(QUARANTINE_STORE).delete(id);
+    await waitForTransaction(tx);
+  } catch (error) {
+    throw new StorageError(getStorageErrorMessage(error), error);
+  }
+};
+
+/**
+ * 隔離されていたレコード（修正済み）をアプリの状態に戻す。
+ * 検証に失敗した場合はエラー内容を返す。
+ */
+export const restoreQuarantinedRecord = (
+  data: AppData,
+  quarantined: QuarantinedRecord,
+  editedRecord: unknown
+): { ok: true; data: AppData } | { ok: false; errors: string[] } => {
+  if (quarantined.kind === 'item') {
+    const result = upgradeItemRecord(editedRecord);
+    if (!result.ok) return result;
+    const { eventName } = result.record;
+    const item = fromItemRecord(result.record);
+    const currentItems = data.eventLists[eventName] || [];
+    const exists = currentItems.some(existing => existing.id === item.id);
+    return {
+      ok: true,
+      data: {
+        ...data,
+        eventLists: {
+          ...data.eventLists,
+          [eventName]: exists
+            ? currentItems.map(existing => (existing.id === item.id ? item : existing))
+            : [...currentItems, item],
+        },
+        executeModeItems: { ...data.executeModeItems, [eventName]: data.executeModeItems[eventName] || {} },
+        dayModes: { ...data.dayModes, [eventName]: data.dayModes[eventName] || {} },
+      },
+    };
+  }
+
+  const result = upgradeEventRecord(editedRecord);
+  if (!result.ok) return result;
+  const record = result.record;
+  const currentItems = data.eventLists[record.name] || [];
+  const itemsMap = new Map(currentItems.map(item => [item.id, item]));
+  const ordered = record.itemIds.map(id => itemsMap.get(id)).filter(Boolean) as ShoppingItem[];
+  const orderedIds = new Set(record.itemIds);
+  const rest = currentItems.filter(item => !orderedIds.has(item.id));
+  const eventMetadata = { ...data.eventMetadata };
+  if (record.metadata) {
+    eventMetadata[record.name] = record.metadata;
+  }
+  const venueLayouts = { ...data.venueLayouts };
+  if (record.venueLayout) {
+    venueLayouts[record.name] = record.venueLayout;
+  }
+  return {
+    ok: true,
+    data: {
+      eventLists: { ...data.eventLists, [record.name]: [...ordered, ...rest] },
+      eventMetadata,
+      executeModeItems: { ...data.executeModeItems, [record.name]: record.executeModeItems },
+      dayModes: { ...data.dayModes, [record.name]: record.dayModes },
+      venueLayouts,
+    },
+  };
+};
+
+// 操作履歴（元に戻す・やり直し）の保存
+export const loadEventHistories = async (): Promise<Record<string, EventHistory>> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(HISTORY_STORE, 'readonly');
+    const records = await promisifyRequest(
+      tx.objectStore(HISTORY_STORE).getAll() as IDBRequest<Array<EventHistory & { eventName: string; schemaVersion?: number }>>
+    );
+    const histories: Record<string, EventHistory> = {};
+    records.forEach(({ eventName, schemaVersion, ...history }) => {
+      // 履歴は復元できなくても支障がないため、壊れたものや別のスキーマバージョンで保存したものは読み捨てる
+      // （元に戻したときに、移行・検証していないアイテムが状態に書き戻されないようにする）
+      if (schemaVersion !== CURRENT_SCHEMA_VERSION || !isEventHistory(history)) return;
+      const items = [...history.undo, ...history.redo].flatMap(entry =>
+        entry.itemChanges.flatMap(change => [change.before, change.after]).filter(item => item !== null)
+      );
+      if (items.every(item => validateShoppingItem(item).length === 0)) {
+        histories[eventName] = { undo: history.undo, redo: history.redo };
+      } else {
+        console.warn('Skipped unreadable history', eventName);
+      }
+    });
+    return histories;
+  } catch (error) {
+    throw new StorageError('操作履歴の読み込みに失敗しました。', error);
+  }
+};
+
+export const saveEventHistory = async (eventName: string, history: EventHistory | null): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(HISTORY_STORE, 'readwrite');
+    if (history) {
+      tx.objectStore(HISTORY_STORE).put({ eventName, schemaVersion: CURRENT_SCHEMA_VERSION, ...history });
+    } else {
+      tx.objectStore(HISTORY_STORE).delete(eventName);
+    }
+    await waitForTransaction(tx);
+  } catch (error) {
+    throw new StorageError(getStorageErrorMessage(error), error);
+  }
+};
+
+// スナップショットの保存形式（イベント・アイテムは通常の保存と同じレコード形式で持つ）
+interface SnapshotRecord {
+  id?: number;
+  eventName: string;
+  reason: SnapshotReason;
+  createdAt: string;
+  event: EventRecord;
+  items: ItemRecord[];
+}
+
+/**
+ * イベントの現在の状態をスナップショットとして保存する。
+ * 上限を超えた分は古いものから削除する。
+ */
+export const createEventSnapshot = async (data: AppData, eventName: string, reason: SnapshotReason): Promise<void> => {
+  const record: SnapshotRecord = {
+    eventName,
+    reason,
+    createdAt: new Date().toISOString(),
+    event: toEventRecord(eventName, data),
+    items: (data.eventLists[eventName] || []).map(item => toItemRecord(eventName, item)),
+  };
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+    const store = tx.objectStore(SNAPSHOTS_STORE);
+    store.add(record);
+    const keys = await promisifyRequest(store.index('eventName').getAllKeys(eventName));
+    // 自動採番のIDは作成順に増えるため、先頭ほど古い
+    keys.slice(0, Math.max(0, keys.length - MAX_SNAPSHOTS_PER_EVENT)).forEach(key => store.delete(key));
+    await waitForTransaction(tx);
+  } catch (error) {
+    throw new StorageError(getStorageErrorMessage(error), error);
+  }
+};
+
+// 保存形式から読み込み、現在のスキーマに変換する。変換できないものは null
+const fromSnapshotRecord = (record: SnapshotRecord & { id: number }): EventSnapshot | null => {
+  const eventResult = upgradeEventRecord(record.event);
+  if (!eventResult.ok) return null;
+  const items: ShoppingItem[] = [];
+  for (const raw of record.items || []) {
+    const itemResult = upgradeItemRecord(raw);
+    if (!itemResult.ok) return null;
+    items.push(fromItemRecord(itemResult.record));
+  }
+  return {
+    id: record.id,
+    eventName: record.eventName,
+    reason: record.reason,
+    createdAt: record.createdAt,
+    items,
+    metadata: eventResult.record.metadata,
+    executeModeItems: eventResult.record.executeModeItems,
+    dayModes: eventResult.record.dayModes,
+    venueLayout: eventResult.record.venueLayout,
+  };
+};
+
+// 指定したイベントのスナップショットを新しい順に読み込む
+export const loadEventSnapshots = async (eventName: string): Promise<EventSnapshot[]> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(SNAPSHOTS_STORE, 'readonly');
+    const records = await promisifyRequest(
+      tx.objectStore(SNAPSHOTS_STORE).index('eventName').getAll(eventName) as IDBRequest<Array<SnapshotRecord & { id: number }>>
+    );
+    const snapshots: EventSnapshot[] = [];
+    records.forEach(record => {
+      const snapshot = fromSnapshotRecord(record);
+      if (snapshot) {
+        snapshots.push(snapshot);
+      } else {
+        console.warn(`Skipped unreadable snapshot ${record.id} of ${eventName}`);
+      }
+    });
+    return snapshots.reverse();
+  } catch (error) {
+    throw new StorageError('スナップショットの読み込みに失敗しました。', error);
+  }
+};
+
+// スナップショットが保存されているイベント名の一覧（削除済みのイベントを含む）
+export const loadSnapshotEventNames = async (): Promise<string[]> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(SNAPSHOTS_STORE, 'readonly');
+    const request = tx.objectStore(SNAPSHOTS_STORE).index('eventName').openKeyCursor(null, 'nextunique');
+    const names: string[] = [];
+    await new Promise<void>((resolve, reject) => {
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+        names.push(cursor.key as string);
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+    return names;
+  } catch (error) {
+    throw new StorageError('スナップショットの読み込みに失敗しました。', error);
+  }
+};
+
+export const deleteEventSnapshot = async (id: number): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+    tx.objectStore(SNAPSHOTS_STORE).delete(id);
+    await waitForTransaction(tx);
+  } catch (error) {
+    throw new StorageError(getStorageErrorMessage(error), error);
+  }
+};
+
+// イベント名の変更に合わせて、スナップショットを新しい名前に付け替える
+export const renameEventSnapshots = async (oldName: string, newName: string): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+    const store = tx.objectStore(SNAPSHOTS_STORE);
+    const records = await promisifyRequest(store.index('eventName').getAll(oldName) as IDBRequest<SnapshotRecord[]>);
+    records.forEach(record => store.put({ ...record, eventName: newName }));
+    await waitForTransaction(tx);
+  } catch (error) {
+    throw new StorageError(getStorageErrorMessage(error), error);
+  }
+};
+
+// スナップショットの内容でイベントを置き換える（削除済みのイベントは作り直す）
+export const applyEventSnapshot = (data: AppData, snapshot: EventSnapshot): AppData => {
+  const { eventName } = snapshot;
+  const eventMetadata = { ...data.eventMetadata };
+  if (snapshot.metadata) {
+    eventMetadata[eventName] = snapshot.metadata;
+  } else {
+    delete eventMetadata[eventName];
+  }
+  const venueLayouts = { ...data.venueLayouts };
+  if (snapshot.venueLayout) {
+    venueLayouts[eventName] = snapshot.venueLayout;
+  } else {
+    delete venueLayouts[eventName];
+  }
+  return {
+    eventLists: { ...data.eventLists, [eventName]: snapshot.items },
+    eventMetadata,
+    executeModeItems: { ...data.executeModeItems, [eventName]: snapshot.executeModeItems },
+    dayModes: { ...data.dayModes, [eventName]: snapshot.dayModes },
+    venueLayouts,
+  };
+};
+
+// 変更履歴の保存。上限を超えた分は古いものから削除する
+// 追加した変更履歴のIDを返す
+export const addChangeLogEntry = async (entry: Omit<ChangeLogEntry, 'id'>): Promise<number> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(CHANGE_LOG_STORE, 'readwrite');
+    const store = tx.objectStore(CHANGE_LOG_STORE);
+    const id = await promisifyRequest(store.add(entry));
+    const keys = await promisifyRequest(store.index('eventName').getAllKeys(entry.eventName));
+    keys.slice(0, Math.max(0, keys.length - MAX_CHANGE_LOG_PER_EVENT)).forEach(key => store.delete(key));
+    await waitForTransaction(tx);
+    return id as number;
+  } catch (error) {
+    throw new StorageError(getStorageErrorMessage(error), error);
+  }
+};
+
+// 連続した編集をまとめるため、記録済みの変更履歴を書き換える（entry が null の場合は削除）
+export const replaceChangeLogEntry = async (id: number, entry: Omit<ChangeLogEntry, 'id'> | null): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(CHANGE_LOG_STORE, 'readwrite');
+    const store = tx.objectStore(CHANGE_LOG_STORE);
+    if (entry) {
+      store.put({ ...entry, id });
+    } else {
+      store.delete(id);
+    }
+    await waitForTransaction(tx);
+  } catch (error) {
+    throw new StorageError(getStorageErrorMessage(error), error);
+  }
+};
+
+// 指定したイベントの変更履歴を新しい順に読み込む
+export const loadChangeLog = async (eventName: string): Promise<ChangeLogEntry[]> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(CHANGE_LOG_STORE, 'readonly');
+    const records = await promisifyRequest(
+      tx.objectStore(CHANGE_LOG_STORE).index('eventName').getAll(eventName) as IDBRequest<unknown[]>
+    );
+    // 変更履歴は参照用のため、壊れたものは読み捨てる
+    return records.filter(isChangeLogEntry).reverse();
+  } catch (error) {
+    throw new StorageError('変更履歴の読み込みに失敗しました。', error);
+  }
+};
+
+// イベント名の変更に合わせて、変更履歴を新しい名前に付け替える
+export const renameChangeLog = async (oldName: string, newName: string): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(CHANGE_LOG_STORE, 'readwrite');
+    const store = tx.objectStore(CHANGE_LOG_STORE);
+    const records = await promisifyRequest(store.index('eventName').getAll(oldName) as IDBRequest<ChangeLogEntry[]>);
+    records.forEach(record => store.put({ ...record, eventName: newName }));
+    await waitForTransaction(tx);
+  } catch (error) {
+    throw new StorageError(getStorageErrorMessage(error), error);
+  }
+};
+
+// 名前を付けて保存した列の割り当て
+export const loadMappingProfiles = async (): Promise<ColumnMappingProfile[]> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(MAPPING_PROFILES_STORE, 'readonly');
+    const records = await promisifyRequest(tx.objectStore(MAPPING_PROFILES_STORE).getAll() as IDBRequest<unknown[]>);
+    return records.filter((record): record is ColumnMappingProfile => {
+      const errors = validateColumnMappingProfile(record, 'profile');
+      if (errors.length > 0) console.warn('Skipped unreadable mapping profile', errors);
+      return errors.length === 0;
+    });
+  } catch (error) {
+    throw new StorageError('列の割り当ての読み込みに失敗しました。', error);
+  }
+};
+
+export const saveMappingProfile = async (profile: ColumnMappingProfile): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(MAPPING_PROFILES_STORE, 'readwrite');
+    tx.objectStore(MAPPING_PROFILES_STORE).put(profile);
+    await waitForTransaction(tx);
+  } catch (error) {
+    throw new StorageError(getStorageErrorMessage(error), error);
+  }
+};
+
+export const deleteMappingProfile = async (name: string): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(MAPPING_PROFILES_STORE, 'readwrite');
+    tx.objectStore(MAPPING_PROFILES_STORE).delete(name);
+    await waitForTransaction(tx);
+  } catch (error) {
+    throw new StorageError(getStorageErrorMessage(error), error);
+  }
+};
+
+// 保存されていない設定や読み取れない値は既定値にする
+export const loadAppSettings = async (): Promise<AppSettings> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(SETTINGS_STORE, 'readonly');
+    const record = await promisifyRequest(tx.objectStore(SETTINGS_STORE).get(APP_SETTINGS_KEY) as IDBRequest<Partial<AppSettings> | undefined>);
+    return {
+      autoReplanRoute: typeof record?.autoReplanRoute === 'boolean' ? record.autoReplanRoute : DEFAULT_APP_SETTINGS.autoReplanRoute,
+    };
+  } catch (error) {
+    throw new StorageError('設定の読み込みに失敗しました。', error);
+  }
+};
+
+export const saveAppSettings = async (settings: AppSettings): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(SETTINGS_STORE, 'readwrite');
+    tx.objectStore(SETTINGS_STORE).put(settings, APP_SETTINGS_KEY);
+    await waitForTransaction(tx);
+  } catch (error) {
+    throw new StorageError(getStorageErrorMessage(error), error);
+  }
+};
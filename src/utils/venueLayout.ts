@@ -0,0 +1,265 @@
+import { ShoppingItem, VenueBlock, VenueHall, VenueLayout, VenueNumberRange } from '../types';
+
+// 会場図（ホール・ブロックの配置）の読み書きと、スペースの位置の計算
+
+const VENUE_LAYOUT_FORMAT = 'junkai-venue-layout';
+
+// 会場図ファイルの形式バージョン
+export const VENUE_LAYOUT_FORMAT_VERSION = 1;
+
+export interface VenueLayoutFile {
+  format: typeof VENUE_LAYOUT_FORMAT;
+  version: number;
+  layout: VenueLayout;
+}
+
+// スペースの会場内の位置
+export interface VenueLocation {
+  hall: VenueHall;
+  block: VenueBlock;
+  x: number;
+  y: number;
+  isShutter: boolean; // シャッター前のスペース
+  isApproximate: boolean; // 番号がブロックの範囲にないため、ブロックの中央を返した
+}
+
+type RawRecord = Record<string, unknown>;
+
+const isPlainObject = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// 位置と大きさ（x・y・width・height）の検証
+const validateRect = (value: RawRecord, prefix: string): string[] => {
+  const errors: string[] = [];
+  (['x', 'y'] as const).forEach(field => {
+    if (!isFiniteNumber(value[field])) errors.push(`${prefix}.${field} が数値ではありません`);
+  });
+  (['width', 'height'] as const).forEach(field => {
+    const size = value[field];
+    if (!isFiniteNumber(size) || size <= 0) errors.push(`${prefix}.${field} が正の数値ではありません`);
+  });
+  return errors;
+};
+
+const isNumberRange = (value: unknown): value is VenueNumberRange => {
+  if (!isPlainObject(value)) return false;
+  const { from, to } = value;
+  return typeof from === 'number' && typeof to === 'number' && Number.isInteger(from) && Number.isInteger(to) && from >= 1 && from <= to;
+};
+
+const validateNumberRange = (value: unknown, prefix: string): string[] => {
+  if (!isPlainObject(value)) return [`${prefix} の形式が不正です`];
+  return isNumberRange(value) ? [] : [`${prefix} は1以上の整数で from ≦ to にしてください`];
+};
+
+const validateVenueBlock = (value: unknown, prefix: string): string[] => {
+  if (!isPlainObject(value)) return [`${prefix} の形式が不正です`];
+  const errors: string[] = [];
+  if (typeof value.name !== 'string' || !value.name) {
+    errors.push(`${prefix}.name がありません`);
+  }
+  if (value.kind !== 'island' && value.kind !== 'wall') {
+    errors.push(`${prefix}.kind は island（島）か wall（壁）にしてください`);
+  }
+  if (value.axis !== 'horizontal' && value.axis !== 'vertical') {
+    errors.push(`${prefix}.axis は horizontal（横）か vertical（縦）にしてください`);
+  }
+  if (value.reversed !== undefined && typeof value.reversed !== 'boolean') {
+    errors.push(`${prefix}.reversed が真偽値ではありません`);
+  }
+  errors.push(...validateRect(value, prefix));
+  const { numbers } = value;
+  errors.push(...validateNumberRange(numbers, `${prefix}.numbers`));
+  if (value.shutters !== undefined) {
+    if (!Array.isArray(value.shutters)) {
+      errors.push(`${prefix}.shutters が配列ではありません`);
+    } else {
+      value.shutters.forEach((range: unknown, index: number) => {
+        errors.push(...validateNumberRange(range, `${prefix}.shutters[${index}]`));
+        if (isNumberRange(range) && isNumberRange(numbers) && (range.from < numbers.from || range.to > numbers.to)) {
+          errors.push(`${prefix}.shutters[${index}] がブロックの番号の範囲外です`);
+        }
+      });
+    }
+  }
+  return errors;
+};
+
+/**
+ * 会場図を検証する（保存データ・読み込んだファイルで共通）。
+ * スペースの位置をブロック名で引くため、ブロック名の重複も不正とする。
+ */
+export const validateVenueLayout = (value: unknown, prefix = 'venueLayout'): string[] => {
+  if (!isPlainObject(value)) return [`${prefix} の形式が不正です`];
+  const errors: string[] = [];
+  if (typeof value.name !== 'string') {
+    errors.push(`${prefix}.name が文字列ではありません`);
+  }
+  if (!Array.isArray(value.halls)) {
+    errors.push(`${prefix}.halls が配列ではありません`);
+    return errors;
+  }
+  const blockNames = new Set<string>();
+  value.halls.forEach((hall: unknown, hallIndex: number) => {
+    const hallPrefix = `${prefix}.halls[${hallIndex}]`;
+    if (!isPlainObject(hall)) {
+      errors.push(`${hallPrefix} の形式が不正です`);
+      return;
+    }
+    if (typeof hall.name !== 'string' || !hall.name) {
+      errors.push(`${hallPrefix}.name がありません`);
+    }
+    errors.push(...validateRect(hall, hallPrefix));
+    if (!Array.isArray(hall.blocks)) {
+      errors.push(`${hallPrefix}.blocks が配列ではありません`);
+      return;
+    }
+    hall.blocks.forEach((block: unknown, blockIndex: number) => {
+      const blockPrefix = `${hallPrefix}.blocks[${blockIndex}]`;
+      errors.push(...validateVenueBlock(block, blockPrefix));
+      if (isPlainObject(block) && typeof block.name === 'string' && block.name) {
+        if (blockNames.has(block.name)) {
+          errors.push(`${blockPrefix}: ブロック「${block.name}」が重複しています`);
+        }
+        blockNames.add(block.name);
+      }
+    });
+  });
+  return errors;
+};
+
+export const createVenueLayoutFile = (layout: VenueLayout): VenueLayoutFile => ({
+  format: VENUE_LAYOUT_FORMAT,
+  version: VENUE_LAYOUT_FORMAT_VERSION,
+  layout,
+});
+
+/**
+ * 会場図のJSON（書き出したファイル、または会場図そのもの）を読み込む。
+ * 読み込めない場合は理由を返す。
+ */
+export const parseVenueLayout = (text: string): { ok: true; layout: VenueLayout } | { ok: false; errors: string[] } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: ['JSONとして読み込めません。括弧や引用符を確認してください。'] };
+  }
+  if (isPlainObject(raw) && raw.format === VENUE_LAYOUT_FORMAT) {
+    if (typeof raw.version !== 'number' || raw.version > VENUE_LAYOUT_FORMAT_VERSION) {
+      return { ok: false, errors: ['新しいバージョンのアプリで作成された会場図です。アプリを更新してから読み込んでください。'] };
+    }
+    raw = raw.layout;
+  }
+  const errors = validateVenueLayout(raw, '会場図');
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, layout: raw as VenueLayout };
+};
+
+// スペース番号の数字の部分（「12a」→ 12、「12-13」→ 12）。数字で始まらない場合は null
+export const parseSpaceNumber = (number: string): number | null => {
+  const match = number.match(/^\d+/);
+  return match ? parseInt(match[0], 10) : null;
+};
+
+// ブロック名から、会場図のブロックとそのホールを探す
+export const findVenueBlock = (layout: VenueLayout, blockName: string): { hall: VenueHall; block: VenueBlock } | null => {
+  for (const hall of layout.halls) {
+    const block = hall.blocks.find(b => b.name === blockName);
+    if (block) return { hall, block };
+  }
+  return null;
+};
+
+/**
+ * ブロック・スペース番号から会場内の位置（スペースの中心）を求める。
+ * 会場図にないブロックは null。番号が範囲外・読み取れない場合はブロックの中央を返す。
+ */
+export const locateSpace = (layout: VenueLayout, blockName: string, number: string): VenueLocation | null => {
+  const found = findVenueBlock(layout, blockName);
+  if (!found) return null;
+  const { hall, block } = found;
+  const spaceNumber = parseSpaceNumber(number);
+  const { from, to } = block.numbers;
+  if (spaceNumber === null || spaceNumber < from || spaceNumber > to) {
+    return { hall, block, x: block.x + block.width / 2, y: block.y + block.height / 2, isShutter: false, isApproximate: true };
+  }
+
+  // along: 通路の向きの位置（0〜1）、side: 通路と直交する向きの位置（0〜1）
+  const count = to - from + 1;
+  const index = spaceNumber - from;
+  let along: number;
+  let side: number;
+  if (block.kind === 'island') {
+    // 島は前半を片側に並べ、端で折り返して後半を反対側に戻る
+    const firstHalf = Math.ceil(count / 2);
+    if (index < firstHalf) {
+      along = (index + 0.5) / firstHalf;
+      side = 0.25;
+    } else {
+      along = 1 - (index - firstHalf + 0.5) / (count - firstHalf);
+      side = 0.75;
+    }
+  } else {
+    along = (index + 0.5) / count;
+    side = 0.5;
+  }
+  if (block.reversed) along = 1 - along;
+
+  const isHorizontal = block.axis === 'horizontal';
+  return {
+    hall,
+    block,
+    x: block.x + block.width * (isHorizontal ? along : side),
+    y: block.y + block.height * (isHorizontal ? side : along),
+    isShutter: (block.shutters || []).some(range => spaceNumber >= range.from && spaceNumber <= range.to),
+    isApproximate: false,
+  };
+};
+
+// リストのブロックのうち、会場図にないもの
+export const findUnplacedBlocks = (layout: VenueLayout, items: ShoppingItem[]): string[] =>
+  Array.from(new Set(items.map(item => item.block)))
+    .filter(block => block && !findVenueBlock(layout, block))
+    .sort((a, b) => a.localeCompare(b, 'ja'));
+
+/**
+ * リストのブロックから、編集のもとにする会場図を作る。
+ * ブロックを1つのホールに縦長の島として左から並べ、番号は1からリストにある最大の番号までとする。
+ */
+export const createVenueLayoutTemplate = (name: string, items: ShoppingItem[]): VenueLayout => {
+  const maxNumbers = new Map<string, number>();
+  items.forEach(item => {
+    if (!item.block) return;
+    const number = parseSpaceNumber(item.number) ?? 1;
+    maxNumbers.set(item.block, Math.max(maxNumbers.get(item.block) ?? 0, number));
+  });
+  // 一覧の並べ替えと同じく、数値のブロックは数値順、それ以外は文字列順
+  const names = Array.from(maxNumbers.keys()).sort((a, b) => {
+    const numA = Number(a);
+    const numB = Number(b);
+    if (!isNaN(numA) && !isNaN(numB)) return numA - numB;
+    return a.localeCompare(b);
+  });
+
+  const blocks: VenueBlock[] = names.map((blockName, index) => {
+    const numbers = { from: 1, to: Math.max(2, maxNumbers.get(blockName)!) };
+    return {
+      name: blockName,
+      kind: 'island',
+      x: 2 + index * 4,
+      y: 2,
+      width: 2,
+      height: Math.ceil((numbers.to - numbers.from + 1) / 2),
+      axis: 'vertical',
+      numbers,
+    };
+  });
+  const height = Math.max(4, ...blocks.map(block => block.height)) + 4;
+  return {
+    name,
+    halls: [{ name: 'ホール', x: 0, y: 0, width: Math.max(4, blocks.length * 4 + 2), height, blocks }],
+  };
+};
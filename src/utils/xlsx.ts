@@ -0,0 +1,241 @@
+import { columnLabel } from './columnMapping';
+import { createZip, readZip } from './zip';
+
+// Excelブック（.xlsx）の読み書き。セルの値は文字列として扱い、書式・数式は読み込まない
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export interface XlsxSheet {
+  name: string;
+  rows: string[][]; // 空行は含めない
+  rowNumbers: number[]; // 各行のシート上の行番号（1始まり）
+}
+
+export interface XlsxSheetData {
+  name: string;
+  rows: Array<Array<string | number>>; // 1行目は見出しとして太字・固定表示にする
+  columnWidths?: number[]; // 列の幅（文字数）
+  listValidations?: Array<{ column: number; values: string[] }>; // 見出しより下のセルを選択肢から選ぶ列
+}
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+// 選択肢を設定する範囲（後からExcelで行を追加しても選べるように余裕を持たせる）
+const VALIDATION_MIN_ROWS = 1000;
+
+// ---- 読み込み ----
+
+const parseXml = (bytes: Uint8Array, path: string) => {
+  const doc = new DOMParser().parseFromString(new TextDecoder().decode(bytes), 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`Excelファイルが壊れています（${path}）。`);
+  }
+  return doc;
+};
+
+// 名前空間の接頭辞（x: など）の有無にかかわらず要素を探す
+const elements = (parent: Document | Element, localName: string) =>
+  Array.from(parent.getElementsByTagNameNS('*', localName));
+
+// パッケージ内のパスを、基準となるファイルのフォルダからの相対パスとして解決する
+const resolvePath = (basePath: string, target: string) => {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = basePath.split('/').slice(0, -1);
+  target.split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+};
+
+// ファイルに関連付けられたパーツ（Id → パス、種類 → パス）
+const readRelationships = (files: Map<string, Uint8Array>, path: string) => {
+  const slash = path.lastIndexOf('/');
+  const relsPath = `${path.slice(0, slash + 1)}_rels/${path.slice(slash + 1)}.rels`;
+  const byId = new Map<string, string>();
+  const byType = new Map<string, string>();
+  const bytes = files.get(relsPath);
+  if (!bytes) return { byId, byType };
+  elements(parseXml(bytes, relsPath), 'Relationship').forEach(rel => {
+    const target = resolvePath(path, rel.getAttribute('Target') || '');
+    byId.set(rel.getAttribute('Id') || '', target);
+    byType.set((rel.getAttribute('Type') || '').split('/').pop() || '', target);
+  });
+  return { byId, byType };
+};
+
+// ふりがな（rPh）を除いた文字列
+const textContent = (element: Element) =>
+  elements(element, 't')
+    .filter(t => t.parentElement?.localName !== 'rPh')
+    .map(t => t.textContent || '')
+    .join('');
+
+// A1 形式のセル参照から0始まりの列番号を求める
+const columnIndex = (reference: string) => {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || '';
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+/**
+ * .xlsx ファイルを読み込み、シートごとのセルの値を返す。
+ * Excelブックとして読み込めない場合は例外を投げる。
+ */
+export const readXlsx = async (data: Uint8Array): Promise<XlsxSheet[]> => {
+  const files = await readZip(data);
+  const workbookPath = readRelationships(files, '').byType.get('officeDocument') || 'xl/workbook.xml';
+  const workbookBytes = files.get(workbookPath);
+  if (!workbookBytes) {
+    throw new Error('Excelブック（.xlsx）ではありません。');
+  }
+  const workbook = parseXml(workbookBytes, workbookPath);
+  const relationships = readRelationships(files, workbookPath);
+
+  const sharedStringsPath = relationships.byType.get('sharedStrings');
+  const sharedStringsBytes = sharedStringsPath ? files.get(sharedStringsPath) : undefined;
+  const sharedStrings = sharedStringsBytes
+    ? elements(parseXml(sharedStringsBytes, sharedStringsPath!), 'si').map(textContent)
+    : [];
+
+  const sheets: XlsxSheet[] = [];
+  elements(workbook, 'sheet').forEach(sheet => {
+    const relationshipId = Array.from(sheet.attributes).find(attr => attr.localName === 'id' && attr.namespaceURI)?.value || '';
+    const sheetPath = relationships.byId.get(relationshipId);
+    const sheetBytes = sheetPath ? files.get(sheetPath) : undefined;
+    if (!sheetBytes) return;
+    const sheetDoc = parseXml(sheetBytes, sheetPath!);
+    // グラフのシートなど、セルを持たないシートは除く
+    if (elements(sheetDoc, 'sheetData').length === 0) return;
+
+    const rows: string[][] = [];
+    const rowNumbers: number[] = [];
+    let rowNumber = 0;
+    elements(sheetDoc, 'row').forEach(row => {
+      rowNumber = parseInt(row.getAttribute('r') || '', 10) || rowNumber + 1;
+      const cells: string[] = [];
+      elements(row, 'c').forEach(cell => {
+        const reference = cell.getAttribute('r');
+        const index = reference ? columnIndex(reference) : cells.length;
+        const type = cell.getAttribute('t');
+        const value = elements(cell, 'v')[0]?.textContent || '';
+        let text: string;
+        if (type === 's') text = sharedStrings[parseInt(value, 10)] ?? '';
+        else if (type === 'inlineStr') text = elements(cell, 'is')[0] ? textContent(elements(cell, 'is')[0]) : '';
+        else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+        else text = value;
+        while (cells.length < index) cells.push('');
+        cells[index] = text;
+      });
+      if (cells.some(cell => cell.trim() !== '')) {
+        rows.push(cells);
+        rowNumbers.push(rowNumber);
+      }
+    });
+    sheets.push({ name: sheet.getAttribute('name') || `Sheet${sheets.length + 1}`, rows, rowNumbers });
+  });
+  return sheets;
+};
+
+// ---- 書き出し ----
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '') // XMLで使えない制御文字
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Excelのシート名として使える、他と重ならない名前にする。
+ * （31文字まで、\ / ? * : [ ] は使えない）
+ */
+export const toSheetName = (name: string, usedNames: Set<string>) => {
+  const base = name.replace(/[\\/?*:[\]]/g, '_').replace(/^'+|'+$/g, '').slice(0, 31) || 'Sheet';
+  let candidate = base;
+  let index = 2;
+  while (usedNames.has(candidate.toLowerCase())) {
+    const suffix = `(${index++})`;
+    candidate = `${base.slice(0, 31 - suffix.length)}${suffix}`;
+  }
+  usedNames.add(candidate.toLowerCase());
+  return candidate;
+};
+
+const createSheetXml = ({ rows, columnWidths = [], listValidations = [] }: XlsxSheetData) => {
+  const rowXml = rows.map((cells, rowIndex) => {
+    const style = rowIndex === 0 ? ' s="1"' : '';
+    const cellXml = cells.map((value, columnIndex) => {
+      const reference = `${columnLabel(columnIndex)}${rowIndex + 1}`;
+      if (typeof value === 'number') return `<c r="${reference}"${style}><v>${value}</v></c>`;
+      if (value === '') return '';
+      return `<c r="${reference}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+    }).join('');
+    return `<row r="${rowIndex + 1}">${cellXml}</row>`;
+  }).join('');
+
+  const colsXml = columnWidths.length > 0
+    ? `<cols>${columnWidths.map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`
+    : '';
+
+  const lastRow = Math.max(rows.length, VALIDATION_MIN_ROWS);
+  const validationsXml = listValidations.length > 0
+    ? `<dataValidations count="${listValidations.length}">${listValidations.map(({ column, values }) =>
+      `<dataValidation type="list" allowBlank="1" showErrorMessage="1" sqref="${columnLabel(column)}2:${columnLabel(column)}${lastRow}">` +
+      `<formula1>${escapeXml(`"${values.join(',')}"`)}</formula1></dataValidation>`).join('')}</dataValidations>`
+    : '';
+
+  return `${XML_DECLARATION}<worksheet xmlns="${MAIN_NS}" xmlns:r="${RELATIONSHIPS_NS}">` +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `${colsXml}<sheetData>${rowXml}</sheetData>${validationsXml}</worksheet>`;
+};
+
+const STYLES_XML = `${XML_DECLARATION}<styleSheet xmlns="${MAIN_NS}">` +
+  '<fonts count="2"><font><sz val="11"/><name val="游ゴシック"/></font><font><b/><sz val="11"/><name val="游ゴシック"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+  '</styleSheet>';
+
+/**
+ * シートごとの値から .xlsx ファイルを作る。シート名は toSheetName で整えておくこと。
+ */
+export const createXlsx = async (sheets: XlsxSheetData[]): Promise<Uint8Array<ArrayBuffer>> => {
+  const encoder = new TextEncoder();
+  const sheetPaths = sheets.map((_, index) => `xl/worksheets/sheet${index + 1}.xml`);
+
+  const contentTypes = `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    sheetPaths.map(path => `<Override PartName="/${path}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('') +
+    '</Types>';
+
+  const rootRels = `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">` +
+    `<Relationship Id="rId1" Type="${RELATIONSHIPS_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+    '</Relationships>';
+
+  const workbook = `${XML_DECLARATION}<workbook xmlns="${MAIN_NS}" xmlns:r="${RELATIONSHIPS_NS}"><sheets>` +
+    sheets.map((sheet, index) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('') +
+    '</sheets></workbook>';
+
+  const workbookRels = `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">` +
+    sheetPaths.map((path, index) => `<Relationship Id="rId${index + 1}" Type="${RELATIONSHIPS_NS}/worksheet" Target="${path.slice('xl/'.length)}"/>`).join('') +
+    `<Relationship Id="rId${sheets.length + 1}" Type="${RELATIONSHIPS_NS}/styles" Target="styles.xml"/>` +
+    '</Relationships>';
+
+  return createZip([
+    { name: '[Content_Types].xml', data: encoder.encode(contentTypes) },
+    { name: '_rels/.rels', data: encoder.encode(rootRels) },
+    { name: 'xl/workbook.xml', data: encoder.encode(workbook) },
+    { name: 'xl/_rels/workbook.xml.rels', data: encoder.encode(workbookRels) },
+    { name: 'xl/styles.xml', data: encoder.encode(STYLES_XML) },
+    ...sheets.map((sheet, index) => ({ name: sheetPaths[index], data: encoder.encode(createSheetXml(sheet)) })),
+  ]);
+};
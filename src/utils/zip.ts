@@ -0,0 +1,159 @@
+// ZIP形式の読み書き（.xlsx の読み書きに使う。ZIP64・暗号化には対応しない）
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034B50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014B50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054B50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_UTF8_NAME = 0x0800;
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+// 圧縮・展開はブラウザの CompressionStream / DecompressionStream で行う
+const transform = async (data: Uint8Array, stream: CompressionStream | DecompressionStream) => {
+  const buffer = await new Response(new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(stream)).arrayBuffer();
+  return new Uint8Array(buffer);
+};
+
+/**
+ * ZIPファイルの中身を、ファイル名からデータへの対応として読み込む。
+ * ZIPとして読み込めない場合は例外を投げる。
+ */
+export const readZip = async (data: Uint8Array): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  // 末尾のコメントを読み飛ばして、中央ディレクトリの終端を探す
+  let end = data.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== END_OF_CENTRAL_DIRECTORY_SIGNATURE) end--;
+  if (end < 0) {
+    throw new Error('ZIP形式のファイルではありません。');
+  }
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const files = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('ZIPファイルが壊れています。');
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue; // フォルダ
+    if (flags & 1) {
+      throw new Error('パスワード付きのファイルは読み込めません。');
+    }
+    if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error('ZIPファイルが壊れています。');
+    }
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const compressed = data.subarray(dataStart, dataStart + compressedSize);
+    if (method === METHOD_STORED) {
+      files.set(name, compressed);
+    } else if (method === METHOD_DEFLATE) {
+      files.set(name, await transform(compressed, new DecompressionStream('deflate-raw')));
+    } else {
+      throw new Error(`対応していない圧縮形式です（${name}）。`);
+    }
+  }
+  return files;
+};
+
+/**
+ * ファイルをまとめてZIP形式（deflate圧縮）にする。
+ */
+export const createZip = async (entries: ZipEntry[]): Promise<Uint8Array<ArrayBuffer>> => {
+  const encoder = new TextEncoder();
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const compressed = await transform(entry.data, new CompressionStream('deflate-raw'));
+    const crc = crc32(entry.data);
+
+    // ローカルヘッダーと中央ディレクトリのヘッダーで共通の項目
+    const writeCommon = (view: DataView, at: number) => {
+      view.setUint16(at, 20, true); // 展開に必要なバージョン
+      view.setUint16(at + 2, FLAG_UTF8_NAME, true);
+      view.setUint16(at + 4, METHOD_DEFLATE, true);
+      view.setUint16(at + 6, dosTime, true);
+      view.setUint16(at + 8, dosDate, true);
+      view.setUint32(at + 10, crc, true);
+      view.setUint32(at + 14, compressed.length, true);
+      view.setUint32(at + 18, entry.data.length, true);
+      view.setUint16(at + 22, name.length, true);
+    };
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    writeCommon(localView, 4);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    centralView.setUint16(4, 20, true); // 作成したバージョン
+    writeCommon(centralView, 6);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    localParts.push(local, compressed);
+    centralParts.push(central);
+    offset += local.length + compressed.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const endRecord = new Uint8Array(22);
+  const endView = new DataView(endRecord.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, endRecord];
+  const result = new Uint8Array(offset + centralSize + endRecord.length);
+  parts.reduce((position, part) => {
+    result.set(part, position);
+    return position + part.length;
+  }, 0);
+  return result;
+};
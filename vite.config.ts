@@ -17,10 +17,40 @@ export default defineConfig({
         display: 'standalone',
         orientation: 'portrait',
         start_url: '/',
-        icons: []
+        icons: [],
+        // OSの「このアプリで開く」と、他のアプリからの共有でファイルを受け取る
+        file_handlers: [
+          {
+            action: '/',
+            accept: {
+              'text/csv': ['.csv'],
+              'text/tab-separated-values': ['.tsv'],
+              'application/json': ['.json'],
+              'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+            }
+          }
+        ],
+        share_target: {
+          action: '/share-target',
+          method: 'POST',
+          enctype: 'multipart/form-data',
+          params: {
+            files: [
+              {
+                name: 'files',
+                accept: ['text/csv', '.csv', 'text/tab-separated-values', '.tsv', 'application/json', '.json', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', '.xlsx']
+              }
+            ]
+          }
+        },
+        launch_handler: {
+          client_mode: 'focus-existing'
+        }
       },
       workbox: {
         globPatterns: ['**/*.{js,css,html,ico,png,svg}'],
+        // 共有されたファイル（POST /share-target）を受け取る処理
+        importScripts: ['share-target.js'],
         runtimeCaching: [
           {
             urlPattern: /^https:\/\/cdn\.tailwindcss\.com\/.*/i,